@@ -0,0 +1,197 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fingerprintPublicKey, generateKeypair, KeyPair } from "@/lib/crypto";
+import { Envelope, signEnvelope } from "@/lib/envelope";
+import { RelayClient, RelayEvent } from "@/lib/relay-client";
+import { RelayServer, startRelayServer } from "@/backend/relay";
+
+/* 🔹 **Two-Client Harness** */
+
+interface TestUser {
+  id: string;
+  signingKey: KeyPair;
+  client: RelayClient;
+  received: Envelope[];
+  events: RelayEvent[];
+}
+
+let relay: RelayServer;
+let users: TestUser[] = [];
+let keys: Record<string, KeyPair>;
+
+function createUser(id: string, signingKey = keys[id]): TestUser {
+  const user: TestUser = {
+    id,
+    signingKey,
+    client: new RelayClient(`ws://127.0.0.1:${relay.port}`),
+    received: [],
+    events: [],
+  };
+  user.client.onEnvelope((envelope) => {
+    user.received.push(envelope);
+  });
+  user.client.onEvent((event) => user.events.push(event));
+  users.push(user);
+  return user;
+}
+
+async function connect(user: TestUser): Promise<void> {
+  user.client.connect(user.id, user.signingKey);
+  await vi.waitFor(() => expect(user.client.isConnected()).toBe(true));
+}
+
+// A signed envelope with placeholder ciphertext; the relay only checks the signature
+async function envelopeFrom(sender: TestUser, recipientId: string, senderId = sender.id): Promise<Envelope> {
+  return signEnvelope(
+    {
+      version: 1,
+      id: crypto.randomUUID(),
+      senderId,
+      recipientId,
+      senderKeyFingerprint: fingerprintPublicKey(sender.signingKey.publicKey),
+      timestamp: Date.now(),
+      algorithms: { kem: "ML-KEM-1024", signature: sender.signingKey.algorithm, aead: "AES-256-GCM" },
+      header: { kemPublicKey: "00", previousChainLength: 0, messageNumber: 0 },
+      nonce: "00",
+      ciphertext: "00",
+    },
+    sender.signingKey
+  );
+}
+
+function eventsOf(user: TestUser, type: RelayEvent["type"]): RelayEvent[] {
+  return user.events.filter((event) => event.type === type);
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  keys = {
+    alice: await generateKeypair("ML-DSA-44"),
+    bob: await generateKeypair("ML-DSA-44"),
+  };
+});
+
+beforeEach(async () => {
+  relay = await startRelayServer({ port: 0 });
+});
+
+afterEach(async () => {
+  users.forEach((user) => user.client.disconnect());
+  users = [];
+  await relay.close();
+});
+
+/* 🔹 **Routing & Delivery** */
+
+describe("relay", () => {
+  it("routes an envelope between two online clients and reports delivery", async () => {
+    const alice = createUser("alice");
+    const bob = createUser("bob");
+    await connect(alice);
+    await connect(bob);
+
+    const envelope = await envelopeFrom(alice, "bob");
+    expect(alice.client.send(envelope)).toBe(true);
+
+    await vi.waitFor(() => expect(bob.received).toEqual([envelope]));
+    await vi.waitFor(() => expect(eventsOf(alice, "delivered")).toEqual([{ type: "delivered", id: envelope.id }]));
+    expect(eventsOf(alice, "accepted")).toEqual([{ type: "accepted", id: envelope.id, queued: false }]);
+  });
+
+  it("queues envelopes for an offline recipient until they connect", async () => {
+    const alice = createUser("alice");
+    await connect(alice);
+
+    const envelope = await envelopeFrom(alice, "bob");
+    alice.client.send(envelope);
+    await vi.waitFor(() => expect(eventsOf(alice, "accepted")).toEqual([{ type: "accepted", id: envelope.id, queued: true }]));
+
+    const bob = createUser("bob");
+    await connect(bob);
+    await vi.waitFor(() => expect(bob.received).toEqual([envelope]));
+    await vi.waitFor(() => expect(eventsOf(alice, "delivered")).toHaveLength(1));
+  });
+
+  it("re-delivers an envelope the recipient failed to handle", async () => {
+    const alice = createUser("alice");
+    const bob = createUser("bob");
+    await connect(alice);
+    await connect(bob);
+
+    const failing = bob.client.onEnvelope(() => {
+      throw new Error("storage full");
+    });
+    vi.spyOn(console, "error").mockImplementationOnce(() => undefined);
+    const envelope = await envelopeFrom(alice, "bob");
+    alice.client.send(envelope);
+    await vi.waitFor(() => expect(bob.received).toHaveLength(1));
+    failing();
+
+    // Not acknowledged, so it is still queued for Bob's next connection
+    bob.client.disconnect();
+    await connect(bob);
+    await vi.waitFor(() => expect(bob.received).toEqual([envelope, envelope]));
+    await vi.waitFor(() => expect(eventsOf(alice, "delivered")).toHaveLength(1));
+  });
+
+  it("hands envelopes to listeners one at a time, in order", async () => {
+    const alice = createUser("alice");
+    const bob = createUser("bob");
+    await connect(alice);
+    await connect(bob);
+
+    // The first envelope takes longest to handle; the second must still wait for it
+    const handled: string[] = [];
+    bob.client.onEnvelope(async (envelope) => {
+      if (handled.length === 0) await new Promise((resolve) => setTimeout(resolve, 100));
+      handled.push(envelope.id);
+    });
+    const envelopes = [await envelopeFrom(alice, "bob"), await envelopeFrom(alice, "bob")];
+    envelopes.forEach((envelope) => alice.client.send(envelope));
+    await vi.waitFor(() => expect(handled).toEqual(envelopes.map((envelope) => envelope.id)));
+  });
+
+  it("drops queued envelopes once their TTL has passed", async () => {
+    await relay.close();
+    relay = await startRelayServer({ port: 0, ttlMs: 50 });
+    const alice = createUser("alice");
+    await connect(alice);
+    alice.client.send(await envelopeFrom(alice, "bob"));
+    await vi.waitFor(() => expect(eventsOf(alice, "accepted")).toHaveLength(1));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const bob = createUser("bob");
+    await connect(bob);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(bob.received).toEqual([]);
+  });
+});
+
+/* 🔹 **Authentication** */
+
+describe("relay authentication", () => {
+  it("refuses a second key for a user ID it has already seen", async () => {
+    await connect(createUser("alice"));
+
+    const impostor = createUser("alice", keys.bob);
+    impostor.client.connect("alice", keys.bob);
+    await vi.waitFor(() => expect(eventsOf(impostor, "error")).not.toHaveLength(0));
+    expect(impostor.client.isConnected()).toBe(false);
+  });
+
+  it("rejects envelopes not signed by the authenticated sender", async () => {
+    const alice = createUser("alice");
+    const bob = createUser("bob");
+    await connect(alice);
+    await connect(bob);
+
+    const forged = await envelopeFrom(alice, "bob", "carol");
+    alice.client.send(forged);
+    await vi.waitFor(() =>
+      expect(eventsOf(alice, "error")).toEqual([
+        { type: "error", message: "Envelope is not signed by the authenticated sender", id: forged.id },
+      ])
+    );
+    expect(bob.received).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+import { randomBytes } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import WebSocket, { WebSocketServer } from "ws";
+import { verifySignature } from "@/lib/crypto";
+import { deserializeEnvelope, verifyEnvelope } from "@/lib/envelope";
+import { InMemoryPrekeyDirectory } from "@/lib/prekeys";
+import {
+  ClientFrame,
+  DEFAULT_RELAY_PORT,
+  DEFAULT_RELAY_TTL_MS,
+  MAX_GROUP_RECIPIENTS,
+  relayChallengeMessage,
+  ServerFrame,
+} from "@/lib/relay-protocol";
+
+/**
+ * ✅ Authenticated WebSocket Relay
+ * Clients prove possession of their identity signature key, then exchange signed envelopes.
+ * Envelopes for offline recipients are queued in memory until acknowledged or expired, and
+ * the relay serves the PQXDH prekey directory. Run with `npm run relay` (port from `RELAY_PORT`, default 8787).
+ */
+
+export interface RelayOptions {
+  port?: number;
+  /** How long undelivered envelopes are kept. */
+  ttlMs?: number;
+  /** Oldest envelopes are dropped beyond this many per recipient. */
+  maxQueuedPerRecipient?: number;
+}
+
+export interface RelayServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+interface QueuedEnvelope {
+  id: string;
+  senderId: string;
+  envelope: string;
+  expiresAt: number;
+}
+
+interface Peer {
+  socket: WebSocket;
+  nonce: string;
+  userId?: string;
+  publicKey?: string;
+}
+
+const MAX_FRAME_BYTES = 1024 * 1024;
+
+function send(socket: WebSocket, frame: ServerFrame): void {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+}
+
+/**
+ * ✅ Start a relay server
+ * @returns Handle with the bound port (useful when `port` is 0) and a `close` method
+ */
+export async function startRelayServer(options: RelayOptions = {}): Promise<RelayServer> {
+  const { ttlMs = DEFAULT_RELAY_TTL_MS, maxQueuedPerRecipient = 1000 } = options;
+  const wss = new WebSocketServer({ port: options.port ?? DEFAULT_RELAY_PORT, maxPayload: MAX_FRAME_BYTES });
+  await new Promise<void>((resolve, reject) => {
+    wss.once("listening", resolve);
+    wss.once("error", reject);
+  });
+
+  const online = new Map<string, Set<Peer>>();
+  const queues = new Map<string, QueuedEnvelope[]>();
+  // First key seen for each user id; a different key can never take the id over
+  const identities = new Map<string, string>();
+  const prekeys = new InMemoryPrekeyDirectory();
+
+  /* 🔹 **Offline Queue** */
+
+  const pending = (userId: string): QueuedEnvelope[] => {
+    const now = Date.now();
+    const queue = (queues.get(userId) ?? []).filter((item) => item.expiresAt > now);
+    if (queue.length) queues.set(userId, queue);
+    else queues.delete(userId);
+    return queue;
+  };
+
+  const enqueue = (recipientId: string, item: QueuedEnvelope) => {
+    const queue = pending(recipientId).filter((queued) => queued.id !== item.id);
+    queue.push(item);
+    queues.set(recipientId, queue.slice(-maxQueuedPerRecipient));
+  };
+
+  const sweep = setInterval(() => [...queues.keys()].forEach(pending), Math.min(ttlMs, 60 * 1000));
+
+  /* 🔹 **Frame Handling** */
+
+  const authenticate = async (peer: Peer, frame: Extract<ClientFrame, { type: "auth" }>) => {
+    const known = identities.get(frame.userId);
+    if (known && known !== frame.publicKey) throw new Error("Identity key does not match this user");
+    if (!(await verifySignature(relayChallengeMessage(peer.nonce, frame.userId), frame.signature, frame.publicKey))) {
+      throw new Error("Challenge signature is invalid");
+    }
+
+    identities.set(frame.userId, frame.publicKey);
+    peer.userId = frame.userId;
+    peer.publicKey = frame.publicKey;
+    online.set(frame.userId, (online.get(frame.userId) ?? new Set()).add(peer));
+
+    const queue = pending(frame.userId);
+    send(peer.socket, { type: "authenticated", queued: queue.length });
+    queue.forEach((item) => send(peer.socket, { type: "MessageSent", envelope: item.envelope }));
+    console.log(`🔹 ${frame.userId} authenticated (${queue.length} queued)`);
+  };
+
+  const route = async (peer: Peer, frame: Extract<ClientFrame, { type: "MessageSent" }>) => {
+    const envelope = deserializeEnvelope(frame.envelope);
+    if (envelope.senderId !== peer.userId || !(await verifyEnvelope(envelope, peer.publicKey))) {
+      send(peer.socket, { type: "error", message: "Envelope is not signed by the authenticated sender", id: envelope.id });
+      return;
+    }
+
+    // Group envelopes are addressed to the group; the sender names the members to fan out to
+    const recipientIds = envelope.group ? frame.recipients : [envelope.recipientId];
+    if (
+      envelope.group &&
+      (!Array.isArray(recipientIds) ||
+        recipientIds.length === 0 ||
+        recipientIds.length > MAX_GROUP_RECIPIENTS ||
+        !recipientIds.every((id) => typeof id === "string" && id !== peer.userId))
+    ) {
+      send(peer.socket, { type: "error", message: "Invalid group recipients", id: envelope.id });
+      return;
+    }
+
+    let queued = false;
+    new Set(recipientIds).forEach((recipientId) => {
+      // Kept until the recipient acknowledges it, even when delivered live
+      enqueue(recipientId, {
+        id: envelope.id,
+        senderId: envelope.senderId,
+        envelope: frame.envelope,
+        expiresAt: Date.now() + ttlMs,
+      });
+      const recipients = online.get(recipientId) ?? new Set<Peer>();
+      recipients.forEach((recipient) => send(recipient.socket, { type: "MessageSent", envelope: frame.envelope }));
+      queued ||= recipients.size === 0;
+    });
+    send(peer.socket, { type: "accepted", id: envelope.id, queued });
+  };
+
+  const acknowledge = (peer: Peer, frame: Extract<ClientFrame, { type: "ack" }>) => {
+    const queue = pending(peer.userId);
+    const item = queue.find((queued) => queued.id === frame.id);
+    if (!item) return;
+
+    queues.set(peer.userId, queue.filter((queued) => queued.id !== frame.id));
+    online.get(item.senderId)?.forEach((sender) => send(sender.socket, { type: "delivered", id: item.id }));
+  };
+
+  /* 🔹 **Prekey Directory** */
+
+  const handlePrekeys = async (
+    peer: Peer,
+    frame: Extract<ClientFrame, { type: "publishPrekeys" | "listPrekeys" | "fetchPrekeys" }>
+  ) => {
+    const { requestId } = frame;
+    switch (frame.type) {
+      case "publishPrekeys": {
+        // Only the authenticated user can publish, under the identity key they proved
+        const published = frame.prekeys;
+        if (published?.userId !== peer.userId || published.signingKey?.key !== peer.publicKey) {
+          send(peer.socket, { type: "error", message: "Prekeys do not belong to the authenticated user", requestId });
+          return;
+        }
+        await prekeys.publish(published);
+        send(peer.socket, { type: "prekeysPublished", requestId });
+        return;
+      }
+      case "listPrekeys":
+        send(peer.socket, { type: "prekeyListing", requestId, listing: await prekeys.listPrekeys(peer.userId) });
+        return;
+      case "fetchPrekeys":
+        send(peer.socket, { type: "prekeyBundle", requestId, bundle: await prekeys.fetchBundle(frame.userId) });
+        return;
+    }
+  };
+
+  wss.on("connection", (socket) => {
+    const peer: Peer = { socket, nonce: randomBytes(32).toString("hex") };
+    send(socket, { type: "challenge", nonce: peer.nonce });
+
+    socket.on("message", async (data) => {
+      try {
+        const frame = JSON.parse(data.toString()) as ClientFrame;
+        if (frame.type === "auth") {
+          if (peer.userId) throw new Error("Already authenticated");
+          await authenticate(peer, frame);
+          return;
+        }
+        if (!peer.userId) throw new Error("Not authenticated");
+
+        if (frame.type === "MessageSent") await route(peer, frame);
+        else if (frame.type === "ack") acknowledge(peer, frame);
+        else if (frame.type === "publishPrekeys" || frame.type === "listPrekeys" || frame.type === "fetchPrekeys") {
+          await handlePrekeys(peer, frame);
+        } else throw new Error("Unknown frame type");
+      } catch (error) {
+        console.warn("⚠️ Rejected relay frame:", error);
+        send(socket, { type: "error", message: error instanceof Error ? error.message : "Invalid frame" });
+        if (!peer.userId) socket.close();
+      }
+    });
+
+    socket.on("close", () => {
+      if (!peer.userId) return;
+      const peers = online.get(peer.userId);
+      peers?.delete(peer);
+      if (peers?.size === 0) online.delete(peer.userId);
+    });
+  });
+
+  const address = wss.address();
+  return {
+    port: typeof address === "object" ? address.port : options.port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        clearInterval(sweep);
+        wss.clients.forEach((client) => client.terminate());
+        wss.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+// ✅ Entry point when run directly (`npm run relay`)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const relay = await startRelayServer({ port: Number(process.env.RELAY_PORT) || DEFAULT_RELAY_PORT });
+  console.log(`✅ Relay running on ws://localhost:${relay.port}`);
+}
@@ -1,18 +1,17 @@
 
 import React, { useState } from "react";
-import { generateMLKEMKeypair, generateBIKEKeypair } from "@/lib/crypto";
+import { generateMLKEMKeypair, KeyPair } from "@/lib/crypto";
 import { Button } from "@/components/ui/button";
 
 const PQCKeyGen = () => {
-  const [keys, setKeys] = useState({ mlkem: null, bike: null });
+  const [keys, setKeys] = useState<{ mlkem: KeyPair | null }>({ mlkem: null });
   const [loading, setLoading] = useState(false);
 
   const generateKeys = async () => {
     setLoading(true);
     try {
       const mlkemKeys = await generateMLKEMKeypair();
-      const bikeKeys = await generateBIKEKeypair();
-      setKeys({ mlkem: mlkemKeys, bike: bikeKeys });
+      setKeys({ mlkem: mlkemKeys });
     } catch (error) {
       console.error("Error generating keys:", error);
     } finally {
@@ -34,14 +33,6 @@ const PQCKeyGen = () => {
           </pre>
         </div>
       )}
-      {keys.bike && (
-        <div className="mt-4">
-          <h3 className="font-medium">BIKE Keys (NIST Alternate)</h3>
-          <pre className="bg-gray-100 p-2 rounded mt-2 text-xs overflow-auto">
-            {JSON.stringify(keys.bike, null, 2)}
-          </pre>
-        </div>
-      )}
     </div>
   );
 };
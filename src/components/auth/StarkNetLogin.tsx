@@ -1,73 +1,166 @@
-import React, { useState } from "react";
-import { Provider, Account, Contract, ec, hash } from "starknet";
+import React, { useEffect, useState } from "react";
+import { AccountInterface, ec, hash, num } from "starknet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-
-// ✅ StarkNet Provider (Mainnet/Testnet)
-const provider = new Provider({ rpc: { nodeUrl: "https://starknet-mainnet.infura.io/v3/YOUR_INFURA_PROJECT_ID" } });
-
-// ✅ Replace with Deployed TetraCrypt Messaging Contract Address
-const CONTRACT_ADDRESS = "0xYourDeployedTetraCryptMessagingContract";
+import { createRegistrationBinding, verifyRegistrationBinding } from "@/lib/registration";
+import {
+  DeploymentFee,
+  InjectedWallet,
+  LocalAccount,
+  StoredStarknetAccount,
+  connectWallet,
+  createLocalAccount,
+  deployLocalAccount,
+  estimateDeploymentFee,
+  formatFee,
+  generateStarkKeyPair,
+  getInjectedWallets,
+  toStarknetAccount,
+  unwrapAccountKey,
+  wrapAccountKey,
+} from "@/lib/starknet-account";
+import { getStarknetClient } from "@/lib/starknet-client";
+import { getUserProfile, saveUserProfile } from "@/lib/storage";
+import { getUnlockedKeyPairs } from "@/lib/vault";
+
+// ✅ Record the account on the profile, with the app's Stark key encrypted
+async function saveStarknetAccount(
+  address: string,
+  privateKey: string,
+  account: Omit<StoredStarknetAccount, "starkKey" | "wrappedPrivateKey">
+): Promise<void> {
+  const profile = getUserProfile();
+  if (!profile) return;
+  const starknetAccount: StoredStarknetAccount = {
+    ...account,
+    starkKey: ec.starkCurve.getStarkKey(privateKey),
+    wrappedPrivateKey: await wrapAccountKey(privateKey),
+  };
+  await saveUserProfile({ ...profile, starknetAddress: num.toHex(address), starknetAccount });
+}
 
 const StarkNetLogin = () => {
   const [username, setUsername] = useState("");
-  const [account, setAccount] = useState<Account | null>(null);
+  const [account, setAccount] = useState<AccountInterface | null>(null);
+  const [pendingAccount, setPendingAccount] = useState<LocalAccount | null>(null);
+  const [deploymentFee, setDeploymentFee] = useState<DeploymentFee | null>(null);
+  const [starkPrivateKey, setStarkPrivateKey] = useState<string | null>(null);
+  const [wallets] = useState<InjectedWallet[]>(getInjectedWallets);
   const [isRegistered, setIsRegistered] = useState(false);
   const [signature, setSignature] = useState<string | null>(null);
+  const [transactionState, setTransactionState] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  // ✅ Generate Quantum-Secure StarkNet Key Pair
-  const generateKeyPair = async () => {
+  // ✅ Pick up an account saved earlier (wallets have to be reconnected)
+  useEffect(() => {
+    const profile = getUserProfile();
+    const stored = profile?.starknetAccount;
+    if (!profile?.starknetAddress || !stored) return;
+    const address = profile.starknetAddress;
+
+    unwrapAccountKey(stored)
+      .then((privateKey) => {
+        setStarkPrivateKey(privateKey);
+        setIsRegistered(profile.starknetRegistration?.userAddress === address);
+        if (stored.type !== "created") return;
+        const local = { address, accountClass: stored.accountClass ?? "openzeppelin", starkKey: stored.starkKey, privateKey };
+        if (stored.deployed) setAccount(toStarknetAccount(local));
+        else setPendingAccount(local);
+      })
+      .catch((error) => console.error("❌ Failed to restore StarkNet account:", error));
+  }, []);
+
+  // ✅ Create a New Account: Key Pair and Counterfactual Address, Deployed Once Funded
+  const createAccount = async () => {
+    try {
+      setLoading(true);
+      const local = createLocalAccount();
+      console.log("🔹 StarkNet account address (fund before deploying):", local.address);
+
+      // ✅ Save the key right away, so funds sent to the address are never stranded
+      await saveStarknetAccount(local.address, local.privateKey, {
+        type: "created",
+        accountClass: local.accountClass,
+        deployed: false,
+      });
+      setStarkPrivateKey(local.privateKey);
+      setPendingAccount(local);
+      setDeploymentFee(await estimateDeploymentFee(local).catch(() => null));
+    } catch (error) {
+      console.error("❌ Account Creation Failed:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ✅ Deploy the Funded Account
+  const deployAccount = async () => {
+    if (!pendingAccount) return;
+
     try {
       setLoading(true);
-      const starkKeyPair = ec.genKeyPair();
-      const starkPublicKey = ec.getStarkKey(starkKeyPair);
-      const newAccount = new Account(provider, starkPublicKey, starkKeyPair);
+      const deployed = await deployLocalAccount(pendingAccount, ({ state }) => setTransactionState(state));
+      await saveStarknetAccount(pendingAccount.address, pendingAccount.privateKey, {
+        type: "created",
+        accountClass: pendingAccount.accountClass,
+        deployed: true,
+      });
+      setAccount(deployed);
+      setPendingAccount(null);
+    } catch (error) {
+      console.error("❌ Account Deployment Failed:", error);
+    } finally {
+      setTransactionState(null);
+      setLoading(false);
+    }
+  };
 
-      console.log("🔹 Generated StarkNet Key Pair:", starkPublicKey);
-      setAccount(newAccount);
+  // ✅ Connect an Existing Wallet; the App Signs With Its Own Messaging Key
+  const connectExistingWallet = async (wallet: InjectedWallet) => {
+    try {
+      setLoading(true);
+      const walletAccount = await connectWallet(wallet);
+      const privateKey = starkPrivateKey ?? generateStarkKeyPair().privateKey;
+      await saveStarknetAccount(walletAccount.address, privateKey, { type: "wallet", walletId: wallet.id, deployed: true });
+      setStarkPrivateKey(privateKey);
+      setAccount(walletAccount);
     } catch (error) {
-      console.error("❌ Key Generation Failed:", error);
+      console.error("❌ Wallet Connection Failed:", error);
     } finally {
       setLoading(false);
     }
   };
 
-  // ✅ Register User on StarkNet with zk-STARK Proof
+  // ✅ Register User on StarkNet with a Binding Signed by Both the StarkNet and PQ Keys
   const registerUser = async () => {
-    if (!account) return;
+    if (!account || !starkPrivateKey) return;
 
     try {
       setLoading(true);
-
-      // ✅ Load Contract ABI (Updated for `tetracrypt_messaging.cairo`)
-      const contract = new Contract(
-        [
-          {
-            name: "register_user",
-            type: "function",
-            inputs: [
-              { name: "user_address", type: "felt" },
-              { name: "starknet_key", type: "felt" },
-              { name: "zkProof", type: "felt" },
-            ],
-          },
-        ],
-        CONTRACT_ADDRESS,
-        provider
+      const client = getStarknetClient();
+
+      // ✅ Bind the StarkNet key to the PQ identity key from the vault
+      const binding = await createRegistrationBinding(
+        account.address,
+        starkPrivateKey,
+        getUnlockedKeyPairs().signature,
+        client.context
       );
+      if (!(await verifyRegistrationBinding(binding, client.context))) {
+        throw new Error("Registration binding failed verification");
+      }
+      console.log(`🔹 Registering "${username}" on StarkNet with dual-signed key binding...`);
 
-      // ✅ Generate zk-STARK Proof for Identity Verification
-      const zkProof = hash.starknetKeccak(account.address);
-      console.log(`🔹 Registering "${username}" on StarkNet with zk-STARK Proof...`);
+      const transactionHash = await client.messaging(account).registerUser(binding);
+      console.log("✅ Registration TX:", transactionHash);
+      await client.trackTransaction(transactionHash, ({ state }) => setTransactionState(state));
 
-      const response = await contract.invoke(
-        "register_user",
-        [hash.starknetKeccak(username), account.address, zkProof],
-        { maxFee: "10000000000000" }
-      );
+      // ✅ Keep the full binding so peers can verify the PQ signature off-chain
+      const profile = getUserProfile();
+      if (profile) {
+        await saveUserProfile({ ...profile, starknetRegistration: binding });
+      }
 
-      console.log("✅ Registration TX:", response.transaction_hash);
       setIsRegistered(true);
     } catch (error) {
       console.error("❌ Registration Failed:", error);
@@ -78,13 +171,14 @@ const StarkNetLogin = () => {
 
   // ✅ Sign a Message with StarkNet Identity (Quantum-Secure Authentication)
   const signMessage = async () => {
-    if (!account) return;
+    if (!starkPrivateKey) return;
 
     try {
       setLoading(true);
       const message = "Quantum-Secure Login Message";
       const hashedMessage = hash.starknetKeccak(message);
-      const starkSignature = ec.sign(account.privateKey, hashedMessage);
+      const { r, s } = ec.starkCurve.sign(num.toHex(hashedMessage), starkPrivateKey);
+      const starkSignature = [num.toHex(r), num.toHex(s)];
 
       console.log("🔹 StarkNet Signature Generated:", starkSignature);
       setSignature(JSON.stringify(starkSignature));
@@ -107,13 +201,37 @@ const StarkNetLogin = () => {
         disabled={loading || isRegistered}
       />
 
-      {!account ? (
-        <Button onClick={generateKeyPair} className="bg-indigo-600 hover:bg-indigo-700" disabled={loading}>
-          {loading ? "🔄 Generating..." : "🔑 Generate Key Pair"}
-        </Button>
+      {pendingAccount ? (
+        <>
+          <p className="text-yellow-500 break-all">📬 Account address: {pendingAccount.address}</p>
+          <p className="text-sm text-gray-400">
+            {deploymentFee !== null
+              ? `Fund this address with at least ${formatFee(deploymentFee.maxFee)} STRK, then deploy it.`
+              : "Fund this address with STRK to pay the deployment fee, then deploy it."}
+          </p>
+          <Button onClick={deployAccount} className="bg-indigo-600 hover:bg-indigo-700" disabled={loading}>
+            {loading ? `🔄 Deploying${transactionState ? ` (${transactionState})` : "..."}` : "🚀 Deploy Account"}
+          </Button>
+        </>
+      ) : !account ? (
+        <>
+          <Button onClick={createAccount} className="bg-indigo-600 hover:bg-indigo-700" disabled={loading}>
+            {loading ? "🔄 Generating..." : "🔑 Create Account"}
+          </Button>
+          {wallets.map((wallet) => (
+            <Button
+              key={wallet.id}
+              onClick={() => connectExistingWallet(wallet)}
+              className="bg-gray-700 hover:bg-gray-600"
+              disabled={loading}
+            >
+              🔗 Connect {wallet.name}
+            </Button>
+          ))}
+        </>
       ) : !isRegistered ? (
         <Button onClick={registerUser} className="bg-green-600 hover:bg-green-700" disabled={loading}>
-          {loading ? "🔄 Registering..." : "✅ Register on StarkNet"}
+          {loading ? `🔄 Registering${transactionState ? ` (${transactionState})` : "..."}` : "✅ Register on StarkNet"}
         </Button>
       ) : (
         <>
@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Download, FileText, Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatFileSize, isPreviewableImage, loadAttachment, parseAttachmentMessage } from "@/lib/attachments";
+
+interface AttachmentViewProps {
+  /** Decrypted plaintext of a `kind: "attachment"` message. */
+  plaintext: string;
+}
+
+const AttachmentView: React.FC<AttachmentViewProps> = ({ plaintext }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      return parseAttachmentMessage(plaintext);
+    } catch {
+      return null;
+    }
+  }, [plaintext]);
+  const attachment = parsed?.attachment;
+  const previewable = !!attachment && isPreviewableImage(attachment);
+
+  // ✅ Images are fetched, decrypted and verified straight away for an inline preview
+  useEffect(() => {
+    if (!attachment || !previewable) return;
+    let url: string | null = null;
+    let cancelled = false;
+    loadAttachment(attachment)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+        setVerified(true);
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : "Could not load image"));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, previewable]);
+
+  const handleDownload = async () => {
+    if (!attachment) return;
+    setDownloading(true);
+    setError(null);
+    try {
+      const url = URL.createObjectURL(await loadAttachment(attachment));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+      setVerified(true);
+    } catch (err) {
+      console.error("❌ Attachment download failed:", err);
+      setError(err instanceof Error ? err.message : "Download failed");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (!parsed || !attachment) return <p className="italic text-destructive">Unreadable attachment</p>;
+
+  return (
+    <div className="space-y-2">
+      {previewable && previewUrl && (
+        <img src={previewUrl} alt={attachment.name} className="max-h-64 rounded-md object-contain" />
+      )}
+      {previewable && !previewUrl && !error && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" /> Decrypting image...
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <FileText className="h-4 w-4 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm">{attachment.name}</p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            {formatFileSize(attachment.size)}
+            {verified && (
+              <>
+                · <ShieldCheck className="h-3 w-3 text-green-500" /> SHA-256 verified
+              </>
+            )}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={handleDownload} disabled={downloading} title="Download">
+          {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {parsed.caption && <p className="whitespace-pre-wrap break-words">{parsed.caption}</p>}
+    </div>
+  );
+};
+
+export default AttachmentView;
@@ -3,24 +3,45 @@ import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { GlassContainer } from "@/components/ui/glass-container";
-import { UserPlus, Search, ChevronDown, ChevronUp, User, Menu } from "lucide-react";
-import { Contact, saveContact } from "@/lib/storage";
+import { UserPlus, Search, ChevronDown, ChevronUp, User, Users, Menu, FileUp, ShieldAlert } from "lucide-react";
+import { Contact, Group, saveContact } from "@/lib/storage";
 import { cn } from "@/lib/utils";
+import { algorithms, DEFAULT_ALGORITHMS, SLH_DSA_SIGNATURE_ALGORITHM, TaggedPublicKey } from "@/lib/algorithms";
+import {
+  cardChangesKeys,
+  CONTACT_CARD_FILE_EXTENSION,
+  ContactCard,
+  contactFromCard,
+  parseContactCard,
+  verifyContactCard,
+} from "@/lib/contact-card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Drawer, DrawerContent, DrawerTrigger } from "@/components/ui/drawer";
 import { useIsMobile } from "@/hooks/use-mobile";
+import GroupMembersDialog from "./GroupMembersDialog";
 
 interface ContactListProps {
   contacts: Contact[];
+  groups: Group[];
+  /** ID of the selected contact or group. */
   selectedContactId: string | null;
   onSelectContact: (contactId: string) => void;
-  onRefreshContacts: () => void;
 }
 
 const ContactList: React.FC<ContactListProps> = ({
   contacts,
+  groups,
   selectedContactId,
   onSelectContact,
-  onRefreshContacts,
 }) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [showAddContact, setShowAddContact] = useState(false);
@@ -29,28 +50,50 @@ const ContactList: React.FC<ContactListProps> = ({
   const [newContactKyberKey, setNewContactKyberKey] = useState("");
   const [newContactFalconKey, setNewContactFalconKey] = useState("");
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const [contactCard, setContactCard] = useState("");
+  const [cardError, setCardError] = useState<string | null>(null);
+  // A card that would replace a stored contact's keys, waiting for the user to confirm
+  const [keyChangeCard, setKeyChangeCard] = useState<{ card: ContactCard; existing: Contact } | null>(null);
+  const [newGroupOpen, setNewGroupOpen] = useState(false);
   const isMobile = useIsMobile();
 
   const filteredContacts = contacts.filter(contact =>
     contact.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const filteredGroups = groups.filter(group =>
+    group.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  // Tag pasted keys with their suite so stored contacts always carry an algorithm ID;
+  // SLH-DSA variants share a key size, so those are assumed to be the app's opt-in suite
+  const tagPublicKey = (kind: "kem" | "signature", key: string): TaggedPublicKey | undefined => {
+    const trimmed = key.trim();
+    const preferred = kind === "kem" ? DEFAULT_ALGORITHMS.kem : SLH_DSA_SIGNATURE_ALGORITHM;
+    const algorithm = trimmed ? algorithms.inferFromPublicKey(kind, trimmed, preferred) : undefined;
+    return algorithm && !algorithms.get(algorithm)?.unsupported ? { algorithm, key: trimmed } : undefined;
+  };
+
+  const encryptionKey = tagPublicKey("kem", newContactKyberKey);
+  const signatureKey = tagPublicKey("signature", newContactFalconKey);
+  const hasInvalidKey =
+    (newContactKyberKey.trim() !== "" && !encryptionKey) ||
+    (newContactFalconKey.trim() !== "" && !signatureKey);
 
   const handleAddContact = () => {
-    if (newContactName.trim().length < 3) return;
+    if (newContactName.trim().length < 3 || hasInvalidKey) return;
 
     const newContact: Contact = {
       id: newContactId || crypto.randomUUID(),
       name: newContactName.trim(),
       publicKeys: {
-        kyber: newContactKyberKey || "[Placeholder Kyber Key]",
-        falcon: newContactFalconKey || "[Placeholder Falcon Key]",
+        encryption: encryptionKey,
+        signature: signatureKey,
       },
       unreadCount: 0,
       lastMessage: "",
     };
 
     saveContact(newContact);
-    onRefreshContacts();
     
     // Reset form
     setNewContactName("");
@@ -61,6 +104,40 @@ const ContactList: React.FC<ContactListProps> = ({
     setIsAdvancedOpen(false);
   };
 
+  const saveCard = (card: ContactCard, existing?: Contact) => {
+    saveContact(contactFromCard(card, existing));
+    setContactCard("");
+    setShowAddContact(false);
+  };
+
+  // ✅ Import a contact card; nothing is saved unless its self-signature verifies, and
+  // replacing a known contact's keys needs explicit confirmation
+  const importContactCard = async (input: string) => {
+    setCardError(null);
+    try {
+      const card = parseContactCard(input);
+      if (!(await verifyContactCard(card))) {
+        setCardError("This contact card's signature is invalid. It may have been tampered with.");
+        return;
+      }
+
+      const existing = contacts.find(contact => contact.id === card.userId);
+      if (existing && cardChangesKeys(card, existing)) {
+        setKeyChangeCard({ card, existing });
+        return;
+      }
+      saveCard(card, existing);
+    } catch (error) {
+      setCardError(error instanceof Error ? error.message : "Could not read contact card");
+    }
+  };
+
+  const handleCardFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await importContactCard(await file.text());
+  };
+
   const toggleAdvanced = () => {
     setIsAdvancedOpen(!isAdvancedOpen);
   };
@@ -68,6 +145,31 @@ const ContactList: React.FC<ContactListProps> = ({
   const ContactForm = () => (
     <div className="space-y-4 p-4">
       <h3 className="text-lg font-medium">Add New Contact</h3>
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground">Import Contact Card</label>
+        <div className="flex gap-2">
+          <Input
+            placeholder="tetracrypt://contact/..."
+            value={contactCard}
+            onChange={(e) => setContactCard(e.target.value)}
+          />
+          <Button variant="outline" onClick={() => importContactCard(contactCard)} disabled={!contactCard.trim()}>
+            Import
+          </Button>
+          <Button variant="outline" size="icon" asChild>
+            <label>
+              <FileUp className="h-4 w-4" />
+              <input type="file" accept={`${CONTACT_CARD_FILE_EXTENSION},application/json`} className="hidden" onChange={handleCardFile} />
+            </label>
+          </Button>
+        </div>
+        {cardError && <p className="text-xs text-destructive">{cardError}</p>}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <div className="h-px flex-1 bg-border" /> or enter details manually <div className="h-px flex-1 bg-border" />
+      </div>
+
       <div className="space-y-3">
         <Input
           placeholder="Contact Name"
@@ -94,21 +196,31 @@ const ContactList: React.FC<ContactListProps> = ({
             </div>
             
             <div className="space-y-1">
-              <label className="text-xs text-muted-foreground">Kyber Public Key (optional)</label>
+              <label className="text-xs text-muted-foreground">
+                Encryption Public Key (optional){encryptionKey && ` · ${encryptionKey.algorithm}`}
+              </label>
               <Input
-                placeholder="Kyber Public Key"
+                placeholder="ML-KEM Public Key"
                 value={newContactKyberKey}
                 onChange={(e) => setNewContactKyberKey(e.target.value)}
               />
+              {newContactKyberKey.trim() !== "" && !encryptionKey && (
+                <p className="text-xs text-destructive">Unrecognized encryption key format</p>
+              )}
             </div>
             
             <div className="space-y-1">
-              <label className="text-xs text-muted-foreground">Falcon Public Key (optional)</label>
+              <label className="text-xs text-muted-foreground">
+                Signature Public Key (optional){signatureKey && ` · ${signatureKey.algorithm}`}
+              </label>
               <Input
-                placeholder="Falcon Public Key"
+                placeholder="SLH-DSA / ML-DSA Public Key"
                 value={newContactFalconKey}
                 onChange={(e) => setNewContactFalconKey(e.target.value)}
               />
+              {newContactFalconKey.trim() !== "" && !signatureKey && (
+                <p className="text-xs text-destructive">Unrecognized signature key format</p>
+              )}
             </div>
           </div>
         )}
@@ -125,7 +237,7 @@ const ContactList: React.FC<ContactListProps> = ({
         <Button 
           className="w-full" 
           onClick={handleAddContact}
-          disabled={newContactName.trim().length < 3}
+          disabled={newContactName.trim().length < 3 || hasInvalidKey}
         >
           Add Contact
         </Button>
@@ -134,7 +246,7 @@ const ContactList: React.FC<ContactListProps> = ({
   );
 
   const renderContacts = () => {
-    if (filteredContacts.length === 0) {
+    if (filteredContacts.length === 0 && filteredGroups.length === 0) {
       return (
         <div className="py-8 text-center">
           <p className="text-muted-foreground">No contacts found</p>
@@ -144,6 +256,45 @@ const ContactList: React.FC<ContactListProps> = ({
 
     return (
       <div className="divide-y divide-border">
+        {filteredGroups.map(group => (
+          <div
+            key={group.id}
+            className={cn(
+              "flex items-center gap-3 p-3 cursor-pointer transition-colors",
+              selectedContactId === group.id
+                ? "bg-accent/10"
+                : "hover:bg-secondary"
+            )}
+            onClick={() => onSelectContact(group.id)}
+          >
+            <div className="w-10 h-10 rounded-full bg-accent/10 flex items-center justify-center flex-shrink-0">
+              <Users className="h-5 w-5 text-accent" />
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between items-start">
+                <div className="font-medium truncate">{group.name}</div>
+                {group.lastMessageTime && (
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(group.lastMessageTime).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground truncate">
+                {group.members.map(member => member.name).join(", ")}
+              </p>
+            </div>
+
+            {group.unreadCount > 0 && (
+              <div className="w-5 h-5 rounded-full bg-accent flex items-center justify-center">
+                <span className="text-xs text-white">{group.unreadCount}</span>
+              </div>
+            )}
+          </div>
+        ))}
         {filteredContacts.map(contact => (
           <div
             key={contact.id}
@@ -203,6 +354,10 @@ const ContactList: React.FC<ContactListProps> = ({
           />
         </div>
         
+        <Button size="icon" variant="outline" onClick={() => setNewGroupOpen(true)} title="New group">
+          <Users className="h-4 w-4" />
+        </Button>
+
         {isMobile ? (
           <Drawer>
             <DrawerTrigger asChild>
@@ -230,6 +385,39 @@ const ContactList: React.FC<ContactListProps> = ({
       <div className="flex-1 overflow-y-auto">
         {renderContacts()}
       </div>
+
+      <GroupMembersDialog
+        contacts={contacts}
+        open={newGroupOpen}
+        onOpenChange={setNewGroupOpen}
+        onSaved={(group) => onSelectContact(group.id)}
+      />
+
+      {/* ⚠️ Same warning as a verified contact's key change in the conversation */}
+      <AlertDialog open={keyChangeCard !== null} onOpenChange={(open) => !open && setKeyChangeCard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              {keyChangeCard?.existing.name}'s security keys have changed
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This card carries different keys from the ones stored for this contact. This can mean they reinstalled
+              the app, or that someone is impersonating them. Only replace the keys if you trust where the card came
+              from, and compare safety numbers again before sharing anything sensitive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep current keys</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => keyChangeCard && saveCard(keyChangeCard.card, keyChangeCard.existing)}
+            >
+              Replace keys
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,132 +1,179 @@
-import React, { useEffect, useRef, useState, useCallback } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { GlassContainer } from "@/components/ui/glass-container";
 import { Button } from "@/components/ui/button";
-import { User, Check, CheckCheck, ChevronLeft, Shield, Database, Fingerprint, Lock } from "lucide-react";
+import {
+  AlertCircle,
+  User,
+  Check,
+  CheckCheck,
+  ChevronLeft,
+  Clock,
+  Shield,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  Database,
+  Eye,
+  EyeOff,
+  Fingerprint,
+  Lock,
+  UserCog,
+  Users,
+} from "lucide-react";
 import MessageInput from "./MessageInput";
-import { Contact, Message, getMessagesForContact, markMessagesAsRead, getUserProfile, addMessage } from "@/lib/storage";
+import AttachmentView from "./AttachmentView";
+import { Contact, Group, Message, getUserProfile, saveContact } from "@/lib/storage";
 import { cn } from "@/lib/utils";
-import { 
-  encryptMessage, 
-  encryptMessageChaCha,
-  signMessage, 
-  generateSessionKey,
-  homomorphicEncrypt,
-  verifyDID
-} from "@/lib/crypto";
+import { algorithms, resolveMessageAlgorithms } from "@/lib/algorithms";
+import { attachmentsSupported } from "@/lib/attachments";
+import { sendsReadReceipts } from "@/lib/receipts";
+import { contactVerificationStatus } from "@/lib/safety-numbers";
+import { describeGroupUpdate, groupMemberName, isGroup, isGroupMember, parseGroupUpdate } from "@/lib/groups";
+import { VerificationState } from "@/lib/decryption";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import VerifyContactDialog from "./VerifyContactDialog";
+import GroupMembersDialog from "./GroupMembersDialog";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useDecryptedMessages } from "@/hooks/use-decrypted-messages";
+import { useConversation } from "@/hooks/use-conversation";
+import { useContacts } from "@/hooks/use-contacts";
 
 interface ConversationProps {
-  contact: Contact;
+  conversation: Contact | Group;
   onBack?: () => void;
 }
 
-const Conversation: React.FC<ConversationProps> = ({ contact, onBack }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [sessionKey, setSessionKey] = useState<string | null>(null);
-  const [encryptionMode, setEncryptionMode] = useState<"aes" | "chacha" | "homomorphic">("aes");
+const Conversation: React.FC<ConversationProps> = ({ conversation, onBack }) => {
+  const group = isGroup(conversation) ? conversation : null;
+  const contact = isGroup(conversation) ? null : conversation;
+  const [encryptionMode, setEncryptionMode] = useState<"AES-256-GCM" | "ChaCha20-Poly1305">("AES-256-GCM");
+  const [readReceipts, setReadReceipts] = useState(() => sendsReadReceipts(conversation.id));
+  const [verifyOpen, setVerifyOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const verificationStatus = contact ? contactVerificationStatus(contact) : "unverified";
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
-  
+  const contacts = useContacts();
+  const { messages, hasOlderMessages, loadOlderMessages, sendMessage, sendAttachment, retryMessage } =
+    useConversation(conversation);
+
   // Load user profile for security features
   const user = getUserProfile();
-  const hasWebDID = user && (user as any).didDocument;
-  const hasQKD = user && (user as any).qkdInfo;
-  const hasHSM = user && (user as any).hsmInfo;
+  const hasWebDID = Boolean(user?.didDocument);
+  const hasQKD = Boolean(user?.qkdInfo);
+  const hasHSM = Boolean(user?.hsmInfo);
+  const decrypted = useDecryptedMessages(messages, user?.id);
+  // Removed members keep the history but can no longer post
+  const leftGroup = group !== null && !!user && !isGroupMember(group, user.id);
 
-  // Load Messages on Mount and Listen for Updates
   useEffect(() => {
-    const initializeSessionKey = async () => {
-      if (!sessionKey) {
-        const key = await generateSessionKey();
-        setSessionKey(key);
-      }
-    };
-
-    initializeSessionKey();
-    loadMessages();
-    markMessagesAsRead(contact.id);
-
-    const interval = setInterval(loadMessages, 3000);
-    return () => clearInterval(interval);
-  }, [contact.id]);
+    setReadReceipts(sendsReadReceipts(conversation.id));
+  }, [conversation.id]);
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
-  const loadMessages = useCallback(() => {
-    const fetchedMessages = getMessagesForContact(contact.id);
-    setMessages(fetchedMessages);
-    markMessagesAsRead(contact.id);
-  }, [contact.id]);
+  const toggleReadReceipts = () => {
+    if (!contact) return;
+    saveContact({ ...contact, sendReadReceipts: !readReceipts });
+    setReadReceipts(!readReceipts);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   const handleSendMessage = async (content: string) => {
-    if (!user || !sessionKey) return;
+    if (!user) return;
 
+    // The outbox owns the stored copy from here (pending → sent), so nothing else writes it
     try {
-      // Encrypt message based on selected encryption mode
-      let encryptedContent: string;
-      switch (encryptionMode) {
-        case "chacha":
-          encryptedContent = await encryptMessageChaCha(content, sessionKey);
-          break;
-        case "homomorphic":
-          encryptedContent = await homomorphicEncrypt(content);
-          break;
-        case "aes":
-        default:
-          encryptedContent = await encryptMessage(content, sessionKey);
-          break;
-      }
-
-      // Sign message using SLH-DSA (NIST FIPS 205)
-      const signature = await signMessage(encryptedContent, user.keyPairs.signature.privateKey);
-
-      // Create message object
-      const newMessage: Message = {
-        id: crypto.randomUUID(),
-        senderId: user.id,
-        receiverId: contact.id,
-        encryptedContent,
-        timestamp: new Date().toISOString(),
-        signature,
-        status: 'sent',
-        sessionKey,
-      };
-
-      // Attach encryption metadata
-      (newMessage as any).encryptionMode = encryptionMode;
-
-      // If Web3 DID is available, verify it
-      if (hasWebDID) {
-        (newMessage as any).didVerified = await verifyDID((user as any).didDocument);
-      }
-
-      // Store message
-      addMessage(newMessage);
-      loadMessages();
+      await sendMessage(content, encryptionMode);
     } catch (error) {
       console.error("❌ Message Send Failed:", error);
     }
   };
 
-  const renderMessageStatus = (status: 'sent' | 'delivered' | 'read') => {
-    return status === 'read' 
-      ? <CheckCheck className="h-3 w-3 text-accent" /> 
-      : <Check className="h-3 w-3 text-muted-foreground" />;
+  // Errors reach MessageInput so it can show them next to the staged file
+  const handleSendAttachment = async (file: File, caption: string) => {
+    await sendAttachment(file, caption || undefined, encryptionMode);
+  };
+
+  const renderMessageStatus = (message: Message) => {
+    switch (message.status) {
+      case 'pending':
+        return <Clock className="h-3 w-3 text-muted-foreground" aria-label="Sending" />;
+      case 'failed':
+        return (
+          <button
+            type="button"
+            className="flex items-center gap-1 text-destructive hover:underline"
+            onClick={() => retryMessage(message)}
+          >
+            <AlertCircle className="h-3 w-3" /> Failed – tap to retry
+          </button>
+        );
+      case 'read':
+        return <CheckCheck className="h-3 w-3 text-accent" />;
+      default:
+        return <Check className="h-3 w-3 text-muted-foreground" />;
+    }
   };
 
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const renderEncryptionBadge = (mode: "aes" | "chacha" | "homomorphic") => {
-    return <Badge variant="outline" className="text-xs py-0">{mode.toUpperCase()}</Badge>;
+  const renderVerificationState = (verification?: VerificationState) => {
+    switch (verification) {
+      case "verified":
+        return <ShieldCheck className="h-3 w-3 text-green-500" aria-label="Signature verified" />;
+      case "unverified":
+        return <ShieldQuestion className="h-3 w-3 text-yellow-500" aria-label="Signature not verified" />;
+      case "failed":
+        return <ShieldAlert className="h-3 w-3 text-destructive" aria-label="Verification failed" />;
+      default:
+        return null;
+    }
+  };
+
+  const renderMessageContent = (message: Message) => {
+    const result = decrypted[message.id];
+    if (!result) return <p className="italic text-muted-foreground">Decrypting...</p>;
+    if (result.plaintext === undefined) {
+      return <p className="italic text-destructive">Unable to decrypt message{result.error ? `: ${result.error}` : ""}</p>;
+    }
+    if (message.kind === "attachment") return <AttachmentView plaintext={result.plaintext} />;
+    return <p className="whitespace-pre-wrap break-words">{result.plaintext}</p>;
+  };
+
+  // Membership changes are shown as a line in the timeline rather than a bubble
+  const renderGroupUpdate = (message: Message) => {
+    const plaintext = decrypted[message.id]?.plaintext;
+    let description = "Group membership changed";
+    try {
+      if (plaintext !== undefined && user) description = describeGroupUpdate(parseGroupUpdate(plaintext), user.id);
+    } catch {
+      description = "Unreadable group update";
+    }
+    return (
+      <div key={message.id} className="flex justify-center items-center gap-1 text-xs text-muted-foreground">
+        {renderVerificationState(decrypted[message.id]?.verification)}
+        <span>{description}</span>
+        <span>· {formatTime(message.timestamp)}</span>
+      </div>
+    );
+  };
+
+  const renderEncryptionBadge = (message: Message) => {
+    const { aead, signature } = resolveMessageAlgorithms(message);
+    return (
+      <Badge variant="outline" className="text-xs py-0" title={`${signature} · NIST level ${algorithms.get(aead)?.nistLevel}`}>
+        {aead}
+      </Badge>
+    );
   };
 
   return (
@@ -140,35 +187,98 @@ const Conversation: React.FC<ConversationProps> = ({ contact, onBack }) => {
             </Button>
           )}
           <div className="w-10 h-10 rounded-full bg-accent/10 flex items-center justify-center">
-            <User className="h-5 w-5 text-accent" />
+            {group ? <Users className="h-5 w-5 text-accent" /> : <User className="h-5 w-5 text-accent" />}
           </div>
           <div>
-            <div className="font-medium">{contact.name}</div>
+            <div className="font-medium">{conversation.name}</div>
             <div className="text-xs text-muted-foreground flex items-center gap-1">
               <Shield className="h-3 w-3" /> TetraCryptPQC Secure
+              {group && ` · ${group.members.length} members`}
               {hasWebDID && <Database className="h-3 w-3 ml-1" />}
               {hasHSM && <Fingerprint className="h-3 w-3 ml-1" />}
               {hasQKD && <Lock className="h-3 w-3 ml-1" />}
             </div>
           </div>
         </div>
+        {group ? (
+          <div className="flex items-center">
+            {group.adminId === user?.id && !leftGroup && (
+              <Button variant="ghost" size="icon" onClick={() => setMembersOpen(true)} title="Manage members">
+                <UserCog className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={() => setVerifyOpen(true)} title="Verify safety number">
+              {verificationStatus === "verified" ? (
+                <ShieldCheck className="h-4 w-4 text-green-500" />
+              ) : verificationStatus === "changed" ? (
+                <ShieldAlert className="h-4 w-4 text-destructive" />
+              ) : (
+                <ShieldQuestion className="h-4 w-4 text-muted-foreground" />
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={toggleReadReceipts}
+              title={readReceipts ? "Read receipts on" : "Read receipts off"}
+            >
+              {readReceipts ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4 text-muted-foreground" />}
+            </Button>
+          </div>
+        )}
       </div>
+      {contact && <VerifyContactDialog contact={contact} open={verifyOpen} onOpenChange={setVerifyOpen} />}
+      {group && (
+        <GroupMembersDialog group={group} contacts={contacts} open={membersOpen} onOpenChange={setMembersOpen} />
+      )}
+
+      {/* ⚠️ A verified contact's identity keys changed: possible impersonation */}
+      {contact && verificationStatus === "changed" && (
+        <Alert variant="destructive" className="rounded-none border-x-0 border-t-0">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>{contact.name}'s security keys have changed</AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span>
+              This can mean they reinstalled the app, or that someone is impersonating them. Compare safety
+              numbers again before sharing anything sensitive.
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setVerifyOpen(true)}>
+              Verify
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
 
       {/* Message List */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasOlderMessages && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={loadOlderMessages}>
+              Load earlier messages
+            </Button>
+          </div>
+        )}
         {messages.length === 0 ? (
           <p className="text-muted-foreground text-center">No messages yet.</p>
         ) : (
           messages.map((message) => {
+            if (message.kind === "group-update") return renderGroupUpdate(message);
             const isUserMessage = message.senderId === user.id;
             return (
               <div key={message.id} className={cn("flex", isUserMessage ? "justify-end" : "justify-start")}>
                 <div className={cn("max-w-[75%] rounded-lg px-4 py-2", isUserMessage ? "bg-accent" : "glass")}>
-                  <p>{message.encryptedContent}</p>
+                  {group && !isUserMessage && (
+                    <p className="text-xs font-medium text-accent mb-1">{groupMemberName(group, message.senderId)}</p>
+                  )}
+                  {renderMessageContent(message)}
                   <div className="flex items-center justify-end gap-1 mt-1 text-xs">
-                    {renderEncryptionBadge((message as any).encryptionMode)}
+                    {renderVerificationState(decrypted[message.id]?.verification)}
+                    {renderEncryptionBadge(message)}
                     <span>{formatTime(message.timestamp)}</span>
-                    {isUserMessage && renderMessageStatus(message.status)}
+                    {isUserMessage && renderMessageStatus(message)}
                   </div>
                 </div>
               </div>
@@ -179,7 +289,16 @@ const Conversation: React.FC<ConversationProps> = ({ contact, onBack }) => {
       </div>
 
       {/* Message Input */}
-      <MessageInput onSendMessage={handleSendMessage} />
+      {leftGroup ? (
+        <p className="p-4 border-t text-center text-sm text-muted-foreground">
+          You were removed from this group and can no longer send messages.
+        </p>
+      ) : (
+        <MessageInput
+          onSendMessage={handleSendMessage}
+          onSendAttachment={attachmentsSupported() ? handleSendAttachment : undefined}
+        />
+      )}
     </div>
   );
 };
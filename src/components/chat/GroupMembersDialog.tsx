@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Contact, getUserProfile, Group } from "@/lib/storage";
+import { getContactPublicKey } from "@/lib/algorithms";
+import { HYBRID_KEM_ALGORITHM } from "@/lib/crypto";
+import { MAX_GROUP_MEMBERS } from "@/lib/groups";
+import { messagingService } from "@/lib/messaging-service";
+
+interface GroupMembersDialogProps {
+  /** Omit to create a new group. */
+  group?: Group;
+  contacts: Contact[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (group: Group) => void;
+}
+
+// Sender keys are wrapped to each member's hybrid key, so members need one
+const canJoinGroup = (contact: Contact) =>
+  getContactPublicKey(contact, "encryption")?.algorithm === HYBRID_KEM_ALGORITHM &&
+  !!getContactPublicKey(contact, "signature");
+
+const GroupMembersDialog: React.FC<GroupMembersDialogProps> = ({ group, contacts, open, onOpenChange, onSaved }) => {
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const userId = getUserProfile()?.id;
+
+  useEffect(() => {
+    if (!open) return;
+    setName(group?.name ?? "");
+    setSelected(group?.members.map((member) => member.id).filter((id) => id !== userId) ?? []);
+    setError(null);
+  }, [open, group, userId]);
+
+  // Current members who are not contacts can only be kept or removed
+  const candidates = [
+    ...contacts,
+    ...(group?.members ?? [])
+      .filter((member) => member.id !== userId && !contacts.some((c) => c.id === member.id))
+      .map((member): Contact => ({ id: member.id, name: member.name, publicKeys: member.publicKeys, unreadCount: 0 })),
+  ];
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, id] : current.filter((s) => s !== id)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = group
+        ? await messagingService.updateGroupMembers(group, selected)
+        : await messagingService.createGroup(name, selected);
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the group");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{group ? `Members of ${group.name}` : "New Group"}</DialogTitle>
+          <DialogDescription>
+            {group
+              ? "Changing members gives everyone new group keys, so removed members cannot read new messages."
+              : "Messages are end-to-end encrypted with post-quantum keys for every member."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!group && <Input placeholder="Group Name" value={name} onChange={(e) => setName(e.target.value)} />}
+
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add contacts first to invite them to a group.</p>
+            ) : (
+              candidates.map((contact) => {
+                const eligible = canJoinGroup(contact);
+                return (
+                  <label key={contact.id} className="flex items-center gap-3 text-sm">
+                    <Checkbox
+                      checked={selected.includes(contact.id)}
+                      disabled={!eligible && !selected.includes(contact.id)}
+                      onCheckedChange={(checked) => toggle(contact.id, checked === true)}
+                    />
+                    <span className="flex-1 truncate">{contact.name}</span>
+                    {!eligible && <span className="text-xs text-muted-foreground">No encryption key</span>}
+                  </label>
+                );
+              })
+            )}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <Button
+            className="w-full"
+            onClick={handleSave}
+            disabled={
+              saving ||
+              selected.length === 0 ||
+              selected.length + 1 > MAX_GROUP_MEMBERS ||
+              (!group && name.trim().length < 3)
+            }
+          >
+            {group ? "Save Members" : "Create Group"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupMembersDialog;
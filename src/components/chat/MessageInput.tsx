@@ -1,76 +1,61 @@
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Lock, ShieldCheck, Database } from "lucide-react";
-import { encryptAES, signMessage, generateZKProof } from "@/lib/crypto";
+import { Send, Lock, ShieldCheck, Database, Paperclip, X } from "lucide-react";
 import { getUserProfile } from "@/lib/storage";
-import { signDIDTransaction } from "@/lib/did";
-
-// ✅ Decentralized WebSocket Server
-const WEBSOCKET_URL = "ws://localhost:8080";
+import { formatFileSize, MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
 
 interface MessageInputProps {
-  onSendMessage: (content: string) => void;
+  onSendMessage: (content: string) => void | Promise<void>;
+  /** Enables the attach button; the message text is sent as the file's caption. */
+  onSendAttachment?: (file: File, caption: string) => Promise<void>;
 }
 
-const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage }) => {
+const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onSendAttachment }) => {
   const [message, setMessage] = useState("");
   const [isFocused, setIsFocused] = useState(false);
   const [sending, setSending] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canSend = (message.trim() !== "" || file !== null) && !sending;
   const user = getUserProfile();
   const hasWebDID = user && (user as any).didDocument;
 
+  // ✅ Stage a file; it is encrypted and uploaded when the message is sent
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    if (selected.size > MAX_ATTACHMENT_BYTES) {
+      setAttachmentError(`Files are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+      return;
+    }
+    setAttachmentError(null);
+    setFile(selected);
+  };
+
   // ✅ Send Secure Message
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim() === "" || sending) return;
+    if (!canSend) return;
     setSending(true);
 
     try {
-      console.log("🔹 Encrypting and Signing Message...");
-      
-      // ✅ Encrypt Message (AES-256-GCM + PQC)
-      const encryptedContent = await encryptAES(message.trim(), user.sessionKey);
-
-      // ✅ Sign Message using SLH-DSA
-      const signature = await signMessage(encryptedContent, user.keyPairs.signature.privateKey);
-
-      // ✅ Generate zk-STARK Proof
-      const zkProof = await generateZKProof(encryptedContent);
-
-      // ✅ Sign Message with Decentralized Identity (DID)
-      let didSignature = null;
-      if (hasWebDID) {
-        didSignature = await signDIDTransaction(user.didDocument, encryptedContent);
+      // ✅ Encryption, signing and delivery happen in the conversation as a signed envelope
+      if (file && onSendAttachment) {
+        await onSendAttachment(file, message.trim());
+        setFile(null);
+      } else {
+        await onSendMessage(message.trim());
       }
 
-      // ✅ Construct Secure Message
-      const secureMessage = {
-        sender: user.starknetAddress,
-        receiver: "0xReceiverAddress", // Replace dynamically for actual chat partner
-        content: encryptedContent,
-        signature,
-        zkProof,
-        didSignature,
-        didVerified: hasWebDID ? "✔ Verified" : "❌ Unverified",
-        timestamp: Date.now(),
-      };
-
-      // ✅ Send Message to P2P WebSocket Network
-      console.log("🔹 Sending Message via WebSocket...");
-      const ws = new WebSocket(WEBSOCKET_URL);
-      ws.onopen = () => {
-        ws.send(JSON.stringify({ event: "MessageSent", data: secureMessage }));
-        ws.close();
-      };
-
-      // ✅ Send Secure Message to UI
-      onSendMessage(JSON.stringify(secureMessage));
-
       // ✅ Clear Input
       setMessage("");
+      setAttachmentError(null);
     } catch (error) {
-      console.error("❌ Message encryption failed:", error);
+      console.error("❌ Message send failed:", error);
+      if (file) setAttachmentError(error instanceof Error ? error.message : "Could not send the file");
     } finally {
       setSending(false);
     }
@@ -79,11 +64,27 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage }) => {
   return (
     <div className="p-4 border-t">
       <form onSubmit={handleSubmit} className="relative">
+        {(file || attachmentError) && (
+          <div className="mb-2 flex items-center gap-2 text-xs">
+            {file && (
+              <span className="flex items-center gap-1 rounded-md bg-accent/10 px-2 py-1">
+                <Paperclip className="h-3 w-3" />
+                <span className="max-w-[200px] truncate">{file.name}</span>
+                <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+                <button type="button" onClick={() => setFile(null)} disabled={sending} aria-label="Remove file">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+            {attachmentError && <span className="text-destructive">{attachmentError}</span>}
+          </div>
+        )}
+
         <Textarea
           value={message}
           onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type a secure message..."
-          className={`pr-14 py-3 min-h-[60px] max-h-[160px] transition-all duration-200 ${
+          placeholder={file ? "Add a caption..." : "Type a secure message..."}
+          className={`${onSendAttachment ? "pr-24" : "pr-14"} py-3 min-h-[60px] max-h-[160px] transition-all duration-200 ${
             isFocused ? "glass" : "bg-background"
           }`}
           onFocus={() => setIsFocused(true)}
@@ -98,13 +99,28 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage }) => {
           </div>
         )}
 
+        {onSendAttachment && (
+          <>
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="absolute right-12 bottom-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending}
+              title="Attach an encrypted file"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+
         <Button
           type="submit"
           size="icon"
-          className={`absolute right-2 bottom-2 ${
-            message.trim() === "" || sending ? "opacity-50 cursor-not-allowed" : "opacity-100"
-          }`}
-          disabled={message.trim() === "" || sending}
+          className={`absolute right-2 bottom-2 ${canSend ? "opacity-100" : "opacity-50 cursor-not-allowed"}`}
+          disabled={!canSend}
         >
           <Send className="h-4 w-4" />
         </Button>
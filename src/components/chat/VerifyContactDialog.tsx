@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Contact, getUserProfile, saveContact } from "@/lib/storage";
+import {
+  clearContactVerification,
+  contactIdentityKeys,
+  contactVerificationStatus,
+  encodeVerificationPayload,
+  markContactVerified,
+  matchesVerificationPayload,
+  parseVerificationPayload,
+  safetyNumber,
+} from "@/lib/safety-numbers";
+
+interface VerifyContactDialogProps {
+  contact: Contact;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const VerifyContactDialog: React.FC<VerifyContactDialogProps> = ({ contact, open, onOpenChange }) => {
+  const [scannedCode, setScannedCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const user = getUserProfile();
+  const status = contactVerificationStatus(contact);
+
+  const ownKeys = user?.keyPairs
+    ? { encryption: user.keyPairs.encryption.publicKey, signature: user.keyPairs.signature.publicKey }
+    : null;
+
+  // Iterated hashing takes a moment; only compute while the dialog is open
+  const number = useMemo(() => {
+    const contactKeys = contactIdentityKeys(contact);
+    if (!open || !user?.keyPairs || !contactKeys) return null;
+    const { encryption, signature } = user.keyPairs;
+    return safetyNumber(
+      user.id,
+      { encryption: encryption.publicKey, signature: signature.publicKey },
+      contact.id,
+      contactKeys
+    );
+  }, [open, user, contact]);
+
+  const verify = () => {
+    saveContact(markContactVerified(contact));
+    setScannedCode("");
+    setError(null);
+  };
+
+  const verifyScannedCode = () => {
+    try {
+      if (!matchesVerificationPayload(contact, parseVerificationPayload(scannedCode))) {
+        setError(`This code does not match the keys stored for ${contact.name}.`);
+        return;
+      }
+      verify();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid verification code");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Verify {contact.name}</DialogTitle>
+          <DialogDescription>
+            Compare this safety number with {contact.name}'s screen, or scan each other's code in person.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!number || !user || !ownKeys ? (
+          <p className="text-sm text-destructive">
+            {contact.name} has no identity keys stored, so they cannot be verified yet.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            <div className="grid grid-cols-4 gap-2 font-mono text-center text-sm">
+              {number.split(" ").map((group, i) => (
+                <span key={i}>{group}</span>
+              ))}
+            </div>
+
+            <div className="flex justify-center rounded-lg bg-white p-4">
+              <QRCodeSVG value={encodeVerificationPayload(user.id, ownKeys)} size={180} />
+            </div>
+
+            <div className="space-y-2">
+              <Input
+                placeholder="Paste the code scanned from their device"
+                value={scannedCode}
+                onChange={(e) => setScannedCode(e.target.value)}
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              <Button className="w-full" variant="outline" onClick={verifyScannedCode} disabled={!scannedCode.trim()}>
+                Check Scanned Code
+              </Button>
+            </div>
+
+            {status === "verified" ? (
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-sm text-green-500">
+                  <ShieldCheck className="h-4 w-4" /> Verified
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => saveContact(clearContactVerification(contact))}>
+                  Clear Verification
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={verify}>
+                Numbers Match – Mark as Verified
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VerifyContactDialog;
@@ -3,20 +3,16 @@ import { Button } from "@/components/ui/button";
 import { GlassContainer } from "@/components/ui/glass-container";
 import { Progress } from "@/components/ui/progress";
 import { Shield, Key, Lock, LockKeyhole, Database, Fingerprint } from "lucide-react";
-import { 
-  generateMLKEMKeypair, 
-  generateSLHDSAKeypair, 
-  generateFalconKeypair,
-  generateDilithiumKeypair,
-  generateDID,
-  simulateQKD,
-  simulateHSM
-} from "@/lib/crypto";
+import { generateHybridKeypair, generateKeypair } from "@/lib/crypto";
+import { algorithms, DEFAULT_ALGORITHMS, SLH_DSA_SIGNATURE_ALGORITHM } from "@/lib/algorithms";
+import { generateDID } from "@/lib/did";
+import { createVault, MIN_PASSPHRASE_LENGTH } from "@/lib/vault";
 import { UserProfile, saveUserProfile } from "@/lib/storage";
 import { useToast } from "@/components/ui/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 
 interface KeyGenerationServiceProps {
   username: string;
@@ -32,9 +28,10 @@ const KeyGenerationService: React.FC<KeyGenerationServiceProps> = ({
   const [status, setStatus] = useState<string>("idle");
   const [isGenerating, setIsGenerating] = useState(false);
   const [enableWeb3, setEnableWeb3] = useState(false);
-  const [enableQKD, setEnableQKD] = useState(false);
-  const [enableHSM, setEnableHSM] = useState(false);
-  const [selectedSignatureAlgo, setSelectedSignatureAlgo] = useState<"slh-dsa" | "falcon" | "dilithium">("slh-dsa");
+  const [selectedSignatureAlgo, setSelectedSignatureAlgo] = useState<string>(DEFAULT_ALGORITHMS.signature);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const passphraseValid = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation;
 
   const generateKeys = async () => {
     try {
@@ -42,63 +39,38 @@ const KeyGenerationService: React.FC<KeyGenerationServiceProps> = ({
       setStatus("Initializing Secure Post-Quantum Key Generation...");
       setProgress(10);
 
-      // ✅ Step 1: Generate ML-KEM-1024 (Post-Quantum Key Exchange)
-      setStatus("Generating ML-KEM-1024 keys (NIST FIPS 205)...");
-      const mlkemKeys = await generateMLKEMKeypair();
+      // ✅ Step 1: Generate ML-KEM-1024 + X25519 (Hybrid Key Exchange)
+      setStatus("Generating ML-KEM-1024 + X25519 hybrid keys (NIST FIPS 203)...");
+      const mlkemKeys = await generateHybridKeypair();
       setProgress(30);
 
       // ✅ Step 2: Generate Digital Signature Keypair
-      let signatureKeys;
-      if (selectedSignatureAlgo === "slh-dsa") {
-        setStatus("Generating SLH-DSA (NIST FIPS 205)...");
-        signatureKeys = await generateSLHDSAKeypair();
-      } else if (selectedSignatureAlgo === "falcon") {
-        setStatus("Generating Falcon-512 (Lattice-Based)...");
-        signatureKeys = await generateFalconKeypair();
-      } else {
-        setStatus("Generating Dilithium-5 (Lattice-Based)...");
-        signatureKeys = await generateDilithiumKeypair();
-      }
+      const signatureSuite = algorithms.require(selectedSignatureAlgo, "signature");
+      setStatus(`Generating ${signatureSuite.id} (NIST ${signatureSuite.standard}, Level ${signatureSuite.nistLevel})...`);
+      const signatureKeys = await generateKeypair(signatureSuite.id);
       setProgress(50);
 
       // ✅ Step 3: Decentralized Identity (DID) Integration
       let didDocument = null;
       if (enableWeb3) {
         setStatus("Generating Web3 Decentralized Identity (DID)...");
-        didDocument = await generateDID(mlkemKeys.publicKey, signatureKeys.publicKey);
-      }
-      setProgress(60);
-
-      // ✅ Step 4: Quantum Key Distribution (QKD) Simulation
-      let qkdInfo = null;
-      if (enableQKD) {
-        setStatus("Simulating Quantum Key Distribution (QKD)...");
-        qkdInfo = await simulateQKD("server");
+        didDocument = await generateDID();
       }
-      setProgress(75);
+      setProgress(65);
 
-      // ✅ Step 5: Hardware Security Module (HSM) Simulation
-      let hsmInfo = null;
-      if (enableHSM) {
-        setStatus("Simulating HSM for Secure Key Storage...");
-        hsmInfo = await simulateHSM(mlkemKeys.privateKey);
-      }
-      setProgress(90);
-
-      // ✅ Step 6: Save Profile Securely
-      setStatus("Finalizing Secure Key Storage...");
+      // ✅ Step 4: Wrap Private Keys in the Passphrase Vault & Save Profile
+      // (Prekeys are published to the relay once the messaging service connects.)
+      setStatus("Encrypting private keys with your passphrase (scrypt + AES-256-GCM)...");
       const userId = crypto.randomUUID();
+      const keyPairs = { encryption: mlkemKeys, signature: signatureKeys };
+      const publicKeys = await createVault(passphrase, keyPairs);
+      setPassphrase("");
+      setConfirmation("");
       const userProfile: UserProfile = {
         id: userId,
         name: username,
-        keyPairs: {
-          pqkem: mlkemKeys, 
-          signature: signatureKeys, 
-        },
+        keyPairs: publicKeys,
         didDocument,
-        qkdInfo,
-        hsmInfo,
-        createdAt: new Date().toISOString(),
       };
 
       saveUserProfile(userProfile);
@@ -141,9 +113,42 @@ const KeyGenerationService: React.FC<KeyGenerationServiceProps> = ({
             <p className="text-sm text-muted-foreground">{status}</p>
           </div>
         ) : (
-          <Button onClick={generateKeys} className="w-full" size="lg">
-            Generate Secure Keys
-          </Button>
+          <div className="w-full space-y-4">
+            <Input
+              type="password"
+              placeholder="Vault passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="new-password"
+            />
+            <Input
+              type="password"
+              placeholder="Confirm passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="new-password"
+            />
+            <p className="text-xs text-muted-foreground">
+              Your private keys are encrypted with this passphrase (at least {MIN_PASSPHRASE_LENGTH} characters).
+              It cannot be recovered.
+            </p>
+            <div className="flex items-center justify-between gap-4 text-left">
+              <Label htmlFor="slh-dsa" className="text-sm">
+                Hash-based signatures (SLH-DSA)
+                <span className="block text-xs text-muted-foreground">Several seconds per message on this device</span>
+              </Label>
+              <Switch
+                id="slh-dsa"
+                checked={selectedSignatureAlgo === SLH_DSA_SIGNATURE_ALGORITHM}
+                onCheckedChange={(checked) =>
+                  setSelectedSignatureAlgo(checked ? SLH_DSA_SIGNATURE_ALGORITHM : DEFAULT_ALGORITHMS.signature)
+                }
+              />
+            </div>
+            <Button onClick={generateKeys} className="w-full" size="lg" disabled={!passphraseValid}>
+              Generate Secure Keys
+            </Button>
+          </div>
         )}
       </div>
     </GlassContainer>
@@ -4,7 +4,7 @@ import { GlassContainer } from "@/components/ui/glass-container";
 import { Badge } from "@/components/ui/badge";
 import { Shield, Database, Fingerprint, Lock, Globe, Key, Eye, Cloud } from "lucide-react";
 import { getUserProfile } from "@/lib/storage";
-import { loadFromIPFS } from "@/lib/web3Storage";
+import { getBlobStore } from "@/lib/blob-store";
 import { useToast } from "@/components/ui/use-toast";
 
 const SecurityArchitecture: React.FC = () => {
@@ -28,7 +28,7 @@ const SecurityArchitecture: React.FC = () => {
         // Check IPFS status
         if (profile?.latestMessage?.ipfsHash) {
           try {
-            const data = await loadFromIPFS(profile.latestMessage.ipfsHash);
+            const data = await getBlobStore().get(profile.latestMessage.ipfsHash);
             setIpfsStatus(data ? "✅ IPFS Active" : "⚠️ IPFS Error");
           } catch {
             setIpfsStatus("❌ IPFS Offline");
@@ -68,7 +68,7 @@ const SecurityArchitecture: React.FC = () => {
 
         <Badge variant="outline" className="flex items-center gap-2">
           <Lock className="h-4 w-4 text-accent" />
-          SLH-DSA Signatures
+          ML-DSA-87 Signatures
         </Badge>
 
         {/* ✅ Web3 & Decentralized Identity */}
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { GlassContainer } from "@/components/ui/glass-container";
+import { LockKeyhole } from "lucide-react";
+import { UserProfile, saveUserProfile } from "@/lib/storage";
+import { createVault, hasVault, MIN_PASSPHRASE_LENGTH, unlockVault } from "@/lib/vault";
+
+interface UnlockScreenProps {
+  user: UserProfile;
+  onUnlocked: (user: UserProfile) => void;
+}
+
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ user, onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  // Profiles created before the vault still hold plaintext private keys; protect them now
+  const needsMigration = !hasVault();
+  const { encryption, signature } = user.keyPairs ?? {};
+  const canMigrate = Boolean(encryption?.privateKey && signature?.privateKey);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (needsMigration && passphrase !== confirmation) {
+      setError("Passphrases do not match");
+      return;
+    }
+
+    setWorking(true);
+    try {
+      if (needsMigration) {
+        const keyPairs = await createVault(passphrase, {
+          encryption: { ...encryption, privateKey: encryption.privateKey },
+          signature: { ...signature, privateKey: signature.privateKey },
+        });
+        const migratedUser = { ...user, keyPairs };
+        saveUserProfile(migratedUser);
+        onUnlocked(migratedUser);
+      } else {
+        await unlockVault(passphrase);
+        onUnlocked(user);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unlock failed");
+    } finally {
+      setPassphrase("");
+      setConfirmation("");
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 py-12 min-h-screen flex flex-col items-center justify-center">
+      <GlassContainer className="w-full max-w-md mx-auto" animation="fade-in">
+        <form onSubmit={handleSubmit} className="flex flex-col items-center text-center space-y-6">
+          <div className="w-16 h-16 rounded-full bg-accent/10 flex items-center justify-center">
+            <LockKeyhole className="h-8 w-8 text-accent" />
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-2xl font-semibold">
+              {needsMigration ? "Protect Your Keys" : `Welcome back, ${user.name}`}
+            </h2>
+            <p className="text-muted-foreground">
+              {needsMigration
+                ? "Choose a passphrase to encrypt your private keys on this device."
+                : "Enter your passphrase to unlock your post-quantum keys."}
+            </p>
+          </div>
+
+          {needsMigration && !canMigrate ? (
+            <p className="text-sm text-destructive">
+              No private keys were found for this profile. Clear your data in Settings to create new keys.
+            </p>
+          ) : (
+            <div className="w-full space-y-4">
+              <Input
+                type="password"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete={needsMigration ? "new-password" : "current-password"}
+                autoFocus
+                disabled={working}
+              />
+              {needsMigration && (
+                <Input
+                  type="password"
+                  placeholder="Confirm passphrase"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  autoComplete="new-password"
+                  disabled={working}
+                />
+              )}
+              {error && <p className="text-xs text-destructive">{error}</p>}
+
+              <Button
+                type="submit"
+                className="w-full"
+                size="lg"
+                disabled={working || passphrase.length < (needsMigration ? MIN_PASSPHRASE_LENGTH : 1)}
+              >
+                {working ? "Deriving key..." : needsMigration ? "Encrypt Keys" : "Unlock"}
+              </Button>
+            </div>
+          )}
+        </form>
+      </GlassContainer>
+    </div>
+  );
+};
+
+export default UnlockScreen;
@@ -0,0 +1,8 @@
+import * as React from "react"
+import { messagingService } from "@/lib/messaging-service"
+import { getContacts } from "@/lib/storage"
+
+/** All contacts, re-rendering whenever one is added or updated. */
+export function useContacts() {
+  return React.useSyncExternalStore(messagingService.subscribe, getContacts)
+}
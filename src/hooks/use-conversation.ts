@@ -0,0 +1,47 @@
+import * as React from "react"
+import { messagingService } from "@/lib/messaging-service"
+import { Contact, getMessagesForContact, getUserProfile, Group, loadMessagesPage, Message } from "@/lib/storage"
+
+/**
+ * Messages exchanged with one contact or group, kept live from storage. Loads the newest
+ * page on mount, marks incoming messages read while mounted, and sends (and retries)
+ * through the messaging service.
+ */
+export function useConversation(conversation: Contact | Group) {
+  const contactId = conversation.id
+  const [hasOlderMessages, setHasOlderMessages] = React.useState(false)
+  const getSnapshot = React.useCallback(() => getMessagesForContact(contactId), [contactId])
+  const messages = React.useSyncExternalStore(messagingService.subscribe, getSnapshot)
+
+  React.useEffect(() => {
+    loadMessagesPage(contactId)
+      .then(({ hasMore }) => setHasOlderMessages(hasMore))
+      .catch((error) => console.error("❌ Failed to load messages:", error))
+  }, [contactId])
+
+  React.useEffect(() => {
+    const userId = getUserProfile()?.id
+    if (messages.some((message) => message.senderId !== userId && message.status !== "read")) {
+      messagingService.markRead(contactId)
+    }
+  }, [messages, contactId])
+
+  const loadOlderMessages = React.useCallback(async () => {
+    const { hasMore } = await loadMessagesPage(contactId, { before: getMessagesForContact(contactId)[0]?.timestamp })
+    setHasOlderMessages(hasMore)
+  }, [contactId])
+
+  const sendMessage = React.useCallback(
+    (content: string, aead?: string) => messagingService.send(conversation, content, aead),
+    [conversation]
+  )
+
+  const sendAttachment = React.useCallback(
+    (file: File, caption?: string, aead?: string) => messagingService.sendAttachment(conversation, file, caption, aead),
+    [conversation]
+  )
+
+  const retryMessage = React.useCallback((message: Message) => messagingService.retry(message), [])
+
+  return { messages, hasOlderMessages, loadOlderMessages, sendMessage, sendAttachment, retryMessage }
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+import { DecryptedMessage, decryptStoredMessage } from "@/lib/decryption"
+import { Message } from "@/lib/storage"
+
+/**
+ * Runs each message through the verify-and-decrypt pipeline and returns the results by
+ * message id. Messages still being processed are absent from the map.
+ */
+export function useDecryptedMessages(messages: Message[], userId?: string) {
+  const [decrypted, setDecrypted] = React.useState<Record<string, DecryptedMessage>>({})
+
+  React.useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    messages.forEach((message) => {
+      decryptStoredMessage(message, userId).then((result) => {
+        if (cancelled) return
+        setDecrypted((current) => (current[message.id] === result ? current : { ...current, [message.id]: result }))
+      })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [messages, userId])
+
+  return decrypted
+}
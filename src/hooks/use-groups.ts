@@ -0,0 +1,8 @@
+import * as React from "react"
+import { messagingService } from "@/lib/messaging-service"
+import { getGroups } from "@/lib/storage"
+
+/** All groups, re-rendering whenever one is created, updated or changes membership. */
+export function useGroups() {
+  return React.useSyncExternalStore(messagingService.subscribe, getGroups)
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+import { isVaultUnlocked, startAutoLock, subscribeVault } from "@/lib/vault"
+
+/**
+ * Tracks whether the key vault is unlocked and, while it is, locks it again after
+ * `autoLockMinutes` without user activity.
+ */
+export function useVault(autoLockMinutes?: number) {
+  const [unlocked, setUnlocked] = React.useState(isVaultUnlocked())
+
+  React.useEffect(() => subscribeVault(setUnlocked), [])
+
+  React.useEffect(() => {
+    if (!unlocked || !autoLockMinutes) return
+    return startAutoLock(autoLockMinutes * 60 * 1000)
+  }, [unlocked, autoLockMinutes])
+
+  return unlocked
+}
@@ -0,0 +1,257 @@
+import type { Contact, Message } from "@/lib/storage-types";
+
+/**
+ * ✅ Crypto-Agility: Algorithm Registry
+ * Every KEM, signature and AEAD suite the app can use is registered here by identifier,
+ * together with its key/ciphertext sizes and NIST security category. Stored keys and
+ * messages carry these identifiers so suites can be migrated without breaking old data.
+ */
+
+export type AlgorithmKind = "kem" | "signature" | "aead";
+export type NistSecurityLevel = 1 | 2 | 3 | 4 | 5;
+
+interface BaseSuite {
+  id: string;
+  kind: AlgorithmKind;
+  nistLevel: NistSecurityLevel;
+  standard: string;
+  /** Older identifiers that resolve to this suite (e.g. `Kyber1024`). */
+  aliases?: string[];
+  /** Still readable, but no longer used for new keys or messages. */
+  deprecated?: boolean;
+  /** Registered so stored keys still parse, but has no implementation; never offered for new keys. */
+  unsupported?: boolean;
+}
+
+export interface KemSuite extends BaseSuite {
+  kind: "kem";
+  publicKeySize: number;
+  secretKeySize: number;
+  ciphertextSize: number;
+  sharedSecretSize: number;
+}
+
+export interface SignatureSuite extends BaseSuite {
+  kind: "signature";
+  publicKeySize: number;
+  secretKeySize: number;
+  /** Maximum signature size (Falcon signatures are variable-length). */
+  signatureSize: number;
+}
+
+export interface AeadSuite extends BaseSuite {
+  kind: "aead";
+  keySize: number;
+  nonceSize: number;
+  tagSize: number;
+}
+
+export type AlgorithmSuite = KemSuite | SignatureSuite | AeadSuite;
+
+type SuiteOfKind<K extends AlgorithmKind> = Extract<AlgorithmSuite, { kind: K }>;
+
+/** Algorithm identifiers attached to a stored message. */
+export interface MessageAlgorithms {
+  kem?: string;
+  signature?: string;
+  aead?: string;
+}
+
+/** A public key tagged with the suite it belongs to. */
+export interface TaggedPublicKey {
+  algorithm: string;
+  key: string;
+}
+
+export class AlgorithmRegistry {
+  private suites = new Map<string, AlgorithmSuite>();
+  private aliases = new Map<string, string>();
+
+  register(suite: AlgorithmSuite): void {
+    if (this.suites.has(suite.id) || this.aliases.has(suite.id)) {
+      throw new Error(`Algorithm already registered: ${suite.id}`);
+    }
+    this.suites.set(suite.id, suite);
+    for (const alias of suite.aliases ?? []) {
+      this.aliases.set(alias, suite.id);
+    }
+  }
+
+  /** Canonical identifier for an ID or alias. */
+  resolve(id: string): string | undefined {
+    if (this.suites.has(id)) return id;
+    return this.aliases.get(id);
+  }
+
+  get(id: string): AlgorithmSuite | undefined {
+    const canonical = this.resolve(id);
+    return canonical ? this.suites.get(canonical) : undefined;
+  }
+
+  /** Look up a suite and assert its kind, throwing for unknown or mismatched IDs. */
+  require<K extends AlgorithmKind>(id: string, kind: K): SuiteOfKind<K> {
+    const suite = this.get(id);
+    if (!suite) throw new Error(`Unknown algorithm: ${id}`);
+    if (suite.kind !== kind) throw new Error(`${id} is a ${suite.kind} algorithm, expected ${kind}`);
+    return suite as SuiteOfKind<K>;
+  }
+
+  list<K extends AlgorithmKind>(kind?: K): SuiteOfKind<K>[] {
+    const suites = [...this.suites.values()];
+    return (kind ? suites.filter((suite) => suite.kind === kind) : suites) as SuiteOfKind<K>[];
+  }
+
+  /**
+   * Infer a key's suite from its hex length; used for keys stored before IDs were recorded.
+   * Several suites share a size (e.g. the SLH-DSA variants), so `preferred` wins ties.
+   */
+  inferFromPublicKey(kind: "kem" | "signature", keyHex: string, preferred?: string): string | undefined {
+    const size = keyHex.length / 2;
+    const matches = this.list(kind).filter((suite) => suite.publicKeySize === size);
+    const preferredId = preferred && this.resolve(preferred);
+    return (
+      matches.find((suite) => suite.id === preferredId)?.id ??
+      matches.find((suite) => !suite.deprecated)?.id ??
+      matches[0]?.id
+    );
+  }
+}
+
+/* 🔹 **Default Suites (NIST FIPS 203 / 204 / 205 and Round 4 Candidates)** */
+
+export const algorithms = new AlgorithmRegistry();
+
+// ✅ ML-KEM (FIPS 203)
+algorithms.register({
+  id: "ML-KEM-512", kind: "kem", nistLevel: 1, standard: "FIPS 203", aliases: ["Kyber512"],
+  publicKeySize: 800, secretKeySize: 1632, ciphertextSize: 768, sharedSecretSize: 32,
+});
+algorithms.register({
+  id: "ML-KEM-768", kind: "kem", nistLevel: 3, standard: "FIPS 203", aliases: ["Kyber768"],
+  publicKeySize: 1184, secretKeySize: 2400, ciphertextSize: 1088, sharedSecretSize: 32,
+});
+algorithms.register({
+  id: "ML-KEM-1024", kind: "kem", nistLevel: 5, standard: "FIPS 203", aliases: ["Kyber1024", "kyber"],
+  publicKeySize: 1568, secretKeySize: 3168, ciphertextSize: 1568, sharedSecretSize: 32,
+});
+algorithms.register({
+  id: "ML-KEM-1024+X25519", kind: "kem", nistLevel: 5, standard: "FIPS 203 + RFC 7748",
+  publicKeySize: 1600, secretKeySize: 3200, ciphertextSize: 1600, sharedSecretSize: 32,
+});
+
+// ✅ BIKE (NIST Round 4 alternate), no implementation yet
+algorithms.register({
+  id: "BIKE-L1", kind: "kem", nistLevel: 1, standard: "NIST Round 4", unsupported: true,
+  publicKeySize: 1541, secretKeySize: 5223, ciphertextSize: 1573, sharedSecretSize: 32,
+});
+algorithms.register({
+  id: "BIKE-L3", kind: "kem", nistLevel: 3, standard: "NIST Round 4", unsupported: true,
+  publicKeySize: 3083, secretKeySize: 10105, ciphertextSize: 3115, sharedSecretSize: 32,
+});
+
+// ✅ ML-DSA (FIPS 204)
+algorithms.register({
+  id: "ML-DSA-44", kind: "signature", nistLevel: 2, standard: "FIPS 204", aliases: ["Dilithium2"],
+  publicKeySize: 1312, secretKeySize: 2560, signatureSize: 2420,
+});
+algorithms.register({
+  id: "ML-DSA-65", kind: "signature", nistLevel: 3, standard: "FIPS 204", aliases: ["Dilithium3", "dilithium"],
+  publicKeySize: 1952, secretKeySize: 4032, signatureSize: 3309,
+});
+algorithms.register({
+  id: "ML-DSA-87", kind: "signature", nistLevel: 5, standard: "FIPS 204", aliases: ["Dilithium5"],
+  publicKeySize: 2592, secretKeySize: 4896, signatureSize: 4627,
+});
+
+// ✅ SLH-DSA (FIPS 205), both hash families in small (s) and fast (f) variants
+const SLH_DSA_PARAMETERS = [
+  { level: 1, n: 16, small: 7856, fast: 17088 },
+  { level: 3, n: 24, small: 16224, fast: 35664 },
+  { level: 5, n: 32, small: 29792, fast: 49856 },
+] as const;
+
+for (const family of ["SHA2", "SHAKE"] as const) {
+  for (const { level, n, small, fast } of SLH_DSA_PARAMETERS) {
+    for (const [variant, signatureSize] of [["s", small], ["f", fast]] as const) {
+      const bits = n * 8;
+      algorithms.register({
+        id: `SLH-DSA-${family}-${bits}${variant}`,
+        kind: "signature",
+        nistLevel: level,
+        standard: "FIPS 205",
+        aliases: family === "SHAKE" && bits === 256 && variant === "f" ? ["slh-dsa"] : undefined,
+        publicKeySize: 2 * n,
+        secretKeySize: 4 * n,
+        signatureSize,
+      });
+    }
+  }
+}
+
+// ✅ Falcon (FN-DSA, draft FIPS 206), no implementation yet
+algorithms.register({
+  id: "Falcon-512", kind: "signature", nistLevel: 1, standard: "FIPS 206 (draft)", aliases: ["falcon"],
+  unsupported: true,
+  publicKeySize: 897, secretKeySize: 1281, signatureSize: 752,
+});
+algorithms.register({
+  id: "Falcon-1024", kind: "signature", nistLevel: 5, standard: "FIPS 206 (draft)", unsupported: true,
+  publicKeySize: 1793, secretKeySize: 2305, signatureSize: 1462,
+});
+
+// ✅ AEAD
+algorithms.register({
+  id: "AES-256-GCM", kind: "aead", nistLevel: 5, standard: "SP 800-38D", aliases: ["aes"],
+  keySize: 32, nonceSize: 12, tagSize: 16,
+});
+algorithms.register({
+  id: "ChaCha20-Poly1305", kind: "aead", nistLevel: 5, standard: "RFC 8439", aliases: ["chacha"],
+  keySize: 32, nonceSize: 12, tagSize: 16,
+});
+
+/* 🔹 **Defaults & Legacy Data** */
+
+export const DEFAULT_ALGORITHMS = {
+  kem: "ML-KEM-1024+X25519",
+  signature: "ML-DSA-87",
+  aead: "AES-256-GCM",
+} as const;
+
+/** Opt-in hash-based signature suite; each signature takes seconds on the main thread. */
+export const SLH_DSA_SIGNATURE_ALGORITHM = "SLH-DSA-SHAKE-256f";
+
+/** Suites assumed for messages stored before algorithm IDs were recorded. */
+export const LEGACY_MESSAGE_ALGORITHMS: Required<MessageAlgorithms> = {
+  kem: "ML-KEM-1024+X25519",
+  signature: "SLH-DSA-SHAKE-256f",
+  aead: "AES-256-GCM",
+};
+
+/** Fill in algorithm IDs missing from an older message, resolving aliases to canonical IDs. */
+export function resolveMessageAlgorithms(message: Pick<Message, "algorithms" | "encryptionMode">): Required<MessageAlgorithms> {
+  const stored = message.algorithms;
+  const pick = (id: string | undefined, fallback: string) => (id && algorithms.resolve(id)) || fallback;
+  return {
+    kem: pick(stored?.kem, LEGACY_MESSAGE_ALGORITHMS.kem),
+    signature: pick(stored?.signature, LEGACY_MESSAGE_ALGORITHMS.signature),
+    aead: pick(stored?.aead ?? message.encryptionMode, LEGACY_MESSAGE_ALGORITHMS.aead),
+  };
+}
+
+/**
+ * Tagged public key for a contact. Contacts saved before algorithm IDs existed only have
+ * the raw `kyber` / `falcon` fields; their suite is inferred from the key length.
+ */
+export function getContactPublicKey(
+  contact: Pick<Contact, "publicKeys">,
+  purpose: "encryption" | "signature"
+): TaggedPublicKey | undefined {
+  const tagged = contact.publicKeys?.[purpose];
+  if (tagged) return tagged;
+
+  const legacyKey = purpose === "encryption" ? contact.publicKeys?.kyber : contact.publicKeys?.falcon;
+  if (!legacyKey) return undefined;
+  const kind = purpose === "encryption" ? "kem" : "signature";
+  const algorithm = algorithms.inferFromPublicKey(kind, legacyKey, LEGACY_MESSAGE_ALGORITHMS[kind]);
+  return algorithm ? { algorithm, key: legacyKey } : undefined;
+}
@@ -0,0 +1,216 @@
+import { concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  AEAD_OVERHEAD_BYTES,
+  decryptBytesWith,
+  encryptBytesWith,
+  generateSessionKey,
+  integrityHash,
+} from "@/lib/crypto";
+import { algorithms, DEFAULT_ALGORITHMS } from "@/lib/algorithms";
+import { getBlobStore } from "@/lib/blob-store";
+import { subscribeVault } from "@/lib/vault";
+
+/**
+ * ✅ Encrypted Attachments
+ * Files are split into fixed-size chunks and each chunk is encrypted under a fresh per-file
+ * key, with its index and the chunk count as associated data so chunks cannot be reordered,
+ * dropped or spliced in from another file. The ciphertext goes to the blob store (IPFS);
+ * the CID, key and SHA-256 of the plaintext only travel inside the end-to-end encrypted
+ * message (`kind: "attachment"`), so storage nodes never see the file or its key. Recipients
+ * fetch the ciphertext themselves, so sending needs a shared blob store (`VITE_BLOB_STORE=http`).
+ */
+
+export const ATTACHMENT_CHUNK_SIZE = 256 * 1024;
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const CHUNK_CONTEXT = "TetraCryptPQC/attachment/v1:";
+// Raster formats only: previews are rendered straight from the decrypted bytes
+const PREVIEWABLE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Everything needed to fetch, decrypt and verify a file. Never stored or sent unencrypted. */
+export interface Attachment {
+  cid: string;
+  name: string;
+  mimeType: string;
+  /** Plaintext size in bytes. */
+  size: number;
+  chunkSize: number;
+  aead: string;
+  /** Per-file AEAD key (hex). */
+  key: string;
+  /** SHA-256 of the plaintext file (hex). */
+  sha256: string;
+}
+
+/** Plaintext of a `kind: "attachment"` message. */
+export interface AttachmentMessage {
+  attachment: Attachment;
+  caption?: string;
+}
+
+function chunkCount(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+function chunkAssociatedData(index: number, count: number): Uint8Array {
+  return utf8ToBytes(`${CHUNK_CONTEXT}${index}/${count}`);
+}
+
+/* 🔹 **Upload / Download** */
+
+// ✅ Whether the configured blob store lets recipients fetch attachments
+export function attachmentsSupported(): boolean {
+  return getBlobStore().shared;
+}
+
+/**
+ * ✅ Encrypt a file and add it to IPFS
+ * @param aead - AEAD suite for the chunks (defaults to the app default)
+ * @returns The attachment descriptor to send inside an encrypted message
+ */
+export async function uploadAttachment(file: File, aead: string = DEFAULT_ALGORITHMS.aead): Promise<Attachment> {
+  const store = getBlobStore();
+  if (!store.shared) {
+    throw new Error(`Attachments need a shared blob store; the ${store.backend} store keeps files on this device`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+  console.log(`🔹 Encrypting attachment ${file.name} (${formatFileSize(file.size)})...`);
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const key = await generateSessionKey();
+  const suite = algorithms.require(aead, "aead").id;
+  const count = chunkCount(data.length, ATTACHMENT_CHUNK_SIZE);
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const chunk = data.subarray(index * ATTACHMENT_CHUNK_SIZE, (index + 1) * ATTACHMENT_CHUNK_SIZE);
+    chunks.push(await encryptBytesWith(suite, chunk, key, chunkAssociatedData(index, count)));
+  }
+
+  const cid = await store.put(concatBytes(...chunks));
+  console.log(`✅ Attachment stored on IPFS: ${cid}`);
+  return {
+    cid,
+    name: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: data.length,
+    chunkSize: ATTACHMENT_CHUNK_SIZE,
+    aead: suite,
+    key,
+    sha256: integrityHash(data),
+  };
+}
+
+/**
+ * ✅ Fetch an attachment from IPFS, decrypt it and check it against the sender's hash
+ * Throws if any chunk fails to authenticate or the file does not match its SHA-256.
+ */
+export async function downloadAttachment(attachment: Attachment): Promise<Blob> {
+  console.log(`🔹 Retrieving attachment from IPFS: ${attachment.cid}`);
+  const sealed = await getBlobStore().get(attachment.cid);
+  const count = chunkCount(attachment.size, attachment.chunkSize);
+  if (sealed.length !== attachment.size + count * AEAD_OVERHEAD_BYTES) {
+    throw new Error("Attachment size does not match its description");
+  }
+
+  const stride = attachment.chunkSize + AEAD_OVERHEAD_BYTES;
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const chunk = sealed.subarray(index * stride, (index + 1) * stride);
+    chunks.push(await decryptBytesWith(attachment.aead, chunk, attachment.key, chunkAssociatedData(index, count)));
+  }
+
+  const data = concatBytes(...chunks);
+  if (integrityHash(data) !== attachment.sha256) {
+    throw new Error("Attachment integrity check failed");
+  }
+  console.log(`✅ Attachment ${attachment.name} verified`);
+  return new Blob([data.buffer as ArrayBuffer], { type: attachment.mimeType });
+}
+
+// Decrypted files are kept while the vault is unlocked so previews do not refetch on re-render
+const attachmentCache = new Map<string, Promise<Blob>>();
+
+subscribeVault((unlocked) => {
+  if (!unlocked) attachmentCache.clear();
+});
+
+// ✅ `downloadAttachment`, cached until the vault locks; failures are retried on the next call
+export function loadAttachment(attachment: Attachment): Promise<Blob> {
+  // Keyed by the expected hash too, so another message naming the same CID is verified on its own
+  const cacheKey = `${attachment.cid}:${attachment.sha256}`;
+  let result = attachmentCache.get(cacheKey);
+  if (!result) {
+    result = downloadAttachment(attachment);
+    result.catch(() => attachmentCache.delete(cacheKey));
+    attachmentCache.set(cacheKey, result);
+  }
+  return result;
+}
+
+/* 🔹 **Message Encoding** */
+
+export function encodeAttachmentMessage(attachment: Attachment, caption?: string): string {
+  return JSON.stringify(caption ? { attachment, caption } : { attachment });
+}
+
+function expectString(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.length === 0) throw new Error(`Invalid attachment: ${field} is missing`);
+  return value;
+}
+
+function expectHash(value: unknown, field: string): string {
+  if (!/^[0-9a-f]{64}$/.test(expectString(value, field))) throw new Error(`Invalid attachment: ${field} must be 32 bytes of hex`);
+  return value as string;
+}
+
+function expectSize(value: unknown, field: string, max: number): number {
+  if (!Number.isSafeInteger(value) || (value as number) < 0 || (value as number) > max) {
+    throw new Error(`Invalid attachment: ${field} is out of range`);
+  }
+  return value as number;
+}
+
+// ✅ Parse and validate the plaintext of an attachment message
+export function parseAttachmentMessage(plaintext: string): AttachmentMessage {
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(plaintext);
+  } catch {
+    throw new Error("Invalid attachment message");
+  }
+  if (value === null || typeof value !== "object" || value.attachment === null || typeof value.attachment !== "object") {
+    throw new Error("Invalid attachment message");
+  }
+  if (value.caption !== undefined && typeof value.caption !== "string") throw new Error("Invalid attachment caption");
+
+  const attachment = value.attachment as Record<string, unknown>;
+  const chunkSize = expectSize(attachment.chunkSize, "chunkSize", MAX_ATTACHMENT_BYTES);
+  if (chunkSize === 0) throw new Error("Invalid attachment: chunkSize is out of range");
+  return {
+    attachment: {
+      cid: expectString(attachment.cid, "cid"),
+      name: expectString(attachment.name, "name"),
+      mimeType: expectString(attachment.mimeType, "mimeType"),
+      size: expectSize(attachment.size, "size", MAX_ATTACHMENT_BYTES),
+      chunkSize,
+      aead: algorithms.require(expectString(attachment.aead, "aead"), "aead").id,
+      key: expectHash(attachment.key, "key"),
+      sha256: expectHash(attachment.sha256, "sha256"),
+    },
+    caption: value.caption as string | undefined,
+  };
+}
+
+/* 🔹 **Display** */
+
+export function isPreviewableImage(attachment: Attachment): boolean {
+  return PREVIEWABLE_IMAGE_TYPES.includes(attachment.mimeType);
+}
+
+// ✅ Human-readable size, e.g. `1.4 MB`
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,188 @@
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { equals as digestEquals } from "multiformats/hashes/digest";
+import { sha256 } from "multiformats/hashes/sha2";
+
+/**
+ * ✅ Blob Storage
+ * One interface for every place encrypted payloads (attachments, envelopes published to IPFS)
+ * are stored by content address: the in-browser Helia node, an HTTP IPFS API with a public
+ * gateway for reads, or memory for tests and offline use. The backend is chosen by
+ * configuration (`VITE_BLOB_STORE`); callers only see CIDs and bytes. Stored data is always
+ * encrypted and authenticated by the caller, so no backend is trusted with plaintext. Only a
+ * `shared` store holds data other users can fetch, which attachments depend on.
+ */
+
+export type BlobStoreBackend = "helia" | "http" | "memory";
+
+const BLOB_STORE_BACKENDS: BlobStoreBackend[] = ["helia", "http", "memory"];
+const DEFAULT_GATEWAY_URL = "https://dweb.link";
+
+export interface BlobStoreConfig {
+  backend: BlobStoreBackend;
+  /** `http`: Kubo-compatible RPC endpoint (e.g. `http://127.0.0.1:5001`) for uploads and pins. */
+  apiUrl?: string;
+  /** `http`: Bearer token sent to `apiUrl`. */
+  apiToken?: string;
+  /** `http`: Gateway used for downloads. */
+  gatewayUrl?: string;
+}
+
+export interface BlobStore {
+  readonly backend: BlobStoreBackend;
+  /** Whether other users can fetch what is stored here; attachments need this. */
+  readonly shared: boolean;
+  /** Store bytes and return their CID. */
+  put(data: Uint8Array): Promise<string>;
+  /** Fetch the bytes for a CID; throws if they cannot be found. */
+  get(cid: string): Promise<Uint8Array>;
+  /** Keep a CID stored for as long as the given message is (pinning it where supported). */
+  retain(cid: string, messageId: string): Promise<void>;
+}
+
+/* 🔹 **Backends** */
+
+// ✅ The local Helia node (`@/lib/helia`), persisted in IndexedDB; other users cannot reach it
+// Loaded on first use, so the other backends never pull in the libp2p stack
+export class HeliaBlobStore implements BlobStore {
+  readonly backend = "helia";
+  readonly shared = false;
+
+  async put(data: Uint8Array): Promise<string> {
+    const { addFileToIPFS } = await import("@/lib/helia");
+    return addFileToIPFS(data);
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const { getFileFromIPFS } = await import("@/lib/helia");
+    return getFileFromIPFS(cid);
+  }
+
+  async retain(cid: string, messageId: string): Promise<void> {
+    const { retainCID } = await import("@/lib/helia");
+    return retainCID(cid, messageId);
+  }
+}
+
+// Raw-codec CIDs are the SHA-256 of the content itself, so gateway responses can be checked
+async function verifyRawBlock(cid: CID, data: Uint8Array): Promise<void> {
+  if (cid.code !== raw.code || cid.multihash.code !== sha256.code) return;
+  if (!digestEquals(cid.multihash, await sha256.digest(data))) {
+    throw new Error(`Content does not match CID ${cid.toString()}`);
+  }
+}
+
+/** ✅ A remote IPFS node or pinning service (Kubo RPC API) for writes, a public gateway for reads. */
+export class HttpBlobStore implements BlobStore {
+  readonly backend = "http";
+  readonly shared = true;
+  private readonly apiUrl: string;
+  private readonly gatewayUrl: string;
+  private readonly apiToken?: string;
+
+  constructor(config: Pick<BlobStoreConfig, "apiUrl" | "apiToken" | "gatewayUrl">) {
+    if (!config.apiUrl) throw new Error("The http blob store needs an API URL (VITE_IPFS_API_URL)");
+    this.apiUrl = config.apiUrl.replace(/\/+$/, "");
+    this.gatewayUrl = (config.gatewayUrl ?? DEFAULT_GATEWAY_URL).replace(/\/+$/, "");
+    this.apiToken = config.apiToken;
+  }
+
+  private async rpc(path: string, body?: FormData): Promise<Record<string, unknown>> {
+    const response = await fetch(`${this.apiUrl}/api/v0/${path}`, {
+      method: "POST",
+      headers: this.apiToken ? { Authorization: `Bearer ${this.apiToken}` } : undefined,
+      body,
+    });
+    if (!response.ok) throw new Error(`IPFS API request failed: ${response.status} ${response.statusText}`);
+    return response.json();
+  }
+
+  async put(data: Uint8Array): Promise<string> {
+    const form = new FormData();
+    form.append("file", new Blob([data.slice().buffer as ArrayBuffer]));
+    const { Hash } = await this.rpc("add?cid-version=1&raw-leaves=true&pin=true", form);
+    if (typeof Hash !== "string") throw new Error("IPFS API returned no CID");
+    return Hash;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const parsed = CID.parse(cid);
+    const response = await fetch(`${this.gatewayUrl}/ipfs/${parsed.toString()}`);
+    if (!response.ok) throw new Error(`IPFS retrieval failed: ${response.status} ${response.statusText}`);
+    const data = new Uint8Array(await response.arrayBuffer());
+    await verifyRawBlock(parsed, data);
+    return data;
+  }
+
+  async retain(cid: string): Promise<void> {
+    await this.rpc(`pin/add?arg=${encodeURIComponent(CID.parse(cid).toString())}`);
+  }
+}
+
+/** ✅ Non-persistent store for tests and offline use; CIDs match what IPFS assigns to small raw blocks. */
+export class MemoryBlobStore implements BlobStore {
+  readonly backend = "memory";
+  private blobs = new Map<string, Uint8Array>();
+
+  /** @param shared - True when every user of the store runs in this process (e.g. tests). */
+  constructor(readonly shared = false) {}
+
+  async put(data: Uint8Array): Promise<string> {
+    const cid = CID.createV1(raw.code, await sha256.digest(data)).toString();
+    this.blobs.set(cid, data.slice());
+    return cid;
+  }
+
+  async get(cid: string): Promise<Uint8Array> {
+    const data = this.blobs.get(CID.parse(cid).toString());
+    if (!data) throw new Error(`Blob not found: ${cid}`);
+    return data.slice();
+  }
+
+  // Nothing is ever evicted from memory
+  async retain(): Promise<void> {}
+}
+
+/* 🔹 **Configuration** */
+
+function configuredBackend(value: string | undefined): BlobStoreBackend {
+  if (value === undefined || value === "") return "helia";
+  const backend = BLOB_STORE_BACKENDS.find((known) => known === value);
+  if (!backend) throw new Error(`Unknown blob store backend: ${value}`);
+  return backend;
+}
+
+export const BLOB_STORE_CONFIG: BlobStoreConfig = {
+  backend: configuredBackend(import.meta.env.VITE_BLOB_STORE),
+  apiUrl: import.meta.env.VITE_IPFS_API_URL,
+  apiToken: import.meta.env.VITE_IPFS_API_TOKEN,
+  gatewayUrl: import.meta.env.VITE_IPFS_GATEWAY_URL,
+};
+
+// ✅ Build the store for a configuration
+export function createBlobStore(config: BlobStoreConfig): BlobStore {
+  switch (config.backend) {
+    case "helia":
+      return new HeliaBlobStore();
+    case "http":
+      return new HttpBlobStore(config);
+    case "memory":
+      return new MemoryBlobStore();
+  }
+}
+
+let blobStore: BlobStore | null = null;
+
+// ✅ The configured store, created on first use
+export function getBlobStore(): BlobStore {
+  blobStore ??= createBlobStore(BLOB_STORE_CONFIG);
+  return blobStore;
+}
+
+/**
+ * ✅ Replace the configured store
+ * @param store - e.g. `new MemoryBlobStore()` in tests, so messages round-trip offline
+ */
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
@@ -0,0 +1,28 @@
+/**
+ * ✅ Canonical JSON
+ * Deterministic serialization for anything that is signed: object keys sorted, no whitespace,
+ * undefined fields dropped, and only safe integers allowed, so signer and verifier always
+ * produce the same bytes.
+ */
+
+export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+export function canonicalize(value: unknown): Json {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === "object") {
+    const sorted: { [key: string]: Json } = {};
+    for (const key of Object.keys(value).sort()) {
+      const field = (value as Record<string, unknown>)[key];
+      if (field !== undefined) sorted[key] = canonicalize(field);
+    }
+    return sorted;
+  }
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new Error("Canonical JSON numbers must be safe integers");
+  }
+  return value as Json;
+}
+
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(canonicalize(value));
+}
@@ -0,0 +1,179 @@
+import { KeyPair, signMessage, verifySignature } from "@/lib/crypto";
+import { algorithms, TaggedPublicKey } from "@/lib/algorithms";
+import { canonicalJson } from "@/lib/canonical-json";
+import { contactIdentityKeys } from "@/lib/safety-numbers";
+import type { Contact, UserProfile } from "@/lib/storage-types";
+
+/**
+ * ✅ Contact Cards
+ * A contact card bundles everything needed to add someone — name, user ID, KEM and signature
+ * public keys, plus optional DID and StarkNet address — and is self-signed with the identity
+ * signature key it carries. Self-signing proves the card was issued by the holder of that key
+ * and has not been edited; it does not prove who that is, which is what safety numbers are for
+ * (see `@/lib/safety-numbers`). Cards are shared as a `tetracrypt://contact/…` URI or a
+ * `.tetracard` file.
+ */
+
+export const CONTACT_CARD_VERSION = 1;
+export const CONTACT_CARD_FILE_EXTENSION = ".tetracard";
+const CONTACT_CARD_URI_PREFIX = "tetracrypt://contact/";
+const SIGNING_CONTEXT = "TetraCryptPQC/contact-card/v1:";
+
+export interface ContactCard {
+  version: typeof CONTACT_CARD_VERSION;
+  userId: string;
+  name: string;
+  keys: { encryption: TaggedPublicKey; signature: TaggedPublicKey };
+  did?: string;
+  starknetAddress?: string;
+  /** Milliseconds since the Unix epoch. */
+  issuedAt: number;
+  /** Algorithm-tagged signature by `keys.signature` over every other field. */
+  signature: string;
+}
+
+export type UnsignedContactCard = Omit<ContactCard, "signature">;
+
+function signedPayload(card: UnsignedContactCard): string {
+  return SIGNING_CONTEXT + canonicalJson(card);
+}
+
+/* 🔹 **Issuing** */
+
+/**
+ * ✅ Create a signed card for the local user
+ * @param signingKey - The unlocked signature key pair matching the profile's public key
+ */
+export async function createContactCard(profile: UserProfile, signingKey: KeyPair): Promise<ContactCard> {
+  if (!profile.keyPairs) throw new Error("Profile has no keys to share");
+  if (profile.keyPairs.signature.publicKey !== signingKey.publicKey) {
+    throw new Error("Signing key does not match the profile");
+  }
+
+  const { encryption, signature } = profile.keyPairs;
+  const card: UnsignedContactCard = {
+    version: CONTACT_CARD_VERSION,
+    userId: profile.id,
+    name: profile.name,
+    keys: {
+      encryption: { algorithm: encryption.algorithm, key: encryption.publicKey },
+      signature: { algorithm: signature.algorithm, key: signature.publicKey },
+    },
+    did: profile.didDocument?.id,
+    starknetAddress: profile.starknetAddress,
+    issuedAt: Date.now(),
+  };
+  return { ...card, signature: await signMessage(signedPayload(card), signingKey.privateKey, signingKey.algorithm) };
+}
+
+/* 🔹 **Encoding** */
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeContactCardUri(card: ContactCard): string {
+  return CONTACT_CARD_URI_PREFIX + toBase64Url(canonicalJson(card));
+}
+
+// ✅ File contents for a `.tetracard` download
+export function encodeContactCardFile(card: ContactCard): string {
+  return JSON.stringify(card, null, 2);
+}
+
+/* 🔹 **Validation** */
+
+function expectString(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.length === 0) throw new Error(`Invalid contact card: ${field} is missing`);
+  return value;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  return value === undefined ? undefined : expectString(value, field);
+}
+
+function expectKey(value: unknown, kind: "kem" | "signature", field: string): TaggedPublicKey {
+  if (value === null || typeof value !== "object") throw new Error(`Invalid contact card: ${field} is missing`);
+  const { algorithm, key } = value as Record<string, unknown>;
+  // Kept exactly as issued (not normalised to the canonical ID) so the signature still verifies
+  algorithms.require(expectString(algorithm, `${field}.algorithm`), kind);
+  if (!/^(?:[0-9a-f]{2})+$/.test(expectString(key, `${field}.key`))) {
+    throw new Error(`Invalid contact card: ${field}.key must be hex`);
+  }
+  return { algorithm: algorithm as string, key: key as string };
+}
+
+/**
+ * ✅ Parse a card from a `tetracrypt://contact/…` URI or `.tetracard` file contents
+ * Only checks the structure; call `verifyContactCard` before trusting it.
+ */
+export function parseContactCard(input: string): ContactCard {
+  const trimmed = input.trim();
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(
+      trimmed.startsWith(CONTACT_CARD_URI_PREFIX) ? fromBase64Url(trimmed.slice(CONTACT_CARD_URI_PREFIX.length)) : trimmed
+    );
+  } catch {
+    throw new Error("Not a TetraCrypt contact card");
+  }
+  if (value === null || typeof value !== "object") throw new Error("Not a TetraCrypt contact card");
+  if (value.version !== CONTACT_CARD_VERSION) throw new Error(`Unsupported contact card version: ${String(value.version)}`);
+
+  const keys = (value.keys ?? {}) as Record<string, unknown>;
+  if (!Number.isSafeInteger(value.issuedAt)) throw new Error("Invalid contact card: issuedAt is missing");
+  return {
+    version: CONTACT_CARD_VERSION,
+    userId: expectString(value.userId, "userId"),
+    name: expectString(value.name, "name"),
+    keys: {
+      encryption: expectKey(keys.encryption, "kem", "keys.encryption"),
+      signature: expectKey(keys.signature, "signature", "keys.signature"),
+    },
+    did: optionalString(value.did, "did"),
+    starknetAddress: optionalString(value.starknetAddress, "starknetAddress"),
+    issuedAt: value.issuedAt as number,
+    signature: expectString(value.signature, "signature"),
+  };
+}
+
+// ✅ Check the self-signature with the signature key the card itself carries
+export async function verifyContactCard(card: ContactCard): Promise<boolean> {
+  const { signature, ...unsigned } = card;
+  if (!signature.startsWith(`${algorithms.resolve(card.keys.signature.algorithm)}:`)) return false;
+  return verifySignature(signedPayload(unsigned), signature, card.keys.signature.key);
+}
+
+/**
+ * ✅ Whether importing a card would replace a stored contact's identity keys
+ * Callers must warn and ask before saving such a card: it is either a reinstall or an impersonation.
+ */
+export function cardChangesKeys(card: ContactCard, existing?: Contact): boolean {
+  const keys = existing && contactIdentityKeys(existing);
+  if (!keys) return false;
+  return keys.encryption !== card.keys.encryption.key || keys.signature !== card.keys.signature.key;
+}
+
+/**
+ * ✅ Contact record for a verified card
+ * @param existing - The stored contact with the same ID, whose local state (unread count,
+ *   verification, preferences) is kept. Verified fingerprints are kept too, so replaced keys
+ *   (see `cardChangesKeys`) show as changed until the contact is verified again.
+ */
+export function contactFromCard(card: ContactCard, existing?: Contact): Contact {
+  return {
+    unreadCount: 0,
+    ...existing,
+    id: card.userId,
+    name: existing?.name ?? card.name,
+    publicKeys: { encryption: card.keys.encryption, signature: card.keys.signature },
+    did: card.did,
+    starknetAddress: card.starknetAddress,
+  };
+}
@@ -0,0 +1,256 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha256";
+import { sha384 } from "@noble/hashes/sha512";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { x25519 } from "@noble/curves/ed25519";
+import { ml_kem1024 } from "@noble/post-quantum/ml-kem";
+import { algorithms, DEFAULT_ALGORITHMS, getContactPublicKey } from "@/lib/algorithms";
+import {
+  decapsulate,
+  decryptBytesWith,
+  decryptMessage,
+  encapsulate,
+  encryptBytesWith,
+  encryptMessageWith,
+  generateHybridKeypair,
+  generateKeypair,
+  generateSessionKey,
+  generateSLHDSAKeypair,
+  HYBRID_KEM_ALGORITHM,
+  kemDecapsulate,
+  kemEncapsulate,
+  KeyPair,
+  signMessage,
+  verifySignature,
+} from "@/lib/crypto";
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+/* 🔹 **Key Encapsulation** */
+
+describe.each(["ML-KEM-512", "ML-KEM-768", "ML-KEM-1024"])("%s", (algorithm) => {
+  const suite = algorithms.require(algorithm, "kem");
+
+  it("generates keys of the registered sizes", async () => {
+    const keyPair = await generateKeypair(algorithm);
+    expect(keyPair.algorithm).toBe(algorithm);
+    expect(keyPair.publicKey).toHaveLength(suite.publicKeySize * 2);
+    expect(keyPair.privateKey).toHaveLength(suite.secretKeySize * 2);
+  });
+
+  it("decapsulates the encapsulated secret", async () => {
+    const keyPair = await generateKeypair(algorithm);
+    const { ciphertext, sharedSecret } = await kemEncapsulate(algorithm, keyPair.publicKey);
+    expect(ciphertext).toHaveLength(suite.ciphertextSize * 2);
+    expect(sharedSecret).toHaveLength(suite.sharedSecretSize * 2);
+    expect(await kemDecapsulate(algorithm, ciphertext, keyPair.privateKey)).toBe(sharedSecret);
+  });
+
+  it("rejects tampered ciphertexts implicitly", async () => {
+    const keyPair = await generateKeypair(algorithm);
+    const { ciphertext, sharedSecret } = await kemEncapsulate(algorithm, keyPair.publicKey);
+    const tampered = (ciphertext[0] === "0" ? "1" : "0") + ciphertext.slice(1);
+    expect(await kemDecapsulate(algorithm, tampered, keyPair.privateKey)).not.toBe(sharedSecret);
+  });
+});
+
+it("resolves legacy aliases to the standardised suite", async () => {
+  expect((await generateKeypair("Kyber1024")).algorithm).toBe("ML-KEM-1024");
+});
+
+it("reports registered suites without an implementation", async () => {
+  expect(algorithms.list().filter((suite) => suite.unsupported).map((suite) => suite.id)).toEqual([
+    "BIKE-L1",
+    "BIKE-L3",
+    "Falcon-512",
+    "Falcon-1024",
+  ]);
+  await expect(generateKeypair("BIKE-L3")).rejects.toThrow("BIKE-L3 is not supported");
+  await expect(generateKeypair("Falcon-512")).rejects.toThrow("Falcon-512 is not supported");
+  await expect(generateKeypair("RSA-2048")).rejects.toThrow("Unknown algorithm");
+});
+
+/* 🔹 **Signatures** */
+
+describe.each(["ML-DSA-44", "ML-DSA-65", "ML-DSA-87", "SLH-DSA-SHA2-128f", "SLH-DSA-SHAKE-256f"])("%s", (algorithm) => {
+  const suite = algorithms.require(algorithm, "signature");
+  let keyPair: KeyPair;
+
+  beforeAll(async () => {
+    keyPair = await generateKeypair(algorithm);
+  });
+
+  it("generates keys of the registered sizes", () => {
+    expect(keyPair.algorithm).toBe(algorithm);
+    expect(keyPair.publicKey).toHaveLength(suite.publicKeySize * 2);
+    expect(keyPair.privateKey).toHaveLength(suite.secretKeySize * 2);
+  });
+
+  it("signs with an algorithm tag and verifies", async () => {
+    const signature = await signMessage("hello", keyPair.privateKey, algorithm);
+    expect(signature.startsWith(`${algorithm}:`)).toBe(true);
+    expect(signature.length - algorithm.length - 1).toBeLessThanOrEqual(suite.signatureSize * 2);
+    expect(await verifySignature("hello", signature, keyPair.publicKey)).toBe(true);
+  });
+
+  it("rejects a different message, key or tag", async () => {
+    const signature = await signMessage("hello", keyPair.privateKey, algorithm);
+    const other = await generateKeypair(algorithm);
+    expect(await verifySignature("hell0", signature, keyPair.publicKey)).toBe(false);
+    expect(await verifySignature("hello", signature, other.publicKey)).toBe(false);
+    expect(await verifySignature("hello", signature.slice(algorithm.length + 1), keyPair.publicKey)).toBe(false);
+  });
+});
+
+it("generates SLH-DSA-SHAKE-256f keys for generateSLHDSAKeypair", async () => {
+  expect((await generateSLHDSAKeypair()).algorithm).toBe("SLH-DSA-SHAKE-256f");
+});
+
+it("signs with ML-DSA-87 unless a suite is named", async () => {
+  const keyPair = await generateKeypair(DEFAULT_ALGORITHMS.signature);
+  expect((await signMessage("hello", keyPair.privateKey)).startsWith("ML-DSA-87:")).toBe(true);
+});
+
+it("still reads untagged SLH-DSA keys stored before ML-DSA became the default", () => {
+  const legacyKey = "ab".repeat(64);
+  expect(getContactPublicKey({ publicKeys: { falcon: legacyKey } }, "signature")).toEqual({
+    algorithm: "SLH-DSA-SHAKE-256f",
+    key: legacyKey,
+  });
+});
+
+/* 🔹 **Symmetric Encryption** */
+
+describe.each(["AES-256-GCM", "ChaCha20-Poly1305"])("%s", (algorithm) => {
+  const associatedData = utf8ToBytes("alice->bob");
+
+  it("round-trips tagged messages with associated data", async () => {
+    const key = await generateSessionKey();
+    const encrypted = await encryptMessageWith(algorithm, "hello", key, associatedData);
+    expect(encrypted.startsWith(`${algorithm}:`)).toBe(true);
+    expect(await decryptMessage(encrypted, key, associatedData)).toBe("hello");
+  });
+
+  it("fails with the wrong key or associated data", async () => {
+    const key = await generateSessionKey();
+    const encrypted = await encryptMessageWith(algorithm, "hello", key, associatedData);
+    await expect(decryptMessage(encrypted, await generateSessionKey(), associatedData)).rejects.toThrow();
+    await expect(decryptMessage(encrypted, key, utf8ToBytes("bob->alice"))).rejects.toThrow();
+  });
+
+  it("round-trips bytes and detects tampering", async () => {
+    const key = await generateSessionKey();
+    const sealed = await encryptBytesWith(algorithm, new Uint8Array([1, 2, 3]), key, associatedData);
+    expect(await decryptBytesWith(algorithm, sealed, key, associatedData)).toEqual(new Uint8Array([1, 2, 3]));
+
+    sealed[sealed.length - 1] ^= 1;
+    await expect(decryptBytesWith(algorithm, sealed, key, associatedData)).rejects.toThrow();
+  });
+});
+
+it("rejects keys of the wrong length", async () => {
+  await expect(encryptMessageWith("AES-256-GCM", "hello", "00".repeat(16))).rejects.toThrow("32-byte key");
+});
+
+/* 🔹 **Hybrid KEM (ML-KEM-1024 + X25519)** */
+
+describe("hybrid KEM", () => {
+  const suite = algorithms.require(HYBRID_KEM_ALGORITHM, "kem");
+
+  // Replace the system RNG with a SHA-256 counter stream so outputs are reproducible
+  function useSeededRandom(seed: string) {
+    let counter = 0;
+    return vi.spyOn(globalThis.crypto, "getRandomValues").mockImplementation(<T extends ArrayBufferView | null>(array: T) => {
+      const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+      for (let offset = 0; offset < bytes.length; offset += 32) {
+        const block = sha256(utf8ToBytes(`${seed}:${counter++}`));
+        bytes.set(block.subarray(0, Math.min(32, bytes.length - offset)), offset);
+      }
+      return array;
+    });
+  }
+
+  it("generates keys of the registered sizes", async () => {
+    const keyPair = await generateKeypair(HYBRID_KEM_ALGORITHM);
+    expect(keyPair.algorithm).toBe(HYBRID_KEM_ALGORITHM);
+    expect(keyPair.publicKey).toHaveLength(suite.publicKeySize * 2);
+    expect(keyPair.privateKey).toHaveLength(suite.secretKeySize * 2);
+  });
+
+  it.each([true, false])("round-trips an AEAD key (hybrid: %s)", async (hybrid) => {
+    const keyPair = await generateHybridKeypair();
+    const { ciphertext, sharedKey } = await encapsulate(keyPair.publicKey, { hybrid });
+    expect(ciphertext).toHaveLength((hybrid ? suite.ciphertextSize : suite.ciphertextSize - 32) * 2);
+    expect(await decapsulate(ciphertext, keyPair.privateKey)).toBe(sharedKey);
+
+    const encrypted = await encryptMessageWith("AES-256-GCM", "hello", sharedKey);
+    expect(await decryptMessage(encrypted, await decapsulate(ciphertext, keyPair.privateKey))).toBe("hello");
+  });
+
+  it("matches the documented key layout and HKDF transcript", async () => {
+    const random = useSeededRandom("TetraCryptPQC/test/hybrid-kem");
+    try {
+      const keyPair = await generateHybridKeypair();
+      const { ciphertext, sharedKey } = await encapsulate(keyPair.publicKey);
+
+      // Recompute the key from the components: ML-KEM-1024 || X25519 everywhere
+      const publicKey = hexToBytes(keyPair.publicKey);
+      const secretKey = hexToBytes(keyPair.privateKey);
+      const ciphertextBytes = hexToBytes(ciphertext);
+      const kemSecret = ml_kem1024.decapsulate(ciphertextBytes.subarray(0, 1568), secretKey.subarray(0, 3168));
+      const dhSecret = x25519.getSharedSecret(secretKey.subarray(3168), ciphertextBytes.subarray(1568));
+      const label = utf8ToBytes("TetraCryptPQC/hybrid-kem/v1");
+      const transcript = concatBytes(label, new Uint8Array([1]), publicKey, ciphertextBytes);
+      expect(sharedKey).toBe(bytesToHex(hkdf(sha384, concatBytes(kemSecret, dhSecret), label, transcript, 32)));
+      expect(bytesToHex(publicKey.subarray(1568))).toBe(bytesToHex(x25519.getPublicKey(secretKey.subarray(3168))));
+
+      // Recorded from this implementation; a change means existing ciphertexts no longer decrypt
+      expect(bytesToHex(sha256(publicKey))).toBe(HYBRID_KEM_VECTOR.publicKeySha256);
+      expect(bytesToHex(sha256(ciphertextBytes))).toBe(HYBRID_KEM_VECTOR.ciphertextSha256);
+      expect(sharedKey).toBe(HYBRID_KEM_VECTOR.sharedKey);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it("derives an unrelated key from a tampered ML-KEM or X25519 component", async () => {
+    const keyPair = await generateHybridKeypair();
+    const { ciphertext, sharedKey } = await encapsulate(keyPair.publicKey);
+    const flip = (hex: string, byte: number) =>
+      hex.slice(0, byte * 2) + (parseInt(hex.slice(byte * 2, byte * 2 + 2), 16) ^ 1).toString(16).padStart(2, "0") + hex.slice(byte * 2 + 2);
+
+    expect(await decapsulate(flip(ciphertext, 0), keyPair.privateKey)).not.toBe(sharedKey);
+    expect(await decapsulate(flip(ciphertext, 1568), keyPair.privateKey)).not.toBe(sharedKey);
+  });
+
+  it("does not let the X25519 half be stripped (downgrade to ML-KEM only)", async () => {
+    const keyPair = await generateHybridKeypair();
+    const { ciphertext, sharedKey } = await encapsulate(keyPair.publicKey);
+    expect(await decapsulate(ciphertext.slice(0, 1568 * 2), keyPair.privateKey)).not.toBe(sharedKey);
+  });
+
+  it("derives an unrelated key for another recipient", async () => {
+    const keyPair = await generateHybridKeypair();
+    const other = await generateHybridKeypair();
+    const { ciphertext, sharedKey } = await encapsulate(keyPair.publicKey);
+    expect(await decapsulate(ciphertext, other.privateKey)).not.toBe(sharedKey);
+  });
+
+  it("rejects malformed keys and ciphertexts", async () => {
+    const keyPair = await generateHybridKeypair();
+    const { ciphertext } = await encapsulate(keyPair.publicKey);
+    await expect(encapsulate(keyPair.publicKey.slice(2))).rejects.toThrow("Invalid hybrid public key length");
+    await expect(decapsulate(ciphertext.slice(2), keyPair.privateKey)).rejects.toThrow("Invalid KEM ciphertext length");
+    await expect(decapsulate(ciphertext, keyPair.privateKey.slice(2))).rejects.toThrow("Invalid hybrid secret key length");
+  });
+});
+
+const HYBRID_KEM_VECTOR = {
+  publicKeySha256: "ca86e333988b5d9effe62d4054789b7e48b48b0b670769765c15562ddf19dc22",
+  ciphertextSha256: "ab6a12405e0030ed2dabcb9456b3bbd2e63920a4318f497536dfb1c81d7ba8f8",
+  sharedKey: "ce73c01de0b41a9d84b4fc4e5d31eb2fe2055bf003bbf3d1597bfec155f7bf38",
+};
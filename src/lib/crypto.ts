@@ -1,69 +1,469 @@
 // ✅ Import Secure Hashing & Cryptographic Libraries
 import { sha256 } from "@noble/hashes/sha256";
-import { subtle } from "crypto"; // Web Crypto API for AES-GCM
-import { ec, hash } from "starknet"; // ✅ StarkNet ECDSA & Pedersen Hash
-import { poseidonHash } from "@starkware-industries/stark-crypto"; // ✅ zk-STARK Hashing
-import * as wasmCrypto from "@openquantumsafe/liboqs"; // ✅ WebAssembly PQC Check
+import { sha384 } from "@noble/hashes/sha512";
+import { hkdf } from "@noble/hashes/hkdf";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { x25519 } from "@noble/curves/ed25519"; // ✅ Classical half of the hybrid KEM
+import { chacha20poly1305 } from "@noble/ciphers/chacha"; // ✅ ChaCha20-Poly1305 AEAD
+import { ec, hash, num } from "starknet"; // ✅ StarkNet ECDSA & Pedersen Hash
+import { KEM, ml_kem512, ml_kem768, ml_kem1024 } from "@noble/post-quantum/ml-kem"; // ✅ FIPS 203
+import { ml_dsa44, ml_dsa65, ml_dsa87 } from "@noble/post-quantum/ml-dsa"; // ✅ FIPS 204
+import * as slhDsa from "@noble/post-quantum/slh-dsa"; // ✅ FIPS 205
+import type { Signer } from "@noble/post-quantum/utils";
 import { ethers } from "ethers"; // ✅ Web3 Signing
+import { algorithms, DEFAULT_ALGORITHMS, KemSuite, SignatureSuite, SLH_DSA_SIGNATURE_ALGORITHM } from "@/lib/algorithms"; // ✅ Crypto-agility metadata
 
-// ✅ Initialize WebAssembly PQC Library (Ensuring PQC compatibility)
-const pqcModule = await wasmCrypto();
+/* 🔹 **Post-Quantum Implementations (@noble/post-quantum)** */
+
+// Suites registered as `unsupported` (BIKE, Falcon) have no entry here
+const KEM_IMPLEMENTATIONS: Record<string, KEM> = {
+  "ML-KEM-512": ml_kem512,
+  "ML-KEM-768": ml_kem768,
+  "ML-KEM-1024": ml_kem1024,
+};
+
+const SIGNATURE_IMPLEMENTATIONS: Record<string, Signer> = {
+  "ML-DSA-44": ml_dsa44,
+  "ML-DSA-65": ml_dsa65,
+  "ML-DSA-87": ml_dsa87,
+  "SLH-DSA-SHA2-128s": slhDsa.slh_dsa_sha2_128s,
+  "SLH-DSA-SHA2-128f": slhDsa.slh_dsa_sha2_128f,
+  "SLH-DSA-SHA2-192s": slhDsa.slh_dsa_sha2_192s,
+  "SLH-DSA-SHA2-192f": slhDsa.slh_dsa_sha2_192f,
+  "SLH-DSA-SHA2-256s": slhDsa.slh_dsa_sha2_256s,
+  "SLH-DSA-SHA2-256f": slhDsa.slh_dsa_sha2_256f,
+  "SLH-DSA-SHAKE-128s": slhDsa.slh_dsa_shake_128s,
+  "SLH-DSA-SHAKE-128f": slhDsa.slh_dsa_shake_128f,
+  "SLH-DSA-SHAKE-192s": slhDsa.slh_dsa_shake_192s,
+  "SLH-DSA-SHAKE-192f": slhDsa.slh_dsa_shake_192f,
+  "SLH-DSA-SHAKE-256s": slhDsa.slh_dsa_shake_256s,
+  "SLH-DSA-SHAKE-256f": slhDsa.slh_dsa_shake_256f,
+};
+
+function kemImplementation(suite: KemSuite): KEM {
+  const kem = KEM_IMPLEMENTATIONS[suite.id];
+  if (!kem) throw new Error(`${suite.id} is not supported on this platform`);
+  return kem;
+}
+
+function signatureImplementation(suite: SignatureSuite): Signer {
+  const signer = SIGNATURE_IMPLEMENTATIONS[suite.id];
+  if (!signer) throw new Error(`${suite.id} is not supported on this platform`);
+  return signer;
+}
+
+// ML-DSA key generation takes a 32-byte seed; SLH-DSA takes SK.seed || SK.prf || PK.seed (3n bytes)
+function signatureSeedSize(suite: SignatureSuite): number {
+  return suite.standard === "FIPS 205" ? (suite.secretKeySize / 4) * 3 : 32;
+}
 
 /* 🔹 **Post-Quantum Key Generation (NIST PQC Standards)** */
-export async function generateKyberKeypair() {
-  console.log("🔹 Generating Kyber Keypair (PQC Standard)...");
-  const kem = pqcModule.KEM.new("Kyber1024");
-  const { publicKey, secretKey } = await kem.keypair();
-  return {
-    publicKey: Buffer.from(publicKey).toString("hex"),
-    privateKey: Buffer.from(secretKey).toString("hex"),
-  };
+
+/**
+ * Uniform key pair shape shared by every KEM and signature scheme.
+ * Keys are hex-encoded; `algorithm` is the scheme identifier the key belongs to.
+ */
+export interface KeyPair {
+  algorithm: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/** Public half of a key pair, as stored on profiles and shared with contacts. */
+export type PublicKeyInfo = Omit<KeyPair, "privateKey">;
+
+export const DEFAULT_SIGNATURE_ALGORITHM = DEFAULT_ALGORITHMS.signature;
+
+async function generateKemKeypair(algorithm: string): Promise<KeyPair> {
+  const suite = algorithms.require(algorithm, "kem");
+  console.log(`🔹 Generating ${suite.id} Keypair...`);
+  const { publicKey, secretKey } = kemImplementation(suite).keygen();
+  return { algorithm: suite.id, publicKey: bytesToHex(publicKey), privateKey: bytesToHex(secretKey) };
+}
+
+async function generateSignatureKeypair(algorithm: string): Promise<KeyPair> {
+  const suite = algorithms.require(algorithm, "signature");
+  console.log(`🔹 Generating ${suite.id} Keypair...`);
+  const seed = crypto.getRandomValues(new Uint8Array(signatureSeedSize(suite)));
+  const { publicKey, secretKey } = signatureImplementation(suite).keygen(seed);
+  return { algorithm: suite.id, publicKey: bytesToHex(publicKey), privateKey: bytesToHex(secretKey) };
+}
+
+/**
+ * ✅ Generate a keypair for any registered KEM or signature suite
+ * @param algorithm - Registry identifier or alias (e.g. `ML-DSA-87`, `Kyber1024`)
+ */
+export async function generateKeypair(algorithm: string): Promise<KeyPair> {
+  const suite = algorithms.get(algorithm);
+  if (suite?.id === HYBRID_KEM_ALGORITHM) return generateHybridKeypair();
+  if (suite?.kind === "signature") return generateSignatureKeypair(suite.id);
+  return generateKemKeypair(algorithm);
+}
+
+// ✅ **ML-KEM-1024 (NIST FIPS 203 Key Encapsulation)**
+export async function generateMLKEMKeypair(): Promise<KeyPair> {
+  return generateKemKeypair("ML-KEM-1024");
+}
+
+// ✅ Kyber1024 was standardised as ML-KEM-1024; kept for existing callers
+export async function generateKyberKeypair(): Promise<KeyPair> {
+  return generateMLKEMKeypair();
+}
+
+// ✅ **SLH-DSA-SHAKE-256f (NIST FIPS 205 Stateless Hash-Based Signature)**
+export async function generateSLHDSAKeypair(): Promise<KeyPair> {
+  return generateSignatureKeypair(SLH_DSA_SIGNATURE_ALGORITHM);
+}
+
+// ✅ **ML-DSA-65 (NIST FIPS 204, formerly Dilithium3)**
+export async function generateDilithiumKeypair(): Promise<KeyPair> {
+  return generateSignatureKeypair("ML-DSA-65");
+}
+
+// ✅ Encapsulate to a single-algorithm KEM public key (e.g. ML-KEM-768 ratchet keys)
+export async function kemEncapsulate(algorithm: string, publicKey: string): Promise<{ ciphertext: string; sharedSecret: string }> {
+  const suite = algorithms.require(algorithm, "kem");
+  const { cipherText, sharedSecret } = kemImplementation(suite).encapsulate(hexToBytes(publicKey));
+  return { ciphertext: bytesToHex(cipherText), sharedSecret: bytesToHex(sharedSecret) };
+}
+
+export async function kemDecapsulate(algorithm: string, ciphertext: string, secretKey: string): Promise<string> {
+  const suite = algorithms.require(algorithm, "kem");
+  return bytesToHex(kemImplementation(suite).decapsulate(hexToBytes(ciphertext), hexToBytes(secretKey)));
+}
+
+/* 🔹 **Algorithm-Tagged Encoding** */
+
+/** Outputs are encoded as `<algorithm>:<payload>` so they can be decoded without side-channel metadata. */
+function tagOutput(algorithm: string, payload: string): string {
+  return `${algorithm}:${payload}`;
+}
+
+function parseTaggedOutput(value: string): { algorithm: string; payload: string } {
+  const separator = value.indexOf(":");
+  if (separator <= 0) throw new Error("Missing algorithm tag");
+  return { algorithm: value.slice(0, separator), payload: value.slice(separator + 1) };
+}
+
+/* 🔹 **Post-Quantum Digital Signatures** */
+
+/**
+ * ✅ Sign a message with a post-quantum signature key
+ * @param message - The message to sign
+ * @param privateKey - Hex-encoded signing key
+ * @param algorithm - The scheme the key belongs to (`KeyPair.algorithm`)
+ * @returns Algorithm-tagged signature, e.g. `ML-DSA-87:<hex>`
+ */
+export async function signMessage(
+  message: string,
+  privateKey: string,
+  algorithm: string = DEFAULT_SIGNATURE_ALGORITHM
+): Promise<string> {
+  const suite = algorithms.require(algorithm, "signature");
+  console.log(`🔹 Signing message with ${suite.id}...`);
+  const signature = signatureImplementation(suite).sign(hexToBytes(privateKey), utf8ToBytes(message));
+  return tagOutput(suite.id, bytesToHex(signature));
+}
+
+/**
+ * ✅ Verify an algorithm-tagged signature
+ * @returns False for malformed signatures as well as invalid ones
+ */
+export async function verifySignature(message: string, signature: string, publicKey: string): Promise<boolean> {
+  try {
+    const { algorithm, payload } = parseTaggedOutput(signature);
+    const suite = algorithms.require(algorithm, "signature");
+    console.log(`🔹 Verifying ${suite.id} signature...`);
+    return signatureImplementation(suite).verify(hexToBytes(publicKey), utf8ToBytes(message), hexToBytes(payload));
+  } catch (error) {
+    console.warn("❌ Signature verification failed:", error);
+    return false;
+  }
+}
+
+/* 🔹 **StarkNet ECDSA Signing** */
+export async function signStarkNetTransaction(message: string, privateKey: string): Promise<string> {
+  console.log("🔹 Signing with StarkNet ECDSA...");
+  const messageHash = hash.starknetKeccak(message);
+  const { r, s } = ec.starkCurve.sign(num.toHex(messageHash), privateKey);
+  return JSON.stringify([num.toHex(r), num.toHex(s)]);
+}
+
+/* 🔹 **Hybrid Key Encapsulation (ML-KEM-1024 + X25519)** */
+const MLKEM_1024 = algorithms.require("ML-KEM-1024", "kem");
+const MLKEM_1024_PUBLIC_KEY_BYTES = MLKEM_1024.publicKeySize;
+const MLKEM_1024_SECRET_KEY_BYTES = MLKEM_1024.secretKeySize;
+const MLKEM_1024_CIPHERTEXT_BYTES = MLKEM_1024.ciphertextSize;
+const MLKEM_1024_DK_PKE_BYTES = 1536;
+const X25519_KEY_BYTES = 32;
+const AEAD_KEY_BYTES = algorithms.require("AES-256-GCM", "aead").keySize;
+export const HYBRID_KEM_ALGORITHM = "ML-KEM-1024+X25519";
+const HYBRID_KEM_LABEL = utf8ToBytes("TetraCryptPQC/hybrid-kem/v1");
+
+export interface KemOptions {
+  /** Mix an X25519 exchange into the ML-KEM secret (Settings → Hybrid Encryption). */
+  hybrid?: boolean;
+}
+
+export interface EncapsulationResult {
+  ciphertext: string;
+  sharedKey: string;
 }
 
-// ✅ **Dilithium Key Generation (Post-Quantum Digital Signature)**
-export async function generateDilithiumKeypair() {
-  console.log("🔹 Generating Dilithium Keypair...");
-  const dsa = pqcModule.DSA.new("Dilithium3");
-  const { publicKey, secretKey } = await dsa.keypair();
+/**
+ * ✅ Generate a hybrid encryption keypair.
+ * Keys are hex strings laid out as `ML-KEM-1024 || X25519`, so a single value can be
+ * shared with contacts and stored alongside the existing key material.
+ */
+export async function generateHybridKeypair(): Promise<KeyPair> {
+  console.log("🔹 Generating Hybrid ML-KEM-1024 + X25519 Keypair...");
+  const { publicKey, secretKey } = ml_kem1024.keygen();
+  const x25519SecretKey = x25519.utils.randomPrivateKey();
   return {
-    publicKey: Buffer.from(publicKey).toString("hex"),
-    privateKey: Buffer.from(secretKey).toString("hex"),
+    algorithm: HYBRID_KEM_ALGORITHM,
+    publicKey: bytesToHex(concatBytes(publicKey, x25519.getPublicKey(x25519SecretKey))),
+    privateKey: bytesToHex(concatBytes(secretKey, x25519SecretKey)),
   };
 }
 
-/* 🔹 **AES-256-GCM Encryption (Hybrid Kyber + AES)** */
-export async function encryptAES(message, key) {
+function splitHybridKey(key: string, kemBytes: number, label: string) {
+  const bytes = hexToBytes(key);
+  if (bytes.length !== kemBytes + X25519_KEY_BYTES) {
+    throw new Error(`Invalid hybrid ${label} length: expected ${kemBytes + X25519_KEY_BYTES} bytes, got ${bytes.length}`);
+  }
+  return { kem: bytes.slice(0, kemBytes), x25519: bytes.slice(kemBytes) };
+}
+
+/**
+ * Derive the AEAD key with HKDF-SHA-384. The transcript binds the mode, the recipient's
+ * ML-KEM and X25519 public keys and the full ciphertext, so stripping or swapping any
+ * component (including a hybrid → ML-KEM-only downgrade) yields an unrelated key.
+ */
+function deriveKemKey(sharedSecrets: Uint8Array[], recipientPublicKey: Uint8Array, ciphertext: Uint8Array, hybrid: boolean) {
+  const transcript = concatBytes(HYBRID_KEM_LABEL, new Uint8Array([hybrid ? 1 : 0]), recipientPublicKey, ciphertext);
+  return hkdf(sha384, concatBytes(...sharedSecrets), HYBRID_KEM_LABEL, transcript, AEAD_KEY_BYTES);
+}
+
+/**
+ * ✅ Encapsulate a fresh AEAD key to a recipient's hybrid public key
+ * @param recipientPublicKey - Hex-encoded `ML-KEM-1024 || X25519` public key
+ * @param options - `hybrid: false` skips the X25519 exchange (ML-KEM-1024 only)
+ * @returns The KEM ciphertext to send and the 32-byte AEAD key (both hex)
+ */
+export async function encapsulate(recipientPublicKey: string, options: KemOptions = {}): Promise<EncapsulationResult> {
+  const hybrid = options.hybrid ?? true;
+  console.log(`🔹 Encapsulating with ${hybrid ? "ML-KEM-1024 + X25519" : "ML-KEM-1024"}...`);
+  const recipient = splitHybridKey(recipientPublicKey, MLKEM_1024_PUBLIC_KEY_BYTES, "public key");
+
+  const { cipherText: kemCiphertext, sharedSecret: kemSecret } = ml_kem1024.encapsulate(recipient.kem);
+
+  let ciphertext: Uint8Array = kemCiphertext;
+  const sharedSecrets: Uint8Array[] = [kemSecret];
+  if (hybrid) {
+    const ephemeralSecretKey = x25519.utils.randomPrivateKey();
+    ciphertext = concatBytes(kemCiphertext, x25519.getPublicKey(ephemeralSecretKey));
+    sharedSecrets.push(x25519.getSharedSecret(ephemeralSecretKey, recipient.x25519));
+  }
+
+  const sharedKey = deriveKemKey(sharedSecrets, hexToBytes(recipientPublicKey), ciphertext, hybrid);
+  return { ciphertext: bytesToHex(ciphertext), sharedKey: bytesToHex(sharedKey) };
+}
+
+/**
+ * ✅ Recover the AEAD key from a KEM ciphertext
+ * The mode is inferred from the ciphertext length. A tampered ciphertext does not throw
+ * here (ML-KEM uses implicit rejection) but produces a key that fails AEAD decryption.
+ * @param ciphertext - Hex ciphertext returned by `encapsulate`
+ * @param secretKey - Hex-encoded `ML-KEM-1024 || X25519` private key
+ */
+export async function decapsulate(ciphertext: string, secretKey: string): Promise<string> {
+  console.log("🔹 Decapsulating hybrid KEM ciphertext...");
+  const ciphertextBytes = hexToBytes(ciphertext);
+  const hybrid = ciphertextBytes.length === MLKEM_1024_CIPHERTEXT_BYTES + X25519_KEY_BYTES;
+  if (!hybrid && ciphertextBytes.length !== MLKEM_1024_CIPHERTEXT_BYTES) {
+    throw new Error(`Invalid KEM ciphertext length: ${ciphertextBytes.length} bytes`);
+  }
+  const own = splitHybridKey(secretKey, MLKEM_1024_SECRET_KEY_BYTES, "secret key");
+
+  const kemSecret = ml_kem1024.decapsulate(ciphertextBytes.slice(0, MLKEM_1024_CIPHERTEXT_BYTES), own.kem);
+
+  const sharedSecrets: Uint8Array[] = [kemSecret];
+  if (hybrid) {
+    const ephemeralPublicKey = ciphertextBytes.slice(MLKEM_1024_CIPHERTEXT_BYTES);
+    sharedSecrets.push(x25519.getSharedSecret(own.x25519, ephemeralPublicKey));
+  }
+
+  // FIPS 203 decapsulation keys embed the encapsulation key right after the 1536-byte dk_PKE
+  const kemPublicKey = own.kem.slice(MLKEM_1024_DK_PKE_BYTES, MLKEM_1024_DK_PKE_BYTES + MLKEM_1024_PUBLIC_KEY_BYTES);
+  const recipientPublicKey = concatBytes(kemPublicKey, x25519.getPublicKey(own.x25519));
+  return bytesToHex(deriveKemKey(sharedSecrets, recipientPublicKey, ciphertextBytes, hybrid));
+}
+
+/* 🔹 **AES-256-GCM Encryption (Hybrid KEM + AES)** */
+// Web Crypto only takes views backed by a plain ArrayBuffer; copy into one
+function webCryptoBytes(bytes: Uint8Array) {
+  return new Uint8Array(bytes);
+}
+
+// ✅ AES-256-GCM through the browser's Web Crypto API; returns `ciphertext || tag`
+async function aesGcm(
+  usage: "encrypt" | "decrypt",
+  key: string,
+  iv: Uint8Array,
+  data: Uint8Array,
+  associatedData?: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey("raw", webCryptoBytes(aesKeyBytes(key)), "AES-GCM", false, [usage]);
+  const params: AesGcmParams = { name: "AES-GCM", iv: webCryptoBytes(iv) };
+  if (associatedData) params.additionalData = webCryptoBytes(associatedData);
+  const input = webCryptoBytes(data);
+  const output =
+    usage === "encrypt"
+      ? await crypto.subtle.encrypt(params, cryptoKey, input)
+      : await crypto.subtle.decrypt(params, cryptoKey, input);
+  return new Uint8Array(output);
+}
+
+function aesKeyBytes(key: string): Uint8Array {
+  const bytes = hexToBytes(key);
+  if (bytes.length !== AEAD_KEY_BYTES) {
+    throw new Error(`AES-256-GCM requires a ${AEAD_KEY_BYTES}-byte key, got ${bytes.length} bytes`);
+  }
+  return bytes;
+}
+
+export async function encryptAES(message, key, associatedData?: Uint8Array) {
   console.log("🔹 Encrypting with AES-256-GCM...");
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const encodedMessage = new TextEncoder().encode(message);
-  const cryptoKey = await subtle.importKey(
-    "raw",
-    Buffer.from(key, "hex").slice(0, 32),
-    "AES-GCM",
-    false,
-    ["encrypt"]
-  );
-  const encrypted = await subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, encodedMessage);
-  return `${Buffer.from(iv).toString("hex")}:${Buffer.from(encrypted).toString("hex")}`;
-}
-
-export async function decryptAES(encryptedMessage, key) {
+  const encrypted = await aesGcm("encrypt", key, iv, encodedMessage, associatedData);
+  return `${bytesToHex(iv)}:${bytesToHex(encrypted)}`;
+}
+
+export async function decryptAES(encryptedMessage, key, associatedData?: Uint8Array) {
   console.log("🔹 Decrypting AES-256-GCM...");
   const [ivHex, encryptedHex] = encryptedMessage.split(":");
-  const iv = Buffer.from(ivHex, "hex");
-  const encrypted = Buffer.from(encryptedHex, "hex");
-  const cryptoKey = await subtle.importKey("raw", Buffer.from(key, "hex"), "AES-GCM", false, ["decrypt"]);
-  const decrypted = await subtle.decrypt({ name: "AES-GCM", iv }, cryptoKey, encrypted);
+  const iv = hexToBytes(ivHex);
+  const encrypted = hexToBytes(encryptedHex);
+  const decrypted = await aesGcm("decrypt", key, iv, encrypted, associatedData);
   return new TextDecoder().decode(decrypted);
 }
 
-/* 🔹 **zk-STARK Proof for Message Authentication (REAL, NOT MOCKED)** */
-export async function generateZKProof(message) {
-  console.log("🔹 Generating zk-STARK for message authentication...");
-  return poseidonHash([sha256(message)]);
+/* 🔹 **Session Keys & Algorithm-Tagged Message Encryption** */
+
+// ✅ Generate a random 256-bit symmetric session key (hex)
+export async function generateSessionKey(): Promise<string> {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(AEAD_KEY_BYTES)));
+}
+
+// ✅ Encrypt with AES-256-GCM → `AES-256-GCM:<iv>:<ciphertext>`
+export async function encryptMessage(message: string, key: string, associatedData?: Uint8Array): Promise<string> {
+  return tagOutput("AES-256-GCM", await encryptAES(message, key, associatedData));
+}
+
+// ✅ Encrypt with ChaCha20-Poly1305 → `ChaCha20-Poly1305:<nonce>:<ciphertext>`
+export async function encryptMessageChaCha(message: string, key: string, associatedData?: Uint8Array): Promise<string> {
+  console.log("🔹 Encrypting with ChaCha20-Poly1305...");
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = chacha20poly1305(aesKeyBytes(key), nonce, associatedData).encrypt(utf8ToBytes(message));
+  return tagOutput("ChaCha20-Poly1305", `${bytesToHex(nonce)}:${bytesToHex(encrypted)}`);
+}
+
+// ✅ Encrypt with any registered AEAD suite (e.g. the one recorded in a message's `algorithms.aead`)
+export async function encryptMessageWith(
+  algorithm: string,
+  message: string,
+  key: string,
+  associatedData?: Uint8Array
+): Promise<string> {
+  switch (algorithms.require(algorithm, "aead").id) {
+    case "AES-256-GCM":
+      return encryptMessage(message, key, associatedData);
+    case "ChaCha20-Poly1305":
+      return encryptMessageChaCha(message, key, associatedData);
+    default:
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
 }
 
-export async function verifyZKProof(message, proof) {
-  console.log("🔹 Verifying zk-STARK proof...");
-  return proof === poseidonHash([sha256(message)]);
+// ✅ Decrypt any output of `encryptMessage` / `encryptMessageChaCha`
+export async function decryptMessage(encryptedMessage: string, key: string, associatedData?: Uint8Array): Promise<string> {
+  const { algorithm, payload } = parseTaggedOutput(encryptedMessage);
+  switch (algorithms.require(algorithm, "aead").id) {
+    case "AES-256-GCM":
+      return decryptAES(payload, key, associatedData);
+    case "ChaCha20-Poly1305": {
+      console.log("🔹 Decrypting ChaCha20-Poly1305...");
+      const [nonceHex, encryptedHex] = payload.split(":");
+      const cipher = chacha20poly1305(aesKeyBytes(key), hexToBytes(nonceHex), associatedData);
+      return new TextDecoder().decode(cipher.decrypt(hexToBytes(encryptedHex)));
+    }
+    default:
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+}
+
+/* 🔹 **Binary AEAD (File Attachments)** */
+
+// Both registered suites use a 96-bit nonce and a 128-bit tag
+const AEAD_NONCE_BYTES = 12;
+const AEAD_TAG_BYTES = 16;
+export const AEAD_OVERHEAD_BYTES = AEAD_NONCE_BYTES + AEAD_TAG_BYTES;
+
+/**
+ * ✅ Encrypt raw bytes with a registered AEAD suite
+ * Unlike `encryptMessageWith` the output is untagged binary, `nonce || ciphertext || tag`;
+ * the caller records which suite was used.
+ */
+export async function encryptBytesWith(
+  algorithm: string,
+  data: Uint8Array,
+  key: string,
+  associatedData?: Uint8Array
+): Promise<Uint8Array> {
+  const nonce = crypto.getRandomValues(new Uint8Array(AEAD_NONCE_BYTES));
+  switch (algorithms.require(algorithm, "aead").id) {
+    case "AES-256-GCM":
+      return concatBytes(nonce, await aesGcm("encrypt", key, nonce, data, associatedData));
+    case "ChaCha20-Poly1305":
+      return concatBytes(nonce, chacha20poly1305(aesKeyBytes(key), nonce, associatedData).encrypt(data));
+    default:
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+}
+
+// ✅ Decrypt the output of `encryptBytesWith`; throws if the data or associated data was altered
+export async function decryptBytesWith(
+  algorithm: string,
+  sealed: Uint8Array,
+  key: string,
+  associatedData?: Uint8Array
+): Promise<Uint8Array> {
+  if (sealed.length < AEAD_OVERHEAD_BYTES) throw new Error("Encrypted data is truncated");
+  const nonce = sealed.subarray(0, AEAD_NONCE_BYTES);
+  const ciphertext = sealed.subarray(AEAD_NONCE_BYTES);
+  switch (algorithms.require(algorithm, "aead").id) {
+    case "AES-256-GCM":
+      return aesGcm("decrypt", key, nonce, ciphertext, associatedData);
+    case "ChaCha20-Poly1305":
+      return chacha20poly1305(aesKeyBytes(key), nonce, associatedData).decrypt(ciphertext);
+    default:
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+  }
+}
+
+// ✅ Stable identifier for a public key (SHA-256, hex)
+export function fingerprintPublicKey(publicKey: string): string {
+  return bytesToHex(sha256(hexToBytes(publicKey)));
+}
+
+/* 🔹 **Integrity Hashing** */
+
+/**
+ * ✅ SHA-256 digest (hex) for detecting modified data
+ * Anyone can compute it, so it proves nothing about who produced the data; use signatures
+ * for authenticity.
+ */
+export function integrityHash(data: string | Uint8Array): string {
+  return bytesToHex(sha256(typeof data === "string" ? utf8ToBytes(data) : data));
 }
@@ -0,0 +1,139 @@
+import { utf8ToBytes } from "@noble/hashes/utils";
+import { decryptMessage, encryptMessage } from "@/lib/crypto";
+import { getContactPublicKey } from "@/lib/algorithms";
+import { Envelope, envelopeAssociatedData, envelopeFromMessage, verifyEnvelope } from "@/lib/envelope";
+import { groupMemberPublicKey } from "@/lib/groups";
+import { openFromGroup, openGroupWithMessageKey } from "@/lib/sender-keys";
+import { openFromContact, openWithMessageKey } from "@/lib/sessions";
+import { addMessage, getContacts, getGroups, getMessagesForContact, getUserProfile, Message } from "@/lib/storage";
+import { getLocalKey, getUnlockedKeyPairs, subscribeVault } from "@/lib/vault";
+
+/**
+ * ✅ Message Decryption Pipeline
+ * Every stored message is verified against the sender's stored signature key and decrypted
+ * with its own ratchet key before it is rendered. Plaintext lives in memory only and is
+ * dropped as soon as the vault locks; message keys are persisted wrapped under the vault's
+ * local key so history can be re-opened after a reload.
+ */
+
+/**
+ * - `verified`: signature checked against the sender's stored key and decryption succeeded
+ * - `unverified`: decrypted, but there was no envelope or known key to check it against
+ * - `failed`: bad signature or undecryptable content; no plaintext is shown
+ */
+export type VerificationState = "verified" | "unverified" | "failed";
+
+export interface DecryptedMessage {
+  verification: VerificationState;
+  plaintext?: string;
+  error?: string;
+}
+
+// Keyed by message id; holds in-flight work too so a message is never opened twice
+const plaintextCache = new Map<string, Promise<DecryptedMessage>>();
+
+subscribeVault((unlocked) => {
+  if (!unlocked) plaintextCache.clear();
+});
+
+/* 🔹 **Message Key Storage** */
+
+function historyContext(messageId: string): Uint8Array {
+  return utf8ToBytes(`TetraCryptPQC/history/v1:${messageId}`);
+}
+
+// ✅ Wrap a per-message key for storage alongside the message (requires an unlocked vault)
+export async function wrapMessageKey(messageId: string, messageKey: string): Promise<string> {
+  return encryptMessage(messageKey, getLocalKey(), historyContext(messageId));
+}
+
+async function unwrapMessageKey(messageId: string, wrappedMessageKey: string): Promise<string> {
+  return decryptMessage(wrappedMessageKey, getLocalKey(), historyContext(messageId));
+}
+
+/* 🔹 **Verification** */
+
+function signerPublicKey(message: Message, userId: string): string | undefined {
+  if (message.senderId === userId) {
+    return getUserProfile()?.keyPairs?.signature.publicKey;
+  }
+  // Group members need not be contacts; the group holds the keys its admin announced
+  const group = message.group && getGroups().find((g) => g.id === message.group.groupId);
+  if (group) return groupMemberPublicKey(group, message.senderId, "signature")?.key;
+  const contact = getContacts().find((c) => c.id === message.senderId);
+  return contact ? getContactPublicKey(contact, "signature")?.key : undefined;
+}
+
+async function verifyStoredMessage(
+  message: Message,
+  userId: string
+): Promise<{ envelope?: Envelope; verification: VerificationState }> {
+  // Legacy messages were stored before envelopes and cannot be checked
+  if (message.envelopeVersion === undefined) return { verification: "unverified" };
+
+  const envelope = envelopeFromMessage(message);
+  const publicKey = signerPublicKey(message, userId);
+  if (!publicKey) return { envelope, verification: "unverified" };
+
+  return { envelope, verification: (await verifyEnvelope(envelope, publicKey)) ? "verified" : "failed" };
+}
+
+/* 🔹 **Decryption** */
+
+async function openStoredMessage(message: Message, userId: string, envelope?: Envelope): Promise<string> {
+  const associatedData = envelope ? envelopeAssociatedData(envelope) : undefined;
+
+  if (message.wrappedMessageKey) {
+    const messageKey = await unwrapMessageKey(message.id, message.wrappedMessageKey);
+    return message.group
+      ? openGroupWithMessageKey(message, messageKey, associatedData)
+      : openWithMessageKey(message, messageKey, associatedData);
+  }
+
+  if (message.senderId === userId) {
+    throw new Error("Message key for this sent message was not kept");
+  }
+
+  // First time this message is opened: advance the contact's ratchet (or the member's sender
+  // key) and keep the key
+  const { plaintext, messageKey } = message.group
+    ? await openFromGroup(message, userId, getUnlockedKeyPairs().encryption, associatedData)
+    : await openFromContact(message.senderId, message, getUnlockedKeyPairs().encryption, associatedData);
+  const conversationId = message.group?.groupId ?? message.senderId;
+  const current = getMessagesForContact(conversationId).find((m) => m.id === message.id) ?? message;
+  await addMessage({ ...current, wrappedMessageKey: await wrapMessageKey(message.id, messageKey) });
+  return plaintext;
+}
+
+async function runPipeline(message: Message, userId: string): Promise<DecryptedMessage> {
+  try {
+    const { envelope, verification } = await verifyStoredMessage(message, userId);
+    if (verification === "failed") {
+      console.warn(`❌ Signature verification failed for message ${message.id}`);
+      return { verification, error: "Signature verification failed" };
+    }
+    return { verification, plaintext: await openStoredMessage(message, userId, envelope) };
+  } catch (error) {
+    console.error(`❌ Failed to decrypt message ${message.id}:`, error);
+    return { verification: "failed", error: error instanceof Error ? error.message : "Decryption failed" };
+  }
+}
+
+/**
+ * ✅ Verify and decrypt a stored message, caching the result in memory
+ * @param message - Message as stored locally (sent or received)
+ * @param userId - The local user's id, to tell own messages from incoming ones
+ */
+export function decryptStoredMessage(message: Message, userId: string): Promise<DecryptedMessage> {
+  let result = plaintextCache.get(message.id);
+  if (!result) {
+    result = runPipeline(message, userId);
+    plaintextCache.set(message.id, result);
+  }
+  return result;
+}
+
+// ✅ Seed the cache with plaintext we already hold (e.g. a message we just sent)
+export function cachePlaintext(messageId: string, decrypted: DecryptedMessage): void {
+  plaintextCache.set(messageId, Promise.resolve(decrypted));
+}
@@ -3,7 +3,7 @@ import { poseidonHash } from "@starkware-industries/stark-crypto";
 
 /**
  * ✅ Generate a Secure Post-Quantum Decentralized Identity (DID)
- * Uses NIST PQC-compliant Kyber keypairs and zk-STARK proofs for authentication.
+ * Uses NIST PQC-compliant Kyber keypairs; the DID is a Poseidon fingerprint of the public key.
  * @returns A fully verifiable PQC DID with a StarkNet-compatible address
  */
 export async function generateDID(): Promise<{ id: string; publicKey: string; starknetAddress: string; privateKey: string }> {
@@ -12,14 +12,14 @@ export async function generateDID(): Promise<{ id: string; publicKey: string; st
   // ✅ Step 1: Generate a Post-Quantum Key Pair (Kyber)
   const { publicKey, privateKey } = await generateKyberKeypair();
 
-  // ✅ Step 2: Generate zk-STARK Proof for the DID (Poseidon Hash of Public Key)
-  const zkProof = poseidonHash([BigInt("0x" + publicKey.substring(0, 64))]);
+  // ✅ Step 2: Fingerprint the public key (Poseidon hash; an identifier, not a proof)
+  const fingerprint = poseidonHash([BigInt("0x" + publicKey.substring(0, 64))]);
 
   // ✅ Step 3: Derive a Real StarkNet Address from Kyber Public Key
   const starknetAddress = "0x" + publicKey.substring(0, 64); // First 64 hex chars → valid address
 
   return {
-    id: `did:tetracrypt:${zkProof.toString()}`,
+    id: `did:tetracrypt:${fingerprint.toString()}`,
     publicKey,
     starknetAddress,
     privateKey, // 🔐 Keep Secure!
@@ -27,8 +27,9 @@ export async function generateDID(): Promise<{ id: string; publicKey: string; st
 }
 
 /**
- * ✅ Verify a Decentralized Identity (DID) using zk-STARK Proofs
- * Uses Poseidon Hash to validate if the DID proof matches the public key
+ * ✅ Check that a Decentralized Identity (DID) matches its public key
+ * Recomputes the Poseidon fingerprint; this shows the DID was derived from the key, not that
+ * its holder knows the private key
  * @param did - The DID object containing the ID and publicKey
  * @returns True if the DID is valid, False otherwise
  */
@@ -36,12 +37,12 @@ export function verifyDID(did: { id: string; publicKey: string }): boolean {
   console.log("🔹 Verifying Secure PQC-StarkNet DID...");
 
   try {
-    // Extract zk-STARK proof from the DID ID
-    const proofFromDID = did.id.split(":")[2];
-    const expectedProof = poseidonHash([BigInt("0x" + did.publicKey.substring(0, 64))]);
+    // Extract the fingerprint from the DID ID
+    const fingerprintFromDID = did.id.split(":")[2];
+    const expectedFingerprint = poseidonHash([BigInt("0x" + did.publicKey.substring(0, 64))]);
 
-    // ✅ Compare zk-STARK Proofs (MUST MATCH)
-    return proofFromDID === expectedProof;
+    // ✅ Compare fingerprints (MUST MATCH)
+    return fingerprintFromDID === expectedFingerprint;
   } catch (error) {
     console.error("❌ DID Verification Failed:", error);
     return false;
@@ -0,0 +1,304 @@
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { fingerprintPublicKey, KeyPair, signMessage, verifySignature } from "@/lib/crypto";
+import { algorithms, MessageAlgorithms, resolveMessageAlgorithms } from "@/lib/algorithms";
+import { canonicalJson } from "@/lib/canonical-json";
+import type { RatchetHeader } from "@/lib/ratchet";
+import type { SessionInit } from "@/lib/sessions";
+import type { SenderKeyDistribution, SenderKeyHeader } from "@/lib/sender-keys";
+import type { Message } from "@/lib/storage-types";
+
+/**
+ * ✅ Message Envelope Wire Format
+ * Every message sent or received — over the relay, via IPFS or from local storage — is an
+ * `Envelope`. On the wire it is a version byte followed by deterministic JSON (object keys
+ * sorted, no whitespace, undefined fields dropped), so both sides sign and verify exactly
+ * the same bytes. The envelope metadata is also bound to the ciphertext as AEAD associated
+ * data, and the ratchet header is bound by the ratchet itself. Group messages carry a
+ * sender-key header instead of a ratchet header and are addressed to the group ID.
+ */
+
+export const ENVELOPE_VERSION = 1;
+
+/** What the ciphertext carries; absent means a chat message. */
+export type EnvelopeKind = "receipt" | "group-update" | "group-removal" | "attachment";
+
+const ENVELOPE_KINDS: EnvelopeKind[] = ["receipt", "group-update", "group-removal", "attachment"];
+
+export interface Envelope {
+  version: typeof ENVELOPE_VERSION;
+  id: string;
+  senderId: string;
+  recipientId: string;
+  /** SHA-256 fingerprint of the sender's signature public key. */
+  senderKeyFingerprint: string;
+  /** Milliseconds since the Unix epoch. */
+  timestamp: number;
+  algorithms: Required<MessageAlgorithms>;
+  kind?: EnvelopeKind;
+  /** One-to-one messages: double-ratchet header. */
+  header?: RatchetHeader;
+  sessionInit?: SessionInit;
+  /** Group messages: sender-key header; `recipientId` is the group ID. */
+  group?: SenderKeyHeader;
+  senderKeys?: SenderKeyDistribution[];
+  nonce: string;
+  ciphertext: string;
+  /** Algorithm-tagged signature over `encodeEnvelope` of every other field. */
+  signature: string;
+}
+
+export type UnsignedEnvelope = Omit<Envelope, "signature">;
+
+/** Fields bound to the ciphertext as associated data; known before encryption. */
+export type EnvelopeMetadata = Pick<
+  Envelope,
+  "version" | "id" | "senderId" | "recipientId" | "senderKeyFingerprint" | "timestamp" | "algorithms" | "kind"
+>;
+
+/* 🔹 **Canonical Encoding** */
+
+function encodeVersioned(value: unknown): Uint8Array {
+  return concatBytes(new Uint8Array([ENVELOPE_VERSION]), utf8ToBytes(canonicalJson(value)));
+}
+
+/** ✅ Wire encoding: `version byte || canonical JSON` */
+export function encodeEnvelope(envelope: Envelope | UnsignedEnvelope): Uint8Array {
+  return encodeVersioned(envelope);
+}
+
+/** ✅ Decode and validate wire bytes; throws on unknown versions or malformed envelopes */
+export function decodeEnvelope(bytes: Uint8Array): Envelope {
+  if (bytes.length < 2) throw new Error("Invalid envelope: too short");
+  if (bytes[0] !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version: ${bytes[0]}`);
+  const value: unknown = JSON.parse(new TextDecoder().decode(bytes.subarray(1)));
+  return validateEnvelope(value);
+}
+
+// ✅ Hex form for text transports (WebSocket frames, IPFS payloads)
+export function serializeEnvelope(envelope: Envelope): string {
+  return bytesToHex(encodeEnvelope(envelope));
+}
+
+export function deserializeEnvelope(hex: string): Envelope {
+  return decodeEnvelope(hexToBytes(hex));
+}
+
+/** AEAD associated data for an envelope's ciphertext. */
+export function envelopeAssociatedData(metadata: EnvelopeMetadata): Uint8Array {
+  const { version, id, senderId, recipientId, senderKeyFingerprint, timestamp, algorithms, kind } = metadata;
+  return encodeVersioned({ version, id, senderId, recipientId, senderKeyFingerprint, timestamp, algorithms, kind });
+}
+
+/* 🔹 **Validation** */
+
+const HEX_PATTERN = /^(?:[0-9a-f]{2})*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function expectString(value: unknown, field: string, hex = false): string {
+  if (typeof value !== "string" || value.length === 0 || (hex && !HEX_PATTERN.test(value))) {
+    throw new Error(`Invalid envelope: ${field} must be a non-empty ${hex ? "hex " : ""}string`);
+  }
+  return value;
+}
+
+function expectCount(value: unknown, field: string): number {
+  if (!Number.isSafeInteger(value) || (value as number) < 0) {
+    throw new Error(`Invalid envelope: ${field} must be a non-negative integer`);
+  }
+  return value as number;
+}
+
+function validateHeader(value: unknown): RatchetHeader {
+  if (!isObject(value)) throw new Error("Invalid envelope: header must be an object");
+  return {
+    kemPublicKey: expectString(value.kemPublicKey, "header.kemPublicKey", true),
+    kemCiphertext:
+      value.kemCiphertext === undefined ? undefined : expectString(value.kemCiphertext, "header.kemCiphertext", true),
+    kemTarget: value.kemTarget === undefined ? undefined : expectString(value.kemTarget, "header.kemTarget", true),
+    previousChainLength: expectCount(value.previousChainLength, "header.previousChainLength"),
+    messageNumber: expectCount(value.messageNumber, "header.messageNumber"),
+  };
+}
+
+function validateSessionInit(value: unknown): SessionInit | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) throw new Error("Invalid envelope: sessionInit must be an object");
+  const init: SessionInit = {
+    algorithm: expectString(value.algorithm, "sessionInit.algorithm"),
+    kemCiphertext: expectString(value.kemCiphertext, "sessionInit.kemCiphertext", true),
+  };
+  if (value.prekeys !== undefined) {
+    const prekeys = value.prekeys;
+    if (!isObject(prekeys)) throw new Error("Invalid envelope: sessionInit.prekeys must be an object");
+    init.prekeys = {
+      signedPrekeyId: expectCount(prekeys.signedPrekeyId, "sessionInit.prekeys.signedPrekeyId"),
+      oneTimePrekeyId:
+        prekeys.oneTimePrekeyId === undefined
+          ? undefined
+          : expectCount(prekeys.oneTimePrekeyId, "sessionInit.prekeys.oneTimePrekeyId"),
+      identityCiphertext: expectString(prekeys.identityCiphertext, "sessionInit.prekeys.identityCiphertext", true),
+      signedPrekeyCiphertext: expectString(prekeys.signedPrekeyCiphertext, "sessionInit.prekeys.signedPrekeyCiphertext", true),
+      oneTimePrekeyCiphertext:
+        prekeys.oneTimePrekeyCiphertext === undefined
+          ? undefined
+          : expectString(prekeys.oneTimePrekeyCiphertext, "sessionInit.prekeys.oneTimePrekeyCiphertext", true),
+    };
+  }
+  return init;
+}
+
+function validateAlgorithms(value: unknown): Required<MessageAlgorithms> {
+  if (!isObject(value)) throw new Error("Invalid envelope: algorithms must be an object");
+  const kem = expectString(value.kem, "algorithms.kem");
+  const signature = expectString(value.signature, "algorithms.signature");
+  const aead = expectString(value.aead, "algorithms.aead");
+  algorithms.require(kem, "kem");
+  algorithms.require(signature, "signature");
+  algorithms.require(aead, "aead");
+  return { kem, signature, aead };
+}
+
+function validateKind(value: unknown): EnvelopeKind | undefined {
+  if (value === undefined) return undefined;
+  const kind = ENVELOPE_KINDS.find((known) => known === value);
+  if (!kind) throw new Error(`Invalid envelope: unknown kind ${String(value)}`);
+  return kind;
+}
+
+function validateGroupHeader(value: unknown): SenderKeyHeader | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) throw new Error("Invalid envelope: group must be an object");
+  return {
+    groupId: expectString(value.groupId, "group.groupId"),
+    epoch: expectCount(value.epoch, "group.epoch"),
+    iteration: expectCount(value.iteration, "group.iteration"),
+  };
+}
+
+function validateSenderKeys(value: unknown): SenderKeyDistribution[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new Error("Invalid envelope: senderKeys must be an array");
+  return value.map((entry, i) => {
+    if (!isObject(entry)) throw new Error(`Invalid envelope: senderKeys[${i}] must be an object`);
+    return {
+      recipientId: expectString(entry.recipientId, `senderKeys[${i}].recipientId`),
+      kemCiphertext: expectString(entry.kemCiphertext, `senderKeys[${i}].kemCiphertext`, true),
+      wrappedChainKey: expectString(entry.wrappedChainKey, `senderKeys[${i}].wrappedChainKey`),
+    };
+  });
+}
+
+/**
+ * ✅ Check that an untrusted value is a well-formed envelope
+ * Unknown fields are dropped, so the result re-encodes to the bytes that were signed only
+ * if the sender did not add any.
+ */
+export function validateEnvelope(value: unknown): Envelope {
+  if (!isObject(value)) throw new Error("Invalid envelope: expected an object");
+  if (value.version !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version: ${String(value.version)}`);
+  if ((value.header === undefined) === (value.group === undefined)) {
+    throw new Error("Invalid envelope: expected exactly one of header and group");
+  }
+  return {
+    version: ENVELOPE_VERSION,
+    id: expectString(value.id, "id"),
+    senderId: expectString(value.senderId, "senderId"),
+    recipientId: expectString(value.recipientId, "recipientId"),
+    senderKeyFingerprint: expectString(value.senderKeyFingerprint, "senderKeyFingerprint", true),
+    timestamp: expectCount(value.timestamp, "timestamp"),
+    algorithms: validateAlgorithms(value.algorithms),
+    kind: validateKind(value.kind),
+    header: value.header === undefined ? undefined : validateHeader(value.header),
+    sessionInit: validateSessionInit(value.sessionInit),
+    group: validateGroupHeader(value.group),
+    senderKeys: validateSenderKeys(value.senderKeys),
+    nonce: expectString(value.nonce, "nonce", true),
+    ciphertext: expectString(value.ciphertext, "ciphertext", true),
+    signature: expectString(value.signature, "signature"),
+  };
+}
+
+/* 🔹 **Signing** */
+
+function signedPayload(envelope: UnsignedEnvelope): string {
+  return bytesToHex(encodeEnvelope(envelope));
+}
+
+/** ✅ Sign an envelope with the sender's post-quantum signature key */
+export async function signEnvelope(envelope: UnsignedEnvelope, signingKey: KeyPair): Promise<Envelope> {
+  if (envelope.senderKeyFingerprint !== fingerprintPublicKey(signingKey.publicKey)) {
+    throw new Error("Envelope sender fingerprint does not match the signing key");
+  }
+  const signature = await signMessage(signedPayload(envelope), signingKey.privateKey, signingKey.algorithm);
+  return { ...envelope, signature };
+}
+
+/**
+ * ✅ Verify an envelope against the sender's signature public key
+ * @returns False if the key does not match the fingerprint or the signature is invalid
+ */
+export async function verifyEnvelope(envelope: Envelope, senderPublicKey: string): Promise<boolean> {
+  if (envelope.senderKeyFingerprint !== fingerprintPublicKey(senderPublicKey)) return false;
+  if (!envelope.signature.startsWith(`${algorithms.resolve(envelope.algorithms.signature)}:`)) return false;
+  const { signature, ...unsigned } = envelope;
+  return verifySignature(signedPayload(unsigned), signature, senderPublicKey);
+}
+
+/* 🔹 **Stored Message Mapping** */
+
+/** Split `<aead>:<nonce>:<ciphertext>` as produced by `encryptMessageWith`. */
+export function splitSealedContent(encryptedContent: string): Pick<Envelope, "nonce" | "ciphertext"> {
+  const [, nonce, ciphertext] = encryptedContent.split(":");
+  if (!nonce || !ciphertext) throw new Error("Malformed encrypted content");
+  return { nonce, ciphertext };
+}
+
+export function sealedContent(envelope: Pick<Envelope, "algorithms" | "nonce" | "ciphertext">): string {
+  return `${envelope.algorithms.aead}:${envelope.nonce}:${envelope.ciphertext}`;
+}
+
+/** ✅ Persisted form of an envelope; `envelopeFromMessage` reverses it exactly. */
+export function messageFromEnvelope(envelope: Envelope, status: Message["status"]): Message {
+  return {
+    id: envelope.id,
+    senderId: envelope.senderId,
+    receiverId: envelope.recipientId,
+    encryptedContent: sealedContent(envelope),
+    timestamp: new Date(envelope.timestamp).toISOString(),
+    signature: envelope.signature,
+    status,
+    kind: envelope.kind,
+    header: envelope.header,
+    sessionInit: envelope.sessionInit,
+    group: envelope.group,
+    senderKeys: envelope.senderKeys,
+    algorithms: envelope.algorithms,
+    envelopeVersion: envelope.version,
+    senderKeyFingerprint: envelope.senderKeyFingerprint,
+  };
+}
+
+export function envelopeFromMessage(message: Message): Envelope {
+  if (message.envelopeVersion !== ENVELOPE_VERSION || !(message.header || message.group) || !message.signature) {
+    throw new Error("Message was not stored from a versioned envelope");
+  }
+  return validateEnvelope({
+    version: message.envelopeVersion,
+    id: message.id,
+    senderId: message.senderId,
+    recipientId: message.receiverId,
+    senderKeyFingerprint: message.senderKeyFingerprint,
+    timestamp: Date.parse(message.timestamp),
+    algorithms: resolveMessageAlgorithms(message),
+    kind: message.kind,
+    header: message.header,
+    sessionInit: message.sessionInit,
+    group: message.group,
+    senderKeys: message.senderKeys,
+    ...splitSealedContent(message.encryptedContent),
+    signature: message.signature,
+  });
+}
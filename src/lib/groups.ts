@@ -0,0 +1,381 @@
+import { fingerprintPublicKey, HYBRID_KEM_ALGORITHM, KeyPair } from "@/lib/crypto";
+import { DEFAULT_ALGORITHMS, getContactPublicKey, TaggedPublicKey } from "@/lib/algorithms";
+import {
+  Envelope,
+  ENVELOPE_VERSION,
+  EnvelopeKind,
+  envelopeAssociatedData,
+  EnvelopeMetadata,
+  sealedContent,
+  signEnvelope,
+  splitSealedContent,
+} from "@/lib/envelope";
+import { MAX_GROUP_RECIPIENTS } from "@/lib/relay-protocol";
+import { deleteSenderKeys, openFromGroup, sealForGroup, SenderKeyHeader } from "@/lib/sender-keys";
+import { openFromContact } from "@/lib/sessions";
+import { Contact, getContacts, getGroups, getMessagesForContact, Group, saveGroup, UserProfile } from "@/lib/storage";
+import type { GroupMember } from "@/lib/storage-types";
+import { getUnlockedKeyPairs } from "@/lib/vault";
+
+/**
+ * ✅ Group Conversations
+ * A group is a member list kept by its admin (the creator). Group messages are sealed once
+ * under the sender's sender key (`@/lib/sender-keys`), signed like any envelope, and fanned
+ * out by the relay to every other member. Membership changes are group messages too
+ * (`kind: "group-update"`), sent by the admin under the new epoch: every member's next
+ * message then uses a fresh sender key, wrapped only for the new member list. Removed
+ * members are told through their one-to-one session (`kind: "group-removal"`).
+ */
+
+/** The local user plus everyone the relay fans a message out to. */
+export const MAX_GROUP_MEMBERS = MAX_GROUP_RECIPIENTS + 1;
+
+export type GroupMemberRef = Pick<GroupMember, "id" | "name">;
+
+/** Plaintext of a `group-update` message: the complete new group state. */
+export interface GroupUpdate {
+  name: string;
+  adminId: string;
+  epoch: number;
+  members: GroupMember[];
+  added: GroupMemberRef[];
+  removed: GroupMemberRef[];
+}
+
+/** Plaintext of a `group-removal` message. */
+export interface GroupRemoval {
+  groupId: string;
+  epoch: number;
+}
+
+export interface GroupEnvelopeOptions {
+  kind?: EnvelopeKind;
+  aead?: string;
+  /** Settings → Hybrid Encryption, for wrapping sender keys. */
+  hybrid?: boolean;
+}
+
+/* 🔹 **Members** */
+
+export function isGroup(conversation: Contact | Group): conversation is Group {
+  return "members" in conversation;
+}
+
+export function isGroupMember(group: Group, userId: string): boolean {
+  return group.members.some((member) => member.id === userId);
+}
+
+// ✅ A member's key: the one stored for them as a contact if any, else the admin's announcement
+export function groupMemberPublicKey(
+  group: Group,
+  memberId: string,
+  purpose: "encryption" | "signature"
+): TaggedPublicKey | undefined {
+  const contact = getContacts().find((c) => c.id === memberId);
+  const contactKey = contact && getContactPublicKey(contact, purpose);
+  return contactKey ?? group.members.find((member) => member.id === memberId)?.publicKeys[purpose];
+}
+
+export function groupMemberName(group: Group, memberId: string): string {
+  const contact = getContacts().find((c) => c.id === memberId);
+  return contact?.name ?? group.members.find((member) => member.id === memberId)?.name ?? "Unknown member";
+}
+
+function memberFromContact(contact: Contact): GroupMember {
+  const encryption = getContactPublicKey(contact, "encryption");
+  const signature = getContactPublicKey(contact, "signature");
+  if (encryption?.algorithm !== HYBRID_KEM_ALGORITHM || !signature) {
+    throw new Error(`${contact.name} has no ${HYBRID_KEM_ALGORITHM} and signature keys to share with the group`);
+  }
+  return { id: contact.id, name: contact.name, publicKeys: { encryption, signature } };
+}
+
+function memberFromProfile(profile: UserProfile): GroupMember {
+  if (!profile.keyPairs) throw new Error("Profile has no keys");
+  const { encryption, signature } = profile.keyPairs;
+  return {
+    id: profile.id,
+    name: profile.name,
+    publicKeys: {
+      encryption: { algorithm: encryption.algorithm, key: encryption.publicKey },
+      signature: { algorithm: signature.algorithm, key: signature.publicKey },
+    },
+  };
+}
+
+/* 🔹 **Membership Changes** */
+
+/**
+ * ✅ Next state of a group (or a new one) with the given members, run by the admin
+ * @param memberIds - Everyone except the admin; contacts, or members already in the group
+ * @returns The group at its next epoch and the `group-update` announcing it
+ */
+export function nextGroupState(
+  previous: Group | undefined,
+  name: string,
+  admin: UserProfile,
+  memberIds: string[]
+): { group: Group; update: GroupUpdate } {
+  if (previous && previous.adminId !== admin.id) throw new Error("Only the group admin can change members");
+  const ids = [...new Set(memberIds)].filter((id) => id !== admin.id);
+  if (ids.length === 0) throw new Error("A group needs at least one other member");
+  if (ids.length + 1 > MAX_GROUP_MEMBERS) throw new Error(`Groups are limited to ${MAX_GROUP_MEMBERS} members`);
+
+  const members = [
+    memberFromProfile(admin),
+    ...ids.map((id) => {
+      const contact = getContacts().find((c) => c.id === id);
+      const existing = previous?.members.find((member) => member.id === id);
+      if (contact) return memberFromContact(contact);
+      if (existing) return existing;
+      throw new Error(`Unknown contact ${id}`);
+    }),
+  ];
+  const before = previous?.members ?? [];
+  const group: Group = {
+    id: previous?.id ?? crypto.randomUUID(),
+    name: name.trim(),
+    adminId: admin.id,
+    epoch: previous ? previous.epoch + 1 : 0,
+    members,
+    unreadCount: previous?.unreadCount ?? 0,
+    lastMessageTime: previous?.lastMessageTime,
+  };
+  const ref = ({ id, name }: GroupMember): GroupMemberRef => ({ id, name });
+  return {
+    group,
+    update: {
+      name: group.name,
+      adminId: group.adminId,
+      epoch: group.epoch,
+      members,
+      added: members.filter((member) => !before.some((m) => m.id === member.id) && member.id !== admin.id).map(ref),
+      removed: before.filter((member) => !members.some((m) => m.id === member.id)).map(ref),
+    },
+  };
+}
+
+// ✅ Save a group at a new epoch and drop sender keys older than the one before it
+export function storeGroupEpoch(group: Group): Promise<void> {
+  deleteSenderKeys(group.id, group.epoch - 1);
+  return saveGroup(group);
+}
+
+/* 🔹 **Incoming Messages** */
+
+/**
+ * ✅ Whether an envelope may be posted to a group
+ * Updates must come from the admin and move the epoch forward; anything else must come
+ * from a current member. Messages from the previous epoch are still accepted, since members
+ * only switch once the admin's update reaches them.
+ */
+export function acceptsGroupEnvelope(group: Group | undefined, userId: string, envelope: Envelope): boolean {
+  const header = envelope.group;
+  if (!header) return false;
+  if (envelope.kind === "group-update") {
+    return !group || (envelope.senderId === group.adminId && header.epoch > group.epoch);
+  }
+  if (!group || !isGroupMember(group, userId) || !isGroupMember(group, envelope.senderId)) return false;
+  return header.epoch === group.epoch || header.epoch === group.epoch - 1;
+}
+
+function expectMembers(value: unknown): GroupMember[] {
+  if (!Array.isArray(value)) throw new Error("Malformed group update");
+  return value.map((member) => {
+    const { id, name, publicKeys } = member ?? {};
+    if (typeof id !== "string" || typeof name !== "string" || !publicKeys?.encryption || !publicKeys?.signature) {
+      throw new Error("Malformed group update");
+    }
+    return { id, name, publicKeys: { encryption: publicKeys.encryption, signature: publicKeys.signature } };
+  });
+}
+
+function expectRefs(value: unknown): GroupMemberRef[] {
+  if (!Array.isArray(value) || !value.every((ref) => typeof ref?.id === "string" && typeof ref?.name === "string")) {
+    throw new Error("Malformed group update");
+  }
+  return value.map(({ id, name }) => ({ id, name }));
+}
+
+export function parseGroupUpdate(plaintext: string): GroupUpdate {
+  const value = JSON.parse(plaintext);
+  if (typeof value?.name !== "string" || typeof value.adminId !== "string" || !Number.isSafeInteger(value.epoch)) {
+    throw new Error("Malformed group update");
+  }
+  return {
+    name: value.name,
+    adminId: value.adminId,
+    epoch: value.epoch,
+    members: expectMembers(value.members),
+    added: expectRefs(value.added),
+    removed: expectRefs(value.removed),
+  };
+}
+
+/**
+ * ✅ Group state after an admin's update
+ * @param header - Sender-key header of the update's envelope, which must match its epoch
+ * @throws If the update is not consistent with the envelope or with the stored group
+ */
+export function acceptGroupUpdate(
+  existing: Group | undefined,
+  header: SenderKeyHeader,
+  senderId: string,
+  userId: string,
+  update: GroupUpdate
+): Group {
+  if (update.epoch !== header.epoch || update.adminId !== senderId) {
+    throw new Error("Group update does not match its envelope");
+  }
+  if (!update.members.some((member) => member.id === senderId)) throw new Error("Group admin is not a member");
+  if (existing && (existing.adminId !== senderId || update.epoch <= existing.epoch)) {
+    throw new Error("Group update is not from the admin or is out of date");
+  }
+  if (!existing && !update.members.some((member) => member.id === userId)) {
+    throw new Error("Invited to a group we are not a member of");
+  }
+
+  return {
+    id: header.groupId,
+    name: update.name,
+    adminId: update.adminId,
+    epoch: update.epoch,
+    members: update.members,
+    // The invitation itself arrived before the group existed, so it was not counted
+    unreadCount: existing ? existing.unreadCount : 1,
+    lastMessage: existing?.lastMessage,
+    lastMessageTime: existing?.lastMessageTime,
+  };
+}
+
+/**
+ * ✅ Decrypt and check a verified `group-update` envelope before anything of it is stored
+ * @param existing - The stored group, if any
+ * @returns The group state it leads to, plus the plaintext and message key to keep with the message
+ * @throws If it cannot be decrypted or is not a valid update (see `acceptGroupUpdate`)
+ */
+export async function openGroupUpdate(
+  envelope: Envelope,
+  existing: Group | undefined,
+  userId: string
+): Promise<{ group: Group; plaintext: string; messageKey: string }> {
+  if (envelope.kind !== "group-update" || !envelope.group) throw new Error("Envelope is not a group update");
+  const { plaintext, messageKey } = await openFromGroup(
+    {
+      senderId: envelope.senderId,
+      encryptedContent: sealedContent(envelope),
+      group: envelope.group,
+      senderKeys: envelope.senderKeys,
+    },
+    userId,
+    getUnlockedKeyPairs().encryption,
+    envelopeAssociatedData(envelope)
+  );
+  const group = acceptGroupUpdate(existing, envelope.group, envelope.senderId, userId, parseGroupUpdate(plaintext));
+  return { group, plaintext, messageKey };
+}
+
+/**
+ * ✅ Decrypt a verified `group-removal` notice through the admin's one-to-one session
+ * @param envelope - Must already be signature-checked against the sender's key
+ */
+export async function openGroupRemoval(envelope: Envelope): Promise<GroupRemoval> {
+  if (envelope.kind !== "group-removal") throw new Error("Envelope is not a group removal");
+  const { plaintext } = await openFromContact(
+    envelope.senderId,
+    {
+      senderId: envelope.senderId,
+      receiverId: envelope.recipientId,
+      encryptedContent: sealedContent(envelope),
+      header: envelope.header,
+      sessionInit: envelope.sessionInit,
+    },
+    getUnlockedKeyPairs().encryption,
+    envelopeAssociatedData(envelope)
+  );
+
+  const removal = JSON.parse(plaintext) as GroupRemoval;
+  if (typeof removal.groupId !== "string" || !Number.isSafeInteger(removal.epoch)) {
+    throw new Error("Malformed group removal");
+  }
+  return removal;
+}
+
+// ✅ Leave a group after the admin removed us; its history stays readable but it becomes read-only
+export function applyGroupRemoval(senderId: string, userId: string, removal: GroupRemoval): Group | null {
+  const group = getGroups().find((g) => g.id === removal.groupId);
+  if (!group || group.adminId !== senderId || removal.epoch <= group.epoch) return null;
+
+  const left = { ...group, epoch: removal.epoch, members: group.members.filter((member) => member.id !== userId) };
+  deleteSenderKeys(group.id);
+  saveGroup(left);
+  return left;
+}
+
+// ✅ One-line summary of a membership change, for the conversation view
+export function describeGroupUpdate(update: GroupUpdate, userId: string): string {
+  const name = (ref: GroupMemberRef) => (ref.id === userId ? "you" : ref.name);
+  const admin = update.members.find((member) => member.id === update.adminId);
+  const actor = update.adminId === userId ? "You" : admin?.name ?? "The admin";
+  if (update.epoch === 0) return `${actor} created the group "${update.name}"`;
+
+  const changes = [
+    update.added.length ? `added ${update.added.map(name).join(", ")}` : "",
+    update.removed.length ? `removed ${update.removed.map(name).join(", ")}` : "",
+  ].filter(Boolean);
+  return `${actor} ${changes.join(" and ") || "updated the group"}`;
+}
+
+/* 🔹 **Sending** */
+
+/**
+ * ✅ Seal a payload under the sender's key for the group's current epoch and sign it
+ * @param signingKey - The sender's unlocked signature key pair
+ * @returns The signed envelope, the per-message key (for the sender's own history) and the
+ *   members the relay should fan it out to
+ */
+export async function sealGroupEnvelope(
+  group: Group,
+  senderId: string,
+  plaintext: string,
+  signingKey: KeyPair,
+  { kind, aead = DEFAULT_ALGORITHMS.aead, hybrid = true }: GroupEnvelopeOptions = {}
+): Promise<{ envelope: Envelope; messageKey: string; recipients: string[] }> {
+  if (!isGroupMember(group, senderId)) throw new Error("You are not a member of this group");
+
+  const recipients = group.members.filter((member) => member.id !== senderId);
+  const metadata: EnvelopeMetadata = {
+    version: ENVELOPE_VERSION,
+    id: crypto.randomUUID(),
+    senderId,
+    recipientId: group.id,
+    senderKeyFingerprint: fingerprintPublicKey(signingKey.publicKey),
+    timestamp: Date.now(),
+    algorithms: { kem: hybrid ? HYBRID_KEM_ALGORITHM : "ML-KEM-1024", signature: signingKey.algorithm, aead },
+    kind,
+  };
+
+  const { encryptedContent, header, senderKeys, messageKey } = await sealForGroup(
+    group.id,
+    group.epoch,
+    senderId,
+    metadata.id,
+    recipients.map((member) => ({ id: member.id, encryptionKey: groupMemberPublicKey(group, member.id, "encryption") })),
+    plaintext,
+    {
+      aead,
+      hybrid,
+      associatedData: envelopeAssociatedData(metadata),
+      // Once the relay accepted a message carrying our key, it is queued for every member
+      isDelivered: (ids) =>
+        getMessagesForContact(group.id).some(
+          (message) => ids.includes(message.id) && message.status !== "pending" && message.status !== "failed"
+        ),
+    }
+  );
+  const envelope = await signEnvelope(
+    { ...metadata, group: header, senderKeys, ...splitSealedContent(encryptedContent) },
+    signingKey
+  );
+  return { envelope, messageKey, recipients: recipients.map((member) => member.id) };
+}
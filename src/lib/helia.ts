@@ -1,79 +1,146 @@
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react-swc";
-import wasm from "vite-plugin-wasm";  // Official WebAssembly support
-import topLevelAwait from "vite-plugin-top-level-await"; // Enables async WebAssembly
-import path from "path";
-import { createHelia } from "helia"; // IPFS Helia integration
-
-export default defineConfig(({ mode }) => {
-  const plugins = [
-    react(), // Optimized React rendering with SWC
-    wasm(), // Ensures WebAssembly ESM compatibility
-    topLevelAwait(), // Enables async/await WebAssembly support
-  ];
-
-  // Conditionally include viteInspect if installed
-  try {
-    const viteInspect = require("vite-plugin-inspect");
-    if (viteInspect) plugins.push(viteInspect.default());
-  } catch (e) {
-    console.warn("vite-plugin-inspect not installed, skipping...");
+import { createHelia, type Helia } from "helia";
+import { unixfs } from "@helia/unixfs";
+import { IDBBlockstore } from "blockstore-idb";
+import { IDBDatastore } from "datastore-idb";
+import { MemoryBlockstore } from "blockstore-core";
+import { MemoryDatastore } from "datastore-core";
+import { CID } from "multiformats/cid";
+import drain from "it-drain";
+import { concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+/**
+ * ✅ Content-Addressed Storage (IPFS via Helia)
+ * Blocks and pins are persisted in IndexedDB, so stored content survives a reload. Content
+ * stays until nothing references it: stored messages record the CIDs they depend on
+ * (`retainCID`), referenced CIDs are pinned, and `collectGarbage` unpins anything no message
+ * references any more before deleting every unpinned block. Messages are never deleted one
+ * by one, so references are only dropped all at once: signing out clears them with the rest
+ * of local storage (`clearAllData`), and the next `collectGarbage` removes every block.
+ */
+
+export const BLOCKSTORE_NAME = "tetracrypt-blocks";
+export const DATASTORE_NAME = "tetracrypt-datastore";
+const REFERENCES_STORAGE_KEY = "tetracrypt.ipfs.references";
+
+export interface GarbageCollectionResult {
+  /** CIDs unpinned because no stored message referenced them. */
+  unpinned: string[];
+}
+
+let heliaInstance: Promise<Helia> | null = null;
+
+async function createStores() {
+  // IndexedDB is missing outside the browser (e.g. SSR); fall back to memory there
+  if (typeof indexedDB === "undefined") {
+    console.warn("⚠️ IndexedDB unavailable, IPFS blocks will not persist");
+    return { blockstore: new MemoryBlockstore(), datastore: new MemoryDatastore() };
+  }
+  const blockstore = new IDBBlockstore(BLOCKSTORE_NAME);
+  const datastore = new IDBDatastore(DATASTORE_NAME);
+  await Promise.all([blockstore.open(), datastore.open()]);
+  return { blockstore, datastore };
+}
+
+// ✅ Shared Helia node, created on first use
+export function getHeliaInstance(): Promise<Helia> {
+  if (!heliaInstance) {
+    heliaInstance = createStores().then((stores) => createHelia(stores));
+    heliaInstance.catch(() => (heliaInstance = null));
+  }
+  return heliaInstance;
+}
+
+// ✅ Stop the node (e.g. on sign-out); the next call to `getHeliaInstance` starts a new one
+export async function stopHelia(): Promise<void> {
+  const running = heliaInstance;
+  heliaInstance = null;
+  await (await running)?.stop();
+}
+
+/* 🔹 **Content** */
+
+/**
+ * ✅ Add content to IPFS
+ * @param data - Raw bytes (e.g. an encrypted attachment), or text which is stored UTF-8 encoded
+ * @returns The CID of the stored content
+ */
+export async function addFileToIPFS(data: Uint8Array | string): Promise<string> {
+  const helia = await getHeliaInstance();
+  const cid = await unixfs(helia).addBytes(typeof data === "string" ? utf8ToBytes(data) : data);
+  return cid.toString(); // Returns the CID
+}
+
+// ✅ Fetch content from IPFS as raw bytes; decode with `TextDecoder` for text
+export async function getFileFromIPFS(cid: string): Promise<Uint8Array> {
+  const helia = await getHeliaInstance();
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of unixfs(helia).cat(CID.parse(cid))) {
+    chunks.push(chunk);
+  }
+  return concatBytes(...chunks);
+}
+
+/* 🔹 **Pinning** */
+
+// ✅ Pin a CID and everything it links to, fetching missing blocks; a no-op if already pinned
+export async function pinCID(cid: string): Promise<void> {
+  const helia = await getHeliaInstance();
+  const parsed = CID.parse(cid);
+  if (await helia.pins.isPinned(parsed)) return;
+  await drain(helia.pins.add(parsed));
+}
+
+// ✅ Unpin a CID; its blocks are deleted by the next `collectGarbage` unless pinned elsewhere
+export async function unpinCID(cid: string): Promise<void> {
+  const helia = await getHeliaInstance();
+  const parsed = CID.parse(cid);
+  if (!(await helia.pins.isPinned(parsed))) return;
+  await drain(helia.pins.rm(parsed));
+}
+
+/* 🔹 **Message References** */
+
+function loadReferences(): Record<string, string[]> {
+  const raw = localStorage.getItem(REFERENCES_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as Record<string, string[]>) : {};
+}
+
+function saveReferences(references: Record<string, string[]>): void {
+  localStorage.setItem(REFERENCES_STORAGE_KEY, JSON.stringify(references));
+}
+
+// ✅ CIDs referenced by at least one stored message
+export function getReferencedCIDs(): string[] {
+  return Object.keys(loadReferences());
+}
+
+/**
+ * ✅ Record that a stored message depends on a CID, and pin it
+ * Pinning fetches the content if it is not stored locally yet.
+ */
+export async function retainCID(cid: string, messageId: string): Promise<void> {
+  const references = loadReferences();
+  if (!references[cid]?.includes(messageId)) {
+    references[cid] = [...(references[cid] ?? []), messageId];
+    saveReferences(references);
+  }
+  await pinCID(cid);
+}
+
+// ✅ Unpin every CID no stored message references, then delete all unpinned blocks
+export async function collectGarbage(): Promise<GarbageCollectionResult> {
+  console.log("🔹 Collecting unreferenced IPFS blocks...");
+  const helia = await getHeliaInstance();
+  const referenced = new Set(getReferencedCIDs());
+
+  const unpinned: string[] = [];
+  for await (const pin of helia.pins.ls()) {
+    const cid = pin.cid.toString();
+    if (!referenced.has(cid)) unpinned.push(cid);
   }
+  for (const cid of unpinned) await unpinCID(cid);
 
-  return {
-    server: {
-      host: "0.0.0.0", // Allows external access (securely)
-      port: 8080,
-      strictPort: true, // Ensures no fallback ports
-      https: true, // Enforces TLS encryption during local development
-      headers: {
-        "Strict-Transport-Security": "max-age=63072000; includeSubDomains; preload",
-        "X-Content-Type-Options": "nosniff",
-        "X-Frame-Options": "DENY",
-        "X-XSS-Protection": "1; mode=block",
-      },
-    },
-    plugins,
-    resolve: {
-      alias: {
-        "@": path.resolve(__dirname, "./src"),
-      },
-    },
-    optimizeDeps: {
-      exclude: ["@syntect/wasm", "helia"], // Ensure Helia is optimized separately
-      esbuildOptions: {
-        target: "esnext", // Ensures support for latest JavaScript features
-        supported: {
-          bigint: true, // Enables BigInt support for cryptographic ops
-          wasm: true, // Enables direct WebAssembly imports
-        },
-      },
-    },
-    build: {
-      target: "esnext",
-      outDir: "dist",
-      sourcemap: true,
-      minify: "terser", // Highly secure minification
-      rollupOptions: {
-        external: ["@radix-ui/react-tooltip", "helia"], // Ensure Helia is treated as an external module
-        output: {
-          manualChunks: {
-            vendor: ["ethers", "starknet", "helia"], // Splits Web3 and IPFS dependencies
-          },
-        },
-      },
-      chunkSizeWarningLimit: 1500, // Avoid warnings for large cryptographic modules
-    },
-    worker: {
-      format: "es", // Ensures compatibility with modern ES module workers
-      plugins: [
-        wasm(),
-        topLevelAwait(),
-      ],
-    },
-    define: {
-      global: "globalThis", // Ensures compatibility across all JS environments
-      "process.env": {}, // Prevents environment variable leakage
-    },
-  };
-});
+  await helia.gc();
+  console.log(`✅ Garbage collection complete, ${unpinned.length} unreferenced item(s) removed`);
+  return { unpinned };
+}
@@ -1,76 +0,0 @@
-import { Account, RpcProvider, hash, ec, Signature } from "starknet";
-
-/**
- * ✅ Initialize StarkNet Provider (Mainnet/Testnet)
- */
-const provider = new RpcProvider({
-  rpc: { nodeUrl: "https://starknet-mainnet.infura.io/v3/YOUR_INFURA_PROJECT_ID" },
-});
-
-/**
- * ✅ Generate a Quantum-Resistant StarkNet Identity
- * - Uses a 32-byte Secure Random Private Key
- * - Derives StarkNet Public Key using Poseidon Hash
- * - Generates an Account instance with StarkNet Curve
- */
-export async function generateStarkNetIdentity(): Promise<{ starkKey: string; starkAddress: string; zkProof: string }> {
-  console.log("🔹 Generating StarkNet Identity...");
-
-  // ✅ Secure Private Key Generation (Quantum-Safe)
-  const privateKey = ec.starkCurve.generationKey();
-  const starkPublicKey = ec.getStarkKey(privateKey);
-
-  // ✅ Generate zk-STARK Proof (Identity Validation)
-  const zkProof = hash.computePedersenHash(starkPublicKey);
-
-  // ✅ Initialize StarkNet Account
-  const account = new Account(provider, starkPublicKey, ec.starkCurve);
-
-  console.log(`✅ StarkNet Identity Created: ${account.address}`);
-
-  return {
-    starkKey: starkPublicKey,
-    starkAddress: account.address,
-    zkProof,
-  };
-}
-
-/**
- * ✅ Sign a Message Using StarkNet Identity
- * - Uses Keccak Hashing for Security
- * - Implements zk-STARK Digital Signature Validation
- */
-export async function signWithStarkNet(message: string, privateKey: string): Promise<Signature> {
-  console.log("🔹 Signing message with StarkNet...");
-
-  // ✅ Create Account Instance
-  const account = new Account(provider, privateKey, ec.starkCurve);
-
-  // ✅ Hash the message before signing (Prevents Replay Attacks)
-  const messageHash = hash.starknetKeccak(message);
-
-  // ✅ Sign Message with StarkNet Account
-  const starkSignature = await account.signMessage(messageHash);
-
-  console.log(`✅ Signed Message: ${messageHash}`);
-  return starkSignature;
-}
-
-/**
- * ✅ Verify a StarkNet Signature
- * - Uses zk-STARK for Verification
- * - Implements StarkNet's Cairo Elliptic Curve Signature Check
- */
-export async function verifyStarkNetSignature(message: string, signature: Signature, starkKey: string): Promise<boolean> {
-  console.log("🔹 Verifying StarkNet Signature...");
-
-  // ✅ Compute message hash using Keccak
-  const messageHash = hash.starknetKeccak(message);
-
-  // ✅ Verify the signature with StarkNet Account
-  const account = new Account(provider, starkKey, ec.starkCurve);
-  const isValid = await account.verifyMessage(messageHash, signature);
-
-  console.log(`✅ Signature Verified: ${isValid}`);
-  return isValid;
-}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MemoryBlobStore, setBlobStore } from "@/lib/blob-store";
+import { generateHybridKeypair, generateKeypair, KeyPair } from "@/lib/crypto";
+import { decryptStoredMessage } from "@/lib/decryption";
+import { sendMessage } from "@/lib/messaging";
+import { MessagingService } from "@/lib/messaging-service";
+import { sealEnvelope } from "@/lib/sessions";
+import { setStarknetClient, StarknetClient, TetraCryptMessagingContract } from "@/lib/starknet-client";
+import {
+  getContacts,
+  getMessage,
+  getMessagesForContact,
+  initStorage,
+  markMessagesAsRead,
+  MemoryStorageAdapter,
+  saveContact,
+  saveUserProfile,
+} from "@/lib/storage";
+import type { Contact } from "@/lib/storage-types";
+import type { ConversationLogEntry } from "@/lib/tetracrypt-abi";
+import { createVault, lockVault, unlockVault } from "@/lib/vault";
+
+const PASSPHRASE = "correct horse battery";
+const ALICE_ADDRESS = "0xa11ce";
+const BOB_ADDRESS = "0xb0b";
+
+// Bob is the local user; Alice's side of the session shares this process's storage
+let alice: { contact: Contact; signature: KeyPair };
+let bob: { contact: Contact; encryption: KeyPair; signature: KeyPair };
+let adapter: MemoryStorageAdapter;
+let service: MessagingService;
+let firstId: string;
+
+/* 🔹 **Conversation Log Model** */
+
+// Alice's log with Bob as `get_messages` returns it; `fromIndex` records every page read
+const log: ConversationLogEntry[] = [];
+const fromIndex: number[] = [];
+
+async function logToBob(plaintext: string): Promise<string> {
+  const { envelope } = await sealEnvelope(bob.contact, "alice", plaintext, alice.signature);
+  const cid = await sendMessage(envelope);
+  log.push({ index: log.length, cid, timestamp: 0, expiresAt: 0 });
+  return envelope.id;
+}
+
+function contact(id: string): Contact | undefined {
+  return getContacts().find((c) => c.id === id);
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+  const aliceEncryption = await generateHybridKeypair();
+  const aliceSignature = await generateKeypair("ML-DSA-44");
+  const bobKeys = { encryption: await generateHybridKeypair(), signature: await generateKeypair("ML-DSA-44") };
+  const contactOf = (id: string, keys: { encryption: KeyPair; signature: KeyPair }, starknetAddress: string) => ({
+    id,
+    name: id,
+    publicKeys: {
+      encryption: { algorithm: keys.encryption.algorithm, key: keys.encryption.publicKey },
+      signature: { algorithm: keys.signature.algorithm, key: keys.signature.publicKey },
+    },
+    starknetAddress,
+    unreadCount: 0,
+  });
+  alice = {
+    contact: contactOf("alice", { encryption: aliceEncryption, signature: aliceSignature }, ALICE_ADDRESS),
+    signature: aliceSignature,
+  };
+  bob = { contact: contactOf("bob", bobKeys, BOB_ADDRESS), ...bobKeys };
+
+  await createVault(PASSPHRASE, bobKeys);
+  adapter = new MemoryStorageAdapter();
+  await initStorage(adapter);
+  await saveUserProfile({ id: "bob", name: "bob", starknetAddress: BOB_ADDRESS });
+  await saveContact(alice.contact);
+  setBlobStore(new MemoryBlobStore(true));
+
+  setStarknetClient(new StarknetClient({ network: "devnet", contractAddress: "0x1" }));
+  vi.spyOn(TetraCryptMessagingContract.prototype, "getMessages").mockImplementation(
+    async (sender, receiver, from = 0, limit = 50) => {
+      if (sender !== ALICE_ADDRESS || receiver !== BOB_ADDRESS) return [];
+      fromIndex.push(from);
+      return log.slice(from, from + limit);
+    }
+  );
+
+  service = new MessagingService();
+  service.start("bob");
+});
+
+afterAll(() => {
+  service.stop();
+});
+
+describe("messages logged on StarkNet", () => {
+  it("stores a message fetched twice once, and it stays readable", async () => {
+    firstId = await logToBob("hello bob");
+
+    await service.fetchFromStarknet("alice");
+    await service.fetchFromStarknet("alice");
+
+    expect(getMessagesForContact("alice").map((message) => message.id)).toEqual([firstId]);
+    expect(contact("alice")?.unreadCount).toBe(1);
+    expect(contact("alice")?.starknetLogCursor).toEqual({ address: ALICE_ADDRESS, nextIndex: 1 });
+    // The second fetch starts after the entry already handled
+    expect(fromIndex).toEqual([0, 1]);
+    expect((await decryptStoredMessage((await getMessage(firstId))!, "bob")).plaintext).toBe("hello bob");
+  });
+
+  it("skips an envelope stored before, even when its conversation is not loaded", async () => {
+    await markMessagesAsRead("alice");
+
+    // A reload: empty message cache, locked vault, and the log read again from the start
+    lockVault();
+    await unlockVault(PASSPHRASE);
+    await initStorage(adapter);
+    await saveContact({ ...contact("alice")!, starknetLogCursor: undefined });
+    expect(getMessagesForContact("alice")).toHaveLength(0);
+
+    await service.fetchFromStarknet("alice");
+
+    const stored = await getMessage(firstId);
+    expect(getMessagesForContact("alice")).toHaveLength(0);
+    expect(stored?.status).toBe("read");
+    expect(stored?.wrappedMessageKey).toBeDefined();
+    expect(contact("alice")?.unreadCount).toBe(0);
+    expect((await decryptStoredMessage(stored!, "bob")).plaintext).toBe("hello bob");
+  });
+
+  it("reads only new entries and moves the cursor past them", async () => {
+    fromIndex.length = 0;
+    const id = await logToBob("still there?");
+
+    await service.fetchFromStarknet("alice");
+
+    expect(fromIndex).toEqual([1]);
+    expect(contact("alice")?.starknetLogCursor?.nextIndex).toBe(2);
+    expect((await decryptStoredMessage((await getMessage(id))!, "bob")).plaintext).toBe("still there?");
+  });
+});
@@ -0,0 +1,397 @@
+import { getContactPublicKey } from "@/lib/algorithms";
+import { encodeAttachmentMessage, parseAttachmentMessage, uploadAttachment } from "@/lib/attachments";
+import { getBlobStore } from "@/lib/blob-store";
+import { cachePlaintext, decryptStoredMessage, wrapMessageKey } from "@/lib/decryption";
+import { decodeEnvelope, Envelope, EnvelopeKind, messageFromEnvelope, verifyEnvelope } from "@/lib/envelope";
+import {
+  acceptsGroupEnvelope,
+  applyGroupRemoval,
+  groupMemberPublicKey,
+  GroupRemoval,
+  isGroup,
+  nextGroupState,
+  openGroupRemoval,
+  openGroupUpdate,
+  sealGroupEnvelope,
+  storeGroupEpoch,
+} from "@/lib/groups";
+import { sendMessage } from "@/lib/messaging";
+import { replenishPrekeys } from "@/lib/prekeys";
+import { applyReceipt, openReceipt, sendReceipt } from "@/lib/receipts";
+import { Outbox } from "@/lib/outbox";
+import { relayClient, relayPrekeyDirectory } from "@/lib/relay-client";
+import { sealEnvelope } from "@/lib/sessions";
+import { DEFAULT_ACCOUNT_CLASS, toStarknetAccount, unwrapAccountKey } from "@/lib/starknet-account";
+import { getStarknetClient } from "@/lib/starknet-client";
+import {
+  addMessage,
+  Contact,
+  getContacts,
+  getGroups,
+  getMessagesForContact,
+  getUserProfile,
+  Group,
+  hasMessage,
+  markMessagesAsRead,
+  Message,
+  saveContact,
+  subscribeStorage,
+} from "@/lib/storage";
+import { DEFAULT_USER_SETTINGS } from "@/lib/storage-types";
+import { getUnlockedKeyPairs } from "@/lib/vault";
+
+/**
+ * ✅ Messaging Service
+ * Owns the single relay connection for the signed-in user. Incoming envelopes are verified,
+ * stored and acknowledged here; outgoing messages are sealed, stored and relayed here. The UI
+ * never talks to the transport: it reads storage through `useConversation` / `useContacts`,
+ * which re-render on every storage change. Group messages take the same path, sealed with
+ * sender keys (`@/lib/groups`) instead of a one-to-one session.
+ */
+export class MessagingService {
+  private userId: string | null = null;
+  private unsubscribeRelay: (() => void) | null = null;
+  private unsubscribeEvents: (() => void) | null = null;
+  private readonly outbox = new Outbox(relayClient);
+  private incoming: Promise<void> = Promise.resolve();
+  private starknetLog: Promise<void> = Promise.resolve();
+
+  // ✅ Connect as the given user (requires an unlocked vault); a no-op if already running
+  start(userId: string): void {
+    if (this.userId === userId) return;
+    this.stop();
+
+    const keyPairs = getUnlockedKeyPairs();
+    this.userId = userId;
+    this.unsubscribeRelay = relayClient.onEnvelope((envelope) => this.handleIncoming(envelope));
+    // The prekey directory lives on the relay; top it up whenever we (re)connect
+    this.unsubscribeEvents = relayClient.onEvent((event) => {
+      if (event.type !== "connected") return;
+      replenishPrekeys(userId, keyPairs, relayPrekeyDirectory).catch((error) =>
+        console.error("❌ Prekey Replenishment Failed:", error)
+      );
+    });
+    relayClient.connect(userId, keyPairs.signature);
+    this.outbox.start(userId).catch((error) => console.error("❌ Failed to resume outbox:", error));
+  }
+
+  stop(): void {
+    this.unsubscribeRelay?.();
+    this.unsubscribeRelay = null;
+    this.unsubscribeEvents?.();
+    this.unsubscribeEvents = null;
+    this.userId = null;
+    this.outbox.stop();
+    relayClient.disconnect();
+  }
+
+  /** Storage change notifications, for `useSyncExternalStore` (safe to pass unbound). */
+  readonly subscribe = (listener: () => void): (() => void) => subscribeStorage(listener);
+
+  /**
+   * ✅ Seal, store and relay a chat message to a contact or group
+   * @returns The stored message
+   */
+  async send(conversation: Contact | Group, content: string, aead?: string): Promise<Message> {
+    return this.deliver(conversation, content, { aead });
+  }
+
+  /**
+   * ✅ Encrypt a file into IPFS and send its descriptor to a contact or group
+   * @param caption - Optional text shown with the file
+   * @param aead - Used for both the file chunks and the message
+   */
+  async sendAttachment(conversation: Contact | Group, file: File, caption?: string, aead?: string): Promise<Message> {
+    const plaintext = encodeAttachmentMessage(await uploadAttachment(file, aead), caption);
+    const message = await this.deliver(conversation, plaintext, { aead, kind: "attachment" });
+    this.retainAttachment(message, plaintext);
+    return message;
+  }
+
+  /**
+   * ✅ Create a group with the local user as admin and invite its members
+   * @param memberIds - Contacts to add, not including the local user
+   */
+  async createGroup(name: string, memberIds: string[]): Promise<Group> {
+    const user = getUserProfile();
+    if (!user) throw new Error("No user profile");
+    const { group, update } = nextGroupState(undefined, name, user, memberIds);
+    await this.deliver(group, JSON.stringify(update), { kind: "group-update", beforeEnqueue: () => storeGroupEpoch(group) });
+    return group;
+  }
+
+  /**
+   * ✅ Replace a group's member list (admin only), rotating every member's sender key
+   * @param memberIds - Everyone who should remain or be added, not including the local user
+   */
+  async updateGroupMembers(group: Group, memberIds: string[]): Promise<Group> {
+    const user = getUserProfile();
+    if (!user) throw new Error("No user profile");
+    const { group: next, update } = nextGroupState(group, group.name, user, memberIds);
+    await this.deliver(next, JSON.stringify(update), { kind: "group-update", beforeEnqueue: () => storeGroupEpoch(next) });
+
+    // Removed members cannot read the update; tell them over their one-to-one session
+    const removal: GroupRemoval = { groupId: group.id, epoch: next.epoch };
+    update.removed.forEach(({ id }) => {
+      const contact = getContacts().find((c) => c.id === id);
+      if (!contact) return;
+      this.sealForContact(contact, JSON.stringify(removal), { kind: "group-removal" })
+        .then(({ envelope }) => relayClient.send(envelope))
+        .catch((error) => console.error("❌ Group removal notice failed:", error));
+    });
+    return next;
+  }
+
+  // ✅ Send a message that ran out of attempts again
+  retry(message: Message): void {
+    this.outbox.retry(message);
+  }
+
+  // ✅ Mark a conversation read and send read receipts for what was unread and has been opened
+  markRead(contactId: string): void {
+    // Receipts are one-to-one only; group messages just clear the unread count
+    if (getGroups().some((group) => group.id === contactId)) {
+      markMessagesAsRead(contactId);
+      return;
+    }
+    // A wrapped message key means the message decrypted; receipts for the rest would vouch for nothing
+    const unreadIds = getMessagesForContact(contactId)
+      .filter((message) => message.senderId === contactId && message.status !== "read" && message.wrappedMessageKey)
+      .map((message) => message.id);
+    markMessagesAsRead(contactId);
+    sendReceipt(contactId, "read", unreadIds).catch((error) => console.error("❌ Read receipt failed:", error));
+  }
+
+  /* 🔹 **Outgoing Envelopes** */
+
+  private async sealForContact(contact: Contact, plaintext: string, options: { aead?: string; kind?: EnvelopeKind }) {
+    const user = getUserProfile();
+    if (!user) throw new Error("No user profile");
+
+    // Every message gets its own ratchet key; the session is bootstrapped from the
+    // contact's prekey bundle (or their hybrid public key) on first use. The envelope is
+    // signed with the user's post-quantum signature key.
+    const settings = { ...DEFAULT_USER_SETTINGS, ...user.settings };
+    return sealEnvelope(contact, user.id, plaintext, getUnlockedKeyPairs().signature, {
+      hybrid: settings.hybridEncryption,
+      kemRatchet: settings.perfectForwardSecrecy,
+      directory: relayPrekeyDirectory,
+      ...options,
+    });
+  }
+
+  private async deliver(
+    conversation: Contact | Group,
+    plaintext: string,
+    options: { aead?: string; kind?: EnvelopeKind; beforeEnqueue?: () => Promise<void> }
+  ): Promise<Message> {
+    const user = getUserProfile();
+    if (!user) throw new Error("No user profile");
+
+    const { beforeEnqueue, ...sealOptions } = options;
+    const settings = { ...DEFAULT_USER_SETTINGS, ...user.settings };
+    const { envelope, messageKey, recipients } = isGroup(conversation)
+      ? await sealGroupEnvelope(conversation, user.id, plaintext, getUnlockedKeyPairs().signature, {
+          ...sealOptions,
+          hybrid: settings.hybridEncryption,
+        })
+      : { ...(await this.sealForContact(conversation, plaintext, sealOptions)), recipients: undefined };
+
+    // Keep the message key (wrapped) so our own history can be decrypted again later
+    const message = {
+      ...messageFromEnvelope(envelope, "sent"),
+      wrappedMessageKey: await wrapMessageKey(envelope.id, messageKey),
+      recipients,
+    };
+    cachePlaintext(message.id, { verification: "verified", plaintext });
+
+    // Stored as pending first; the outbox keeps sending until the relay accepts it
+    await beforeEnqueue?.();
+    this.outbox.enqueue(message);
+    if (!isGroup(conversation) && settings.starknetMessageLog) this.logOnStarknet(conversation, envelope);
+    return message;
+  }
+
+  /**
+   * Append a sent envelope's CID to our StarkNet log with the contact (see `fetchFromStarknet`).
+   * Needs a deployed account created in the app and registered on the contract. Entries are
+   * written one at a time, since each transaction signs the contract's next nonce.
+   */
+  private logOnStarknet(contact: Contact, envelope: Envelope): void {
+    const client = getStarknetClient();
+    const profile = getUserProfile();
+    const address = profile?.starknetAddress;
+    const stored = profile?.starknetAccount;
+    if (!client.hasMessagingContract || !address || !contact.starknetAddress) return;
+    if (stored?.type !== "created" || !stored.deployed || profile?.starknetRegistration?.userAddress !== address) return;
+
+    const receiver = contact.starknetAddress;
+    this.starknetLog = this.starknetLog.then(async () => {
+      try {
+        const privateKey = await unwrapAccountKey(stored);
+        const account = toStarknetAccount({
+          address,
+          accountClass: stored.accountClass ?? DEFAULT_ACCOUNT_CLASS,
+          starkKey: stored.starkKey,
+          privateKey,
+        });
+        const cid = await sendMessage(envelope);
+        await client.trackTransaction(await client.messaging(account).storeMessage(address, receiver, cid, privateKey));
+        console.log(`✅ Message ${envelope.id} logged on StarkNet`);
+      } catch (error) {
+        console.error("❌ StarkNet Message Log Failed:", error);
+      }
+    });
+  }
+
+  // Keep an attachment's blocks pinned for as long as its message is stored (fetching them if received)
+  private retainAttachment(message: Message, plaintext: string): void {
+    if (message.kind !== "attachment") return;
+    try {
+      const { cid } = parseAttachmentMessage(plaintext).attachment;
+      getBlobStore().retain(cid, message.id).catch((error) => console.error("❌ Failed to pin attachment:", error));
+    } catch (error) {
+      console.warn("⚠️ Ignoring unreadable attachment:", error);
+    }
+  }
+
+  /**
+   * ✅ Pick up the messages a contact logged on StarkNet (`store_message`)
+   * Only entries after the contact's stored cursor are read. Each CID is read from the blob
+   * store and handled like a relay delivery, so messages that already arrived are skipped;
+   * unreadable entries are skipped for good. Does nothing unless a contract is configured and
+   * both sides have a StarkNet address.
+   */
+  async fetchFromStarknet(contactId: string): Promise<void> {
+    const client = getStarknetClient();
+    const ownAddress = getUserProfile()?.starknetAddress;
+    const contact = getContacts().find((c) => c.id === contactId);
+    const contactAddress = contact?.starknetAddress;
+    if (!this.userId || !ownAddress || !contactAddress || !client.hasMessagingContract) return;
+
+    const stored = contact?.starknetLogCursor;
+    const cursor = stored?.address === contactAddress ? stored.nextIndex : 0;
+    const entries = await client.messaging().getConversation(contactAddress, ownAddress, cursor);
+    for (const { index, cid } of entries) {
+      if (!cid) continue; // Deleted
+      try {
+        await this.handleIncoming(decodeEnvelope(await getBlobStore().get(cid)));
+      } catch (error) {
+        console.warn(`⚠️ Skipping unreadable StarkNet message #${index} (${cid}):`, error);
+      }
+    }
+    if (entries.length === 0) return;
+
+    // Re-read the contact: it may have changed, or a concurrent fetch moved the cursor further
+    const nextIndex = entries[entries.length - 1].index + 1;
+    const latest = getContacts().find((c) => c.id === contactId);
+    const current = latest?.starknetLogCursor;
+    if (!latest || latest.starknetAddress !== contactAddress) return;
+    if (current?.address === contactAddress && current.nextIndex >= nextIndex) return;
+    await saveContact({ ...latest, starknetLogCursor: { address: contactAddress, nextIndex } });
+  }
+
+  /* 🔹 **Incoming Envelopes** */
+
+  // Relay deliveries and StarkNet fetches can carry the same envelope, so handle one at a time
+  private handleIncoming(envelope: Envelope): Promise<void> {
+    const handled = this.incoming.then(() => this.receive(envelope));
+    this.incoming = handled.catch(() => undefined);
+    return handled;
+  }
+
+  private async receive(envelope: Envelope): Promise<void> {
+    if (!this.userId) return;
+    if (envelope.group) return this.receiveGroupEnvelope(envelope);
+    if (envelope.recipientId !== this.userId) return;
+
+    // The relay re-delivers until acknowledged, and StarkNet fetches can repeat it; check the
+    // database too, since only loaded pages of a conversation are cached
+    if (await hasMessage(envelope.id)) return;
+
+    // Verify the envelope signature against the sender's stored key
+    const contact = getContacts().find((c) => c.id === envelope.senderId);
+    const senderKey = contact && getContactPublicKey(contact, "signature");
+    if (!senderKey || !(await verifyEnvelope(envelope, senderKey.key))) {
+      console.warn("❌ Invalid envelope signature detected. Ignoring message.");
+      return;
+    }
+
+    // Receipts only update the status of messages we sent; a bad one is dropped, not retried
+    if (envelope.kind === "receipt") {
+      try {
+        applyReceipt(envelope.senderId, await openReceipt(envelope));
+      } catch (error) {
+        console.warn("⚠️ Ignoring unreadable receipt:", error);
+      }
+      return;
+    }
+
+    if (envelope.kind === "group-removal") {
+      try {
+        applyGroupRemoval(envelope.senderId, this.userId, await openGroupRemoval(envelope));
+      } catch (error) {
+        console.warn("⚠️ Ignoring unreadable group removal:", error);
+      }
+      return;
+    }
+
+    // Store first so the relay ack only follows a stored copy, then open it right away so
+    // its message key is wrapped and kept with it. Only a message that opened is receipted.
+    const message = messageFromEnvelope(envelope, "delivered");
+    await addMessage(message);
+    const { plaintext } = await decryptStoredMessage(message, this.userId);
+    if (plaintext === undefined) return;
+    this.retainAttachment(message, plaintext);
+    sendReceipt(envelope.senderId, "delivered", [envelope.id]).catch((error) =>
+      console.error("❌ Delivery receipt failed:", error)
+    );
+  }
+
+  private async receiveGroupEnvelope(envelope: Envelope): Promise<void> {
+    const groupId = envelope.group.groupId;
+    if (await hasMessage(envelope.id)) return;
+
+    const group = getGroups().find((g) => g.id === groupId);
+    if (!acceptsGroupEnvelope(group, this.userId, envelope)) {
+      console.warn(`⚠️ Ignoring group message ${envelope.id} from ${envelope.senderId}: not a member or wrong epoch`);
+      return;
+    }
+
+    // Invitations to a new group can only be checked against the admin's contact key
+    const contact = getContacts().find((c) => c.id === envelope.senderId);
+    const senderKey = group
+      ? groupMemberPublicKey(group, envelope.senderId, "signature")
+      : contact && getContactPublicKey(contact, "signature");
+    if (!senderKey || !(await verifyEnvelope(envelope, senderKey.key))) {
+      console.warn("❌ Invalid envelope signature detected. Ignoring message.");
+      return;
+    }
+
+    if (envelope.kind === "group-update") return this.receiveGroupUpdate(envelope, group);
+
+    const message = messageFromEnvelope(envelope, "delivered");
+    await addMessage(message);
+    const { plaintext } = await decryptStoredMessage(message, this.userId);
+    if (plaintext !== undefined) this.retainAttachment(message, plaintext);
+  }
+
+  // Membership changes are opened and checked first; one that does not apply is never stored
+  private async receiveGroupUpdate(envelope: Envelope, group: Group | undefined): Promise<void> {
+    let opened: Awaited<ReturnType<typeof openGroupUpdate>>;
+    try {
+      opened = await openGroupUpdate(envelope, group, this.userId);
+    } catch (error) {
+      console.warn("⚠️ Ignoring invalid group update:", error);
+      return;
+    }
+
+    const message = messageFromEnvelope(envelope, "delivered");
+    await addMessage({ ...message, wrappedMessageKey: await wrapMessageKey(message.id, opened.messageKey) });
+    cachePlaintext(message.id, { verification: "verified", plaintext: opened.plaintext });
+    await storeGroupEpoch(opened.group);
+  }
+}
+
+// ✅ Shared instance used by the chat UI
+export const messagingService = new MessagingService();
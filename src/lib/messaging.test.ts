@@ -0,0 +1,70 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryBlobStore, setBlobStore } from "@/lib/blob-store";
+import { fingerprintPublicKey, generateKeypair, KeyPair } from "@/lib/crypto";
+import { encodeEnvelope, Envelope, signEnvelope } from "@/lib/envelope";
+import { receiveMessage, sendMessage } from "@/lib/messaging";
+
+let keys: Record<"alice" | "bob", KeyPair>;
+let store: MemoryBlobStore;
+
+// A signed envelope with placeholder ciphertext; only the signature is checked on receipt
+async function envelopeToBob(): Promise<Envelope> {
+  return signEnvelope(
+    {
+      version: 1,
+      id: crypto.randomUUID(),
+      senderId: "alice",
+      recipientId: "bob",
+      senderKeyFingerprint: fingerprintPublicKey(keys.alice.publicKey),
+      timestamp: Date.now(),
+      algorithms: { kem: "ML-KEM-1024", signature: keys.alice.algorithm, aead: "AES-256-GCM" },
+      header: { kemPublicKey: "00", previousChainLength: 0, messageNumber: 0 },
+      nonce: "00",
+      ciphertext: "00",
+    },
+    keys.alice
+  );
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  keys = { alice: await generateKeypair("ML-DSA-44"), bob: await generateKeypair("ML-DSA-44") };
+});
+
+beforeEach(() => {
+  store = new MemoryBlobStore(true);
+  setBlobStore(store);
+});
+
+describe("messaging through an in-memory blob store", () => {
+  it("stores an envelope and reads it back verified", async () => {
+    const envelope = await envelopeToBob();
+    const cid = await sendMessage(envelope);
+
+    expect(await store.get(cid)).toEqual(encodeEnvelope(envelope));
+    expect(await receiveMessage(cid, keys.alice.publicKey)).toEqual(envelope);
+  });
+
+  it("gives the same envelope the same CID", async () => {
+    const envelope = await envelopeToBob();
+    expect(await sendMessage(envelope)).toBe(await sendMessage(envelope));
+    expect(await sendMessage(await envelopeToBob())).not.toBe(await sendMessage(envelope));
+  });
+
+  it("rejects an envelope not signed by the expected sender", async () => {
+    const cid = await sendMessage(await envelopeToBob());
+    await expect(receiveMessage(cid, keys.bob.publicKey)).rejects.toThrow("Message Authentication Failed");
+  });
+
+  it("rejects an envelope altered after it was signed", async () => {
+    const envelope = await envelopeToBob();
+    const cid = await sendMessage({ ...envelope, recipientId: "carol" });
+    await expect(receiveMessage(cid, keys.alice.publicKey)).rejects.toThrow("Message Authentication Failed");
+  });
+
+  it("fails for a CID the store does not hold", async () => {
+    const cid = await new MemoryBlobStore().put(encodeEnvelope(await envelopeToBob()));
+    await expect(receiveMessage(cid, keys.alice.publicKey)).rejects.toThrow("Blob not found");
+  });
+});
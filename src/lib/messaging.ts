@@ -1,76 +1,46 @@
-import { encryptAES, decryptAES, signMessage, verifySignature, generateZKProof, verifyZKProof } from "@/lib/crypto";
-import { saveToIPFS, loadFromIPFS } from "@/lib/web3storage";
+import { getBlobStore } from "@/lib/blob-store";
+import { Envelope, decodeEnvelope, encodeEnvelope, verifyEnvelope } from "@/lib/envelope";
 
 /**
- * ✅ Securely send an encrypted message and store it on IPFS with cryptographic proofs
- * @param senderId - The sender's ID
- * @param receiverId - The receiver's ID
- * @param message - The plaintext message
- * @param encryptionKey - The AES encryption key
- * @param senderPrivateKey - The sender's private key for signing
- * @returns Promise<string> - The IPFS CID where the message is stored
+ * ✅ Envelopes on IPFS
+ * An envelope is already end-to-end encrypted once, and its signature covers the ciphertext
+ * together with every routing field (sender, recipient, key fingerprint, timestamp,
+ * algorithms). It is therefore stored exactly as it travels: the binary wire encoding goes to
+ * the blob store unchanged, with no second layer of encryption, proofs or signatures.
  */
-export async function sendMessage(
-  senderId: string,
-  receiverId: string,
-  message: string,
-  encryptionKey: string,
-  senderPrivateKey: string
-): Promise<string> {
-  console.log("🔹 Encrypting and securely sending message...");
-
-  // ✅ Encrypt message using AES-256-GCM
-  const encryptedMessage = await encryptAES(message, encryptionKey);
-
-  // ✅ Generate zk-STARK Proof for integrity
-  const zkProof = await generateZKProof(encryptedMessage);
 
-  // ✅ Sign the encrypted message using SLH-DSA
-  const signature = await signMessage(encryptedMessage, senderPrivateKey);
-
-  // ✅ Prepare message data
-  const messageData = { senderId, receiverId, encryptedMessage, zkProof, signature };
+/**
+ * ✅ Store a signed message envelope on IPFS
+ * @param envelope - The signed envelope (see `@/lib/envelope`)
+ * @returns Promise<string> - The IPFS CID where the message is stored
+ */
+export async function sendMessage(envelope: Envelope): Promise<string> {
+  console.log("🔹 Securely sending message envelope...");
 
-  // ✅ Store encrypted message on IPFS
-  const ipfsHash = await saveToIPFS(JSON.stringify(messageData), encryptionKey, senderPrivateKey);
+  // ✅ Store the canonical envelope encoding as-is
+  const ipfsHash = await getBlobStore().put(encodeEnvelope(envelope));
 
   console.log(`✅ Message securely stored on IPFS: ${ipfsHash}`);
   return ipfsHash; // Returns IPFS CID
 }
 
 /**
- * ✅ Securely receive and decrypt a message from IPFS with cryptographic verification
+ * ✅ Retrieve a message envelope from IPFS and verify its signature
  * @param ipfsHash - The IPFS CID where the message is stored
- * @param decryptionKey - The AES decryption key
- * @param senderPublicKey - The sender's public key for signature verification
- * @returns Promise<string> - The decrypted message
+ * @param senderPublicKey - The sender's signature public key
+ * @returns Promise<Envelope> - The validated envelope, ready for `openFromContact`
  */
-export async function receiveMessage(
-  ipfsHash: string,
-  decryptionKey: string,
-  senderPublicKey: string
-): Promise<string> {
+export async function receiveMessage(ipfsHash: string, senderPublicKey: string): Promise<Envelope> {
   console.log("🔹 Retrieving and verifying message from IPFS...");
 
-  // ✅ Load encrypted data from IPFS
-  const encryptedData = await loadFromIPFS(ipfsHash, decryptionKey, senderPublicKey);
-  const messageData = JSON.parse(encryptedData);
-
-  // ✅ Verify zk-STARK Proof Before Decrypting
-  if (!(await verifyZKProof(messageData.encryptedMessage, messageData.zkProof))) {
-    console.warn("❌ Data integrity check failed: Invalid zk-STARK proof");
-    throw new Error("Message Integrity Check Failed");
-  }
+  // ✅ Load and decode the envelope (rejects unknown versions and malformed fields)
+  const envelope = decodeEnvelope(await getBlobStore().get(ipfsHash));
 
-  // ✅ Verify Digital Signature (SLH-DSA)
-  if (!(await verifySignature(messageData.encryptedMessage, messageData.signature, senderPublicKey))) {
+  // ✅ Verify the envelope signature against the sender's key
+  if (!(await verifyEnvelope(envelope, senderPublicKey))) {
     console.warn("❌ Signature verification failed!");
     throw new Error("Message Authentication Failed");
   }
 
-  // ✅ Decrypt and return the message
-  const decryptedMessage = await decryptAES(messageData.encryptedMessage, decryptionKey);
-  console.log("✅ Successfully decrypted message:", decryptedMessage);
-
-  return decryptedMessage;
-}
\ No newline at end of file
+  return envelope;
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fingerprintPublicKey, generateKeypair, KeyPair } from "@/lib/crypto";
+import { messageFromEnvelope, signEnvelope } from "@/lib/envelope";
+import { Outbox } from "@/lib/outbox";
+import { RelayClient } from "@/lib/relay-client";
+import { getMessagesForContact, initStorage, MemoryStorageAdapter, Message, saveUserProfile } from "@/lib/storage";
+import { RelayServer, startRelayServer } from "@/backend/relay";
+
+// Reconnects take the client's 3 s delay, so allow a few of them
+const RECONNECT_TIMEOUT = { timeout: 10000 };
+
+let keys: Record<"alice" | "bob", KeyPair>;
+let relay: RelayServer;
+let port: number;
+let alice: RelayClient;
+let bob: RelayClient;
+let outbox: Outbox;
+let bobReceived: Set<string>;
+
+// A signed message from Alice to Bob as the messaging service would store it
+async function messageToBob(): Promise<Message> {
+  const envelope = await signEnvelope(
+    {
+      version: 1,
+      id: crypto.randomUUID(),
+      senderId: "alice",
+      recipientId: "bob",
+      senderKeyFingerprint: fingerprintPublicKey(keys.alice.publicKey),
+      timestamp: Date.now(),
+      algorithms: { kem: "ML-KEM-1024", signature: keys.alice.algorithm, aead: "AES-256-GCM" },
+      header: { kemPublicKey: "00", previousChainLength: 0, messageNumber: 0 },
+      nonce: "00",
+      ciphertext: "00",
+    },
+    keys.alice
+  );
+  return messageFromEnvelope(envelope, "sent");
+}
+
+function statusOf(id: string): Message["status"] | undefined {
+  return getMessagesForContact("bob").find((message) => message.id === id)?.status;
+}
+
+async function relayUp(): Promise<void> {
+  relay = await startRelayServer({ port });
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  keys = { alice: await generateKeypair("ML-DSA-44"), bob: await generateKeypair("ML-DSA-44") };
+});
+
+beforeEach(async () => {
+  await initStorage(new MemoryStorageAdapter());
+  await saveUserProfile({ id: "alice", name: "alice" });
+
+  relay = await startRelayServer({ port: 0 });
+  port = relay.port;
+  alice = new RelayClient(`ws://127.0.0.1:${port}`);
+  bob = new RelayClient(`ws://127.0.0.1:${port}`);
+  bobReceived = new Set();
+  bob.onEnvelope((envelope) => {
+    bobReceived.add(envelope.id);
+  });
+
+  outbox = new Outbox(alice);
+  await outbox.start("alice");
+  alice.connect("alice", keys.alice);
+  bob.connect("bob", keys.bob);
+  await vi.waitFor(() => expect(alice.isConnected() && bob.isConnected()).toBe(true));
+});
+
+afterEach(async () => {
+  outbox.stop();
+  alice.disconnect();
+  bob.disconnect();
+  await relay.close();
+});
+
+describe("outbox against a flapping relay", () => {
+  it("keeps messages pending while the relay is down and sends them once it is back", async () => {
+    const first = await messageToBob();
+    outbox.enqueue(first);
+    await vi.waitFor(() => expect(statusOf(first.id)).toBe("sent"));
+
+    await relay.close();
+    await vi.waitFor(() => expect(alice.isConnected()).toBe(false));
+    const queued = [await messageToBob(), await messageToBob()];
+    queued.forEach((message) => outbox.enqueue(message));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(queued.map((message) => statusOf(message.id))).toEqual(["pending", "pending"]);
+
+    await relayUp();
+    const ids = queued.map((message) => message.id);
+    await vi.waitFor(() => expect(ids.map(statusOf)).toEqual(["sent", "sent"]), RECONNECT_TIMEOUT);
+    await vi.waitFor(() => expect(bobReceived).toEqual(new Set([first.id, ...ids])), RECONNECT_TIMEOUT);
+  });
+
+  it("resends messages whose acceptance was lost each time the relay dropped", async () => {
+    const messages: Message[] = [];
+    for (let flap = 0; flap < 2; flap++) {
+      // Written to a socket that is going away: no `accepted` arrives, so it must stay pending
+      const message = await messageToBob();
+      messages.push(message);
+      outbox.enqueue(message);
+      await relay.close();
+      await vi.waitFor(() => expect(alice.isConnected()).toBe(false));
+      expect(statusOf(message.id)).toBe("pending");
+
+      await relayUp();
+      await vi.waitFor(() => expect(alice.isConnected()).toBe(true), RECONNECT_TIMEOUT);
+    }
+
+    const ids = messages.map((message) => message.id);
+    await vi.waitFor(() => expect(ids.map(statusOf)).toEqual(["sent", "sent"]));
+    await vi.waitFor(() => expect([...bobReceived]).toEqual(expect.arrayContaining(ids)), RECONNECT_TIMEOUT);
+  });
+
+  it("marks a message the relay rejects as failed instead of retrying it", async () => {
+    const message = await messageToBob();
+    // Alice's signature over a different envelope
+    outbox.enqueue({ ...message, signature: (await messageToBob()).signature });
+    await vi.waitFor(() => expect(statusOf(message.id)).toBe("failed"));
+    expect(bobReceived.has(message.id)).toBe(false);
+  });
+});
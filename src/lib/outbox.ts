@@ -0,0 +1,146 @@
+import { envelopeFromMessage } from "@/lib/envelope";
+import { RelayClient, RelayEvent } from "@/lib/relay-client";
+import { addMessage, getMessagesForContact, loadMessagesByStatus, Message } from "@/lib/storage";
+
+/**
+ * ✅ Outbox
+ * Outgoing messages are stored as `pending` before anything touches the network; a stored
+ * message carries its whole signed envelope, so the outbox survives reloads. A message leaves
+ * the outbox (`sent`) only once the relay accepts it. Until then it is re-sent with
+ * exponential backoff, immediately on every reconnect, and marked `failed` after
+ * `OUTBOX_MAX_ATTEMPTS` so the user can retry it by hand.
+ */
+
+export const OUTBOX_MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+/** How long to wait for the relay's `accepted` before counting an attempt as failed. */
+const ACCEPT_TIMEOUT_MS = 10 * 1000;
+
+interface OutboxEntry {
+  message: Message;
+  attempts: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// ✅ Exponential backoff with jitter (half to all of the capped delay), so clients don't retry in lockstep
+export function retryDelay(attempt: number): number {
+  const cap = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+function conversationOf(message: Message, userId: string): string {
+  return message.senderId === userId ? message.receiverId : message.senderId;
+}
+
+export class Outbox {
+  private entries = new Map<string, OutboxEntry>();
+  private userId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly relay: RelayClient) {}
+
+  // ✅ Start sending for the signed-in user, resuming anything left pending by an earlier session
+  async start(userId: string): Promise<void> {
+    this.stop();
+    this.userId = userId;
+    this.unsubscribe = this.relay.onEvent((event) => this.handleRelayEvent(event));
+
+    const pending = await loadMessagesByStatus("pending");
+    pending.filter((message) => message.senderId === userId).forEach((message) => this.track(message));
+    this.flush();
+  }
+
+  stop(): void {
+    this.entries.forEach((entry) => clearTimeout(entry.timer));
+    this.entries.clear();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.userId = null;
+  }
+
+  // ✅ Store a newly sealed message as `pending` and try to send it right away
+  enqueue(message: Message): void {
+    const pending: Message = { ...message, status: "pending" };
+    addMessage(pending);
+    this.track(pending);
+    this.attempt(pending.id);
+  }
+
+  // ✅ Put a `failed` message back in the outbox with a fresh retry budget
+  retry(message: Message): void {
+    if (message.status !== "failed") return;
+    this.enqueue(message);
+  }
+
+  /* 🔹 **Sending** */
+
+  private track(message: Message): void {
+    const existing = this.entries.get(message.id);
+    if (existing) clearTimeout(existing.timer);
+    this.entries.set(message.id, { message, attempts: 0 });
+  }
+
+  // Reconnected: everything pending goes out now, with its backoff reset
+  private flush(): void {
+    this.entries.forEach((entry, id) => {
+      entry.attempts = 0;
+      this.attempt(id);
+    });
+  }
+
+  private attempt(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+
+    entry.attempts += 1;
+    const written = this.relay.send(envelopeFromMessage(entry.message), entry.message.recipients);
+    // Not connected: wait out the backoff (a reconnect flushes sooner). Written: wait for `accepted`.
+    entry.timer = setTimeout(() => this.attemptFailed(id), written ? ACCEPT_TIMEOUT_MS : retryDelay(entry.attempts));
+  }
+
+  private attemptFailed(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+      console.warn(`❌ Giving up on message ${id} after ${entry.attempts} attempts`);
+      this.settle(id, "failed");
+      return;
+    }
+    this.attempt(id);
+  }
+
+  private settle(id: string, status: "sent" | "failed"): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    this.entries.delete(id);
+
+    // A receipt may already have moved it further along
+    const message = this.current(entry.message);
+    if (message.status === "pending") addMessage({ ...message, status });
+  }
+
+  private handleRelayEvent(event: RelayEvent): void {
+    switch (event.type) {
+      case "connected":
+        this.flush();
+        return;
+      case "accepted":
+        this.settle(event.id, "sent");
+        return;
+      case "error":
+        // The relay rejected the envelope itself; resending it cannot help
+        if (event.id) this.settle(event.id, "failed");
+        return;
+    }
+  }
+
+  private current(message: Message): Message {
+    if (!this.userId) return message;
+    const contactId = conversationOf(message, this.userId);
+    return getMessagesForContact(contactId).find((m) => m.id === message.id) ?? message;
+  }
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateHybridKeypair, generateKeypair, KeyPair } from "@/lib/crypto";
+import {
+  acceptPrekeyInit,
+  CLAIMED_PREKEY_RETENTION_MS,
+  InMemoryPrekeyDirectory,
+  initiateFromBundle,
+  MIN_ONE_TIME_PREKEYS,
+  ONE_TIME_PREKEY_BATCH,
+  replenishPrekeys,
+} from "@/lib/prekeys";
+import { openFromContact, resetSession, sealForContact } from "@/lib/sessions";
+import type { Contact } from "@/lib/storage-types";
+import { createVault } from "@/lib/vault";
+
+const PREKEY_STORAGE_KEY = "tetracrypt.prekeys";
+
+// Bob publishes prekeys and holds the private halves in this process's storage; Alice only fetches
+let bob: { contact: Contact; keyPairs: { encryption: KeyPair; signature: KeyPair } };
+let directory: InMemoryPrekeyDirectory;
+
+async function fetchBobBundle() {
+  const bundle = await directory.fetchBundle("bob");
+  if (!bundle) throw new Error("Bob has not published");
+  return bundle;
+}
+
+async function sealAndOpen(plaintext: string, tamper = false) {
+  const sealed = await sealForContact(bob.contact, "alice", plaintext, { directory });
+  const message = {
+    senderId: "alice",
+    receiverId: "bob",
+    encryptedContent: sealed.encryptedContent,
+    header: sealed.header,
+    sessionInit: sealed.sessionInit,
+  };
+  // Flip the last hex digit so the ciphertext always changes
+  const last = message.encryptedContent.slice(-1);
+  const tampered = `${message.encryptedContent.slice(0, -1)}${last === "0" ? "1" : "0"}`;
+  const opened = openFromContact(
+    "alice",
+    tamper ? { ...message, encryptedContent: tampered } : message,
+    bob.keyPairs.encryption
+  );
+  return { sealed, message, opened };
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  const keyPairs = { encryption: await generateHybridKeypair(), signature: await generateKeypair("ML-DSA-44") };
+  bob = {
+    keyPairs,
+    contact: {
+      id: "bob",
+      name: "bob",
+      publicKeys: {
+        encryption: { algorithm: keyPairs.encryption.algorithm, key: keyPairs.encryption.publicKey },
+        signature: { algorithm: keyPairs.signature.algorithm, key: keyPairs.signature.publicKey },
+      },
+      unreadCount: 0,
+    },
+  };
+  await createVault("correct horse battery", keyPairs);
+});
+
+beforeEach(async () => {
+  localStorage.removeItem(PREKEY_STORAGE_KEY);
+  resetSession("alice");
+  resetSession("bob");
+  directory = new InMemoryPrekeyDirectory();
+  await replenishPrekeys("bob", bob.keyPairs, directory);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("PQXDH prekeys", () => {
+  it("agrees on a secret and hands each one-time prekey out once", async () => {
+    const { sharedSecret, init } = await initiateFromBundle(await fetchBobBundle(), bob.contact.publicKeys.signature);
+    expect(init.oneTimePrekeyId).toBeDefined();
+    expect(await acceptPrekeyInit("bob", bob.keyPairs.encryption, init)).toBe(sharedSecret);
+
+    const listing = await directory.listPrekeys("bob");
+    expect(listing?.oneTimePrekeyIds).toHaveLength(ONE_TIME_PREKEY_BATCH - 1);
+    expect(listing?.oneTimePrekeyIds).not.toContain(init.oneTimePrekeyId);
+  });
+
+  it("bootstraps a session and deletes the one-time prekey once it is stored", async () => {
+    const { sealed, opened } = await sealAndOpen("hello bob");
+    expect((await opened).plaintext).toBe("hello bob");
+
+    const init = sealed.sessionInit?.prekeys;
+    expect(init?.oneTimePrekeyId).toBeDefined();
+    await expect(acceptPrekeyInit("bob", bob.keyPairs.encryption, init!)).rejects.toThrow("already used");
+  });
+
+  it("keeps the one-time prekey when the first message fails to decrypt", async () => {
+    const { message, opened } = await sealAndOpen("hello bob", true);
+    await expect(opened).rejects.toThrow();
+    expect((await openFromContact("alice", message, bob.keyPairs.encryption)).plaintext).toBe("hello bob");
+  });
+
+  it("rejects bundles with a bad signature or from another identity", async () => {
+    const bundle = await fetchBobBundle();
+    const substitute = await generateKeypair("ML-KEM-1024");
+    const forged = { ...bundle, signedPrekey: { ...bundle.signedPrekey, publicKey: substitute.publicKey } };
+    await expect(initiateFromBundle(forged)).rejects.toThrow("Invalid signed prekey signature");
+
+    const mallory = await generateKeypair("ML-DSA-44");
+    await expect(initiateFromBundle(bundle, { algorithm: mallory.algorithm, key: mallory.publicKey })).rejects.toThrow(
+      "different identity"
+    );
+  });
+
+  it("rejects bundles whose identity key was swapped", async () => {
+    const bundle = await fetchBobBundle();
+    const mallory = await generateHybridKeypair();
+    const swapped = { ...bundle, identityKey: { algorithm: mallory.algorithm, key: mallory.publicKey } };
+    await expect(initiateFromBundle(swapped)).rejects.toThrow("Invalid signed prekey signature");
+    await expect(initiateFromBundle(swapped, bundle.signingKey, bob.contact.publicKeys.encryption)).rejects.toThrow(
+      "different identity key"
+    );
+  });
+
+  it("stores private prekeys encrypted with the vault's local key", async () => {
+    const stored = localStorage.getItem(PREKEY_STORAGE_KEY);
+    expect(stored?.startsWith("AES-256-GCM:")).toBe(true);
+    expect(stored).not.toContain("privateKey");
+  });
+});
+
+describe("replenishPrekeys", () => {
+  it("only uploads one-time prekeys when the directory runs low", async () => {
+    expect(await replenishPrekeys("bob", bob.keyPairs, directory)).toBe(0);
+
+    // One below the minimum
+    const remaining = MIN_ONE_TIME_PREKEYS - 1;
+    for (let i = remaining; i < ONE_TIME_PREKEY_BATCH; i++) await fetchBobBundle();
+    expect(await replenishPrekeys("bob", bob.keyPairs, directory)).toBe(ONE_TIME_PREKEY_BATCH);
+    expect((await directory.listPrekeys("bob"))?.oneTimePrekeyIds).toHaveLength(remaining + ONE_TIME_PREKEY_BATCH);
+  });
+
+  it("republishes to an empty directory and drops claimed prekeys after the retention period", async () => {
+    const { init } = await initiateFromBundle(await fetchBobBundle());
+
+    // The relay lost its directory: the signed prekey and a new batch go up, unclaimed old keys stay usable for now
+    directory = new InMemoryPrekeyDirectory();
+    expect(await replenishPrekeys("bob", bob.keyPairs, directory)).toBe(ONE_TIME_PREKEY_BATCH);
+    expect((await directory.listPrekeys("bob"))?.signedPrekeyId).toBe(init.signedPrekeyId);
+    await expect(acceptPrekeyInit("bob", bob.keyPairs.encryption, init)).resolves.toBeTypeOf("string");
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + CLAIMED_PREKEY_RETENTION_MS + 1);
+    await replenishPrekeys("bob", bob.keyPairs, directory);
+    await expect(acceptPrekeyInit("bob", bob.keyPairs.encryption, init)).rejects.toThrow("already used");
+  });
+});
@@ -0,0 +1,393 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha384 } from "@noble/hashes/sha512";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  decapsulate,
+  decryptMessage,
+  encapsulate,
+  encryptMessage,
+  generateKeypair,
+  HYBRID_KEM_ALGORITHM,
+  kemDecapsulate,
+  kemEncapsulate,
+  KeyPair,
+  signMessage,
+  verifySignature,
+} from "@/lib/crypto";
+import type { TaggedPublicKey } from "@/lib/algorithms";
+import { DEFAULT_RELAY_TTL_MS } from "@/lib/relay-protocol";
+import { getLocalKey } from "@/lib/vault";
+
+/**
+ * ✅ PQXDH-Style Asynchronous Session Establishment
+ * Users publish a prekey bundle: their long-term hybrid identity key, an ML-KEM-1024
+ * prekey signed with their identity signature key, and a batch of one-time ML-KEM prekeys.
+ * An initiator can then derive a session secret for an offline recipient by encapsulating
+ * to all three; the recipient repeats the derivation when the first message arrives.
+ * The prekey signature also covers the identity key, so neither can be swapped on its own.
+ * The initiator is authenticated by the signature on that first message. Bundles are served
+ * by the relay (`src/backend/relay.ts`); the private halves stay on this device, wrapped
+ * under the vault's local key.
+ */
+
+export const PREKEY_ALGORITHM = "ML-KEM-1024";
+export const PQXDH_PROTOCOL = "PQXDH-ML-KEM-1024+X25519";
+/** Replenish once fewer one-time prekeys than this remain on the directory. */
+export const MIN_ONE_TIME_PREKEYS = 10;
+export const ONE_TIME_PREKEY_BATCH = 50;
+/** Signed prekeys are rotated weekly; the previous one is kept for in-flight sessions. */
+export const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+/**
+ * One-time prekeys handed out by the directory are kept until the first message that used
+ * them could no longer arrive (the relay drops undelivered envelopes after this long).
+ */
+export const CLAIMED_PREKEY_RETENTION_MS = DEFAULT_RELAY_TTL_MS;
+
+const PREKEY_STORAGE_KEY = "tetracrypt.prekeys";
+const PREKEY_STORAGE_CONTEXT = utf8ToBytes("TetraCryptPQC/prekeys/v1");
+const PQXDH_LABEL = utf8ToBytes("TetraCryptPQC/pqxdh/v1");
+
+export interface SignedPrekey {
+  id: number;
+  algorithm: string;
+  publicKey: string;
+  /** Identity-key signature over `signedPrekeyMessage(...)`. */
+  signature: string;
+  createdAt: string;
+}
+
+export interface OneTimePrekey {
+  id: number;
+  publicKey: string;
+}
+
+/** Everything a user uploads to a directory. */
+export interface PublishedPrekeys {
+  userId: string;
+  identityKey: TaggedPublicKey;
+  signingKey: TaggedPublicKey;
+  signedPrekey: SignedPrekey;
+  oneTimePrekeys: OneTimePrekey[];
+}
+
+/** What an initiator downloads: at most one one-time prekey, which the directory then deletes. */
+export interface PrekeyBundle extends Omit<PublishedPrekeys, "oneTimePrekeys"> {
+  oneTimePrekey?: OneTimePrekey;
+}
+
+/** Sent with the first message(s) so the recipient can derive the same secret. */
+export interface PrekeyInit {
+  signedPrekeyId: number;
+  oneTimePrekeyId?: number;
+  identityCiphertext: string;
+  signedPrekeyCiphertext: string;
+  oneTimePrekeyCiphertext?: string;
+}
+
+/** What a directory currently holds for a user. */
+export interface PrekeyListing {
+  signedPrekeyId: number;
+  oneTimePrekeyIds: number[];
+}
+
+interface LocalOneTimePrekey {
+  keyPair: KeyPair;
+  /** When we first saw the directory no longer holding it, i.e. an initiator took it. */
+  claimedAt?: number;
+}
+
+/** Private halves of our published prekeys; never leaves this device. */
+interface LocalPrekeys {
+  signedPrekeys: Array<{ id: number; keyPair: KeyPair; published: SignedPrekey }>;
+  oneTimePrekeys: Record<number, LocalOneTimePrekey>;
+  nextId: number;
+}
+
+/* 🔹 **Prekey Directory** */
+
+export interface PrekeyDirectory {
+  /** Replace a user's identity and signed prekey, adding any one-time prekeys. */
+  publish(prekeys: PublishedPrekeys): Promise<void>;
+  /** Fetch a bundle, consuming one one-time prekey if any remain. */
+  fetchBundle(userId: string): Promise<PrekeyBundle | null>;
+  /** Prekey IDs held for a user, or null if they never published. */
+  listPrekeys(userId: string): Promise<PrekeyListing | null>;
+}
+
+/** ✅ Directory held in memory; the relay serves one, and tests use it directly. */
+export class InMemoryPrekeyDirectory implements PrekeyDirectory {
+  private entries = new Map<string, PublishedPrekeys>();
+
+  async publish(prekeys: PublishedPrekeys): Promise<void> {
+    const existing = this.entries.get(prekeys.userId);
+    this.entries.set(prekeys.userId, {
+      ...prekeys,
+      oneTimePrekeys: [...(existing?.oneTimePrekeys ?? []), ...prekeys.oneTimePrekeys],
+    });
+  }
+
+  async fetchBundle(userId: string): Promise<PrekeyBundle | null> {
+    const entry = this.entries.get(userId);
+    if (!entry) return null;
+    const { oneTimePrekeys, ...bundle } = entry;
+    return { ...bundle, oneTimePrekey: oneTimePrekeys.shift() };
+  }
+
+  async listPrekeys(userId: string): Promise<PrekeyListing | null> {
+    const entry = this.entries.get(userId);
+    if (!entry) return null;
+    return { signedPrekeyId: entry.signedPrekey.id, oneTimePrekeyIds: entry.oneTimePrekeys.map((prekey) => prekey.id) };
+  }
+}
+
+/* 🔹 **Local Prekey Storage** */
+
+async function loadLocalPrekeys(): Promise<LocalPrekeys> {
+  const raw = localStorage.getItem(PREKEY_STORAGE_KEY);
+  if (!raw) return { signedPrekeys: [], oneTimePrekeys: {}, nextId: 1 };
+  if (raw.startsWith("{")) {
+    // Stored in plaintext, with bare key pairs, before prekeys were wrapped
+    const legacy = JSON.parse(raw) as Omit<LocalPrekeys, "oneTimePrekeys"> & { oneTimePrekeys: Record<number, KeyPair> };
+    const oneTimePrekeys: LocalPrekeys["oneTimePrekeys"] = {};
+    for (const [id, keyPair] of Object.entries(legacy.oneTimePrekeys)) oneTimePrekeys[Number(id)] = { keyPair };
+    return { ...legacy, oneTimePrekeys };
+  }
+  return JSON.parse(await decryptMessage(raw, getLocalKey(), PREKEY_STORAGE_CONTEXT)) as LocalPrekeys;
+}
+
+async function saveLocalPrekeys(prekeys: LocalPrekeys): Promise<void> {
+  localStorage.setItem(PREKEY_STORAGE_KEY, await encryptMessage(JSON.stringify(prekeys), getLocalKey(), PREKEY_STORAGE_CONTEXT));
+}
+
+// Local prekeys are read-modify-write; serialise updates so a replenish and a consumed
+// one-time prekey cannot overwrite each other
+let prekeyLock: Promise<unknown> = Promise.resolve();
+
+function withPrekeyLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = prekeyLock.catch(() => undefined).then(task);
+  prekeyLock = run;
+  return run;
+}
+
+/** Bytes covered by the identity signature on a signed prekey, which binds it to the identity key. */
+function signedPrekeyMessage(
+  userId: string,
+  identityKey: TaggedPublicKey,
+  prekey: Pick<SignedPrekey, "id" | "algorithm" | "publicKey">
+): string {
+  const identity = `${identityKey.algorithm}:${identityKey.key}`;
+  return `TetraCryptPQC/signed-prekey/v2:${userId}:${identity}:${prekey.id}:${prekey.algorithm}:${prekey.publicKey}`;
+}
+
+function identityKeyOf(keyPairs: { encryption: KeyPair }): TaggedPublicKey {
+  return { algorithm: keyPairs.encryption.algorithm, key: keyPairs.encryption.publicKey };
+}
+
+async function createSignedPrekey(
+  userId: string,
+  keyPairs: { encryption: KeyPair; signature: KeyPair },
+  local: LocalPrekeys
+): Promise<SignedPrekey> {
+  const keyPair = await generateKeypair(PREKEY_ALGORITHM);
+  const id = local.nextId++;
+  const createdAt = new Date().toISOString();
+  const unsigned = { id, algorithm: keyPair.algorithm, publicKey: keyPair.publicKey };
+  const { privateKey, algorithm } = keyPairs.signature;
+  const signature = await signMessage(signedPrekeyMessage(userId, identityKeyOf(keyPairs), unsigned), privateKey, algorithm);
+  const published = { ...unsigned, signature, createdAt };
+  local.signedPrekeys = [{ id, keyPair, published }, ...local.signedPrekeys].slice(0, 2);
+  return published;
+}
+
+async function createOneTimePrekeys(count: number, local: LocalPrekeys): Promise<OneTimePrekey[]> {
+  const prekeys: OneTimePrekey[] = [];
+  for (let i = 0; i < count; i++) {
+    const keyPair = await generateKeypair(PREKEY_ALGORITHM);
+    const id = local.nextId++;
+    local.oneTimePrekeys[id] = { keyPair };
+    prekeys.push({ id, publicKey: keyPair.publicKey });
+  }
+  return prekeys;
+}
+
+function publishedPrekeys(
+  userId: string,
+  keyPairs: { encryption: KeyPair; signature: KeyPair },
+  signedPrekey: SignedPrekey,
+  oneTimePrekeys: OneTimePrekey[]
+): PublishedPrekeys {
+  return {
+    userId,
+    identityKey: identityKeyOf(keyPairs),
+    signingKey: { algorithm: keyPairs.signature.algorithm, key: keyPairs.signature.publicKey },
+    signedPrekey,
+    oneTimePrekeys,
+  };
+}
+
+/**
+ * ✅ Publish prekeys, top up one-time prekeys and rotate an expired signed prekey
+ * Safe to call on every connection: it compares what the directory still holds with what is
+ * stored here, only publishes when something is missing, and only keeps private keys whose
+ * public halves were published. One-time prekeys the directory handed out are dropped once
+ * `CLAIMED_PREKEY_RETENTION_MS` has passed.
+ * @param keyPairs - The user's long-term hybrid encryption and signature key pairs
+ * @returns Number of one-time prekeys uploaded
+ */
+export async function replenishPrekeys(
+  userId: string,
+  keyPairs: { encryption: KeyPair; signature: KeyPair },
+  directory: PrekeyDirectory
+): Promise<number> {
+  return withPrekeyLock(async () => {
+    const local = await loadLocalPrekeys();
+    const listing = await directory.listPrekeys(userId);
+    const now = Date.now();
+
+    const listed = new Set(listing?.oneTimePrekeyIds ?? []);
+    for (const [id, prekey] of Object.entries(local.oneTimePrekeys)) {
+      if (listed.has(Number(id))) continue;
+      prekey.claimedAt ??= now;
+      if (now - prekey.claimedAt > CLAIMED_PREKEY_RETENTION_MS) delete local.oneTimePrekeys[Number(id)];
+    }
+
+    // Also rotate a signed prekey whose signature does not cover the current identity key,
+    // e.g. one signed under the v1 statement
+    let signedPrekey = local.signedPrekeys[0]?.published;
+    const current =
+      signedPrekey &&
+      now - Date.parse(signedPrekey.createdAt) <= SIGNED_PREKEY_MAX_AGE_MS &&
+      (await verifySignature(
+        signedPrekeyMessage(userId, identityKeyOf(keyPairs), signedPrekey),
+        signedPrekey.signature,
+        keyPairs.signature.publicKey
+      ));
+    if (!signedPrekey || !current) {
+      console.log("🔹 Rotating signed prekey...");
+      signedPrekey = await createSignedPrekey(userId, keyPairs, local);
+    }
+
+    const oneTimePrekeys: OneTimePrekey[] = [];
+    if (listed.size < MIN_ONE_TIME_PREKEYS) {
+      console.log(`🔹 Only ${listed.size} one-time prekeys left, uploading ${ONE_TIME_PREKEY_BATCH} more...`);
+      oneTimePrekeys.push(...(await createOneTimePrekeys(ONE_TIME_PREKEY_BATCH, local)));
+    }
+
+    // New private keys are only stored once the directory has accepted their public halves
+    if (listing?.signedPrekeyId !== signedPrekey.id || oneTimePrekeys.length > 0) {
+      console.log("🔹 Publishing PQXDH prekey bundle...");
+      await directory.publish(publishedPrekeys(userId, keyPairs, signedPrekey, oneTimePrekeys));
+    }
+    await saveLocalPrekeys(local);
+    return oneTimePrekeys.length;
+  });
+}
+
+/* 🔹 **Key Agreement** */
+
+/**
+ * Combine the component secrets with HKDF-SHA-384. The transcript binds both identity
+ * keys, the prekey IDs and every ciphertext, so a bundle cannot be mixed and matched.
+ */
+function derivePqxdhSecret(
+  secrets: string[],
+  recipientId: string,
+  identityKey: string,
+  init: PrekeyInit
+): string {
+  const transcript = concatBytes(
+    PQXDH_LABEL,
+    utf8ToBytes(recipientId),
+    hexToBytes(identityKey),
+    utf8ToBytes(`${init.signedPrekeyId}:${init.oneTimePrekeyId ?? ""}`),
+    hexToBytes(init.identityCiphertext),
+    hexToBytes(init.signedPrekeyCiphertext),
+    hexToBytes(init.oneTimePrekeyCiphertext ?? "")
+  );
+  const ikm = concatBytes(...secrets.map((secret) => hexToBytes(secret)));
+  return bytesToHex(hkdf(sha384, ikm, PQXDH_LABEL, transcript, 32));
+}
+
+/**
+ * ✅ Initiator: derive a session secret from a recipient's bundle
+ * @param expectedSigningKey - Signature key already pinned for the contact, if any;
+ *   a bundle signed by a different key is rejected
+ * @param expectedIdentityKey - Encryption key already pinned for the contact, if any;
+ *   a bundle carrying a different identity key is rejected
+ */
+export async function initiateFromBundle(
+  bundle: PrekeyBundle,
+  expectedSigningKey?: TaggedPublicKey,
+  expectedIdentityKey?: TaggedPublicKey
+): Promise<{ sharedSecret: string; init: PrekeyInit }> {
+  if (bundle.identityKey.algorithm !== HYBRID_KEM_ALGORITHM) {
+    throw new Error(`Unsupported identity key: ${bundle.identityKey.algorithm}`);
+  }
+  if (expectedSigningKey && expectedSigningKey.key !== bundle.signingKey.key) {
+    throw new Error("Prekey bundle is signed by a different identity than the one on record");
+  }
+  if (expectedIdentityKey && expectedIdentityKey.key !== bundle.identityKey.key) {
+    throw new Error("Prekey bundle carries a different identity key than the one on record");
+  }
+  const { signedPrekey, oneTimePrekey } = bundle;
+  const validSignature = await verifySignature(
+    signedPrekeyMessage(bundle.userId, bundle.identityKey, signedPrekey),
+    signedPrekey.signature,
+    bundle.signingKey.key
+  );
+  if (!validSignature) throw new Error("Invalid signed prekey signature");
+
+  console.log("🔹 Running PQXDH key agreement...");
+  const identity = await encapsulate(bundle.identityKey.key);
+  const signed = await kemEncapsulate(signedPrekey.algorithm, signedPrekey.publicKey);
+  const oneTime = oneTimePrekey ? await kemEncapsulate(PREKEY_ALGORITHM, oneTimePrekey.publicKey) : undefined;
+
+  const init: PrekeyInit = {
+    signedPrekeyId: signedPrekey.id,
+    oneTimePrekeyId: oneTimePrekey?.id,
+    identityCiphertext: identity.ciphertext,
+    signedPrekeyCiphertext: signed.ciphertext,
+    oneTimePrekeyCiphertext: oneTime?.ciphertext,
+  };
+  const secrets = [identity.sharedKey, signed.sharedSecret, ...(oneTime ? [oneTime.sharedSecret] : [])];
+  return { sharedSecret: derivePqxdhSecret(secrets, bundle.userId, bundle.identityKey.key, init), init };
+}
+
+/**
+ * ✅ Recipient: derive the initiator's session secret
+ * Leaves the one-time prekey in place; call `deleteOneTimePrekey` once the session derived
+ * from it has been stored, after which replaying the same init fails.
+ */
+export async function acceptPrekeyInit(
+  userId: string,
+  identityKey: KeyPair,
+  init: PrekeyInit
+): Promise<string> {
+  const local = await loadLocalPrekeys();
+  const signedPrekey = local.signedPrekeys.find((prekey) => prekey.id === init.signedPrekeyId);
+  if (!signedPrekey) throw new Error(`Unknown or expired signed prekey ${init.signedPrekeyId}`);
+
+  const secrets = [
+    await decapsulate(init.identityCiphertext, identityKey.privateKey),
+    await kemDecapsulate(signedPrekey.keyPair.algorithm, init.signedPrekeyCiphertext, signedPrekey.keyPair.privateKey),
+  ];
+  if (init.oneTimePrekeyId !== undefined) {
+    const oneTimePrekey = local.oneTimePrekeys[init.oneTimePrekeyId]?.keyPair;
+    if (!oneTimePrekey || !init.oneTimePrekeyCiphertext) {
+      throw new Error(`One-time prekey ${init.oneTimePrekeyId} was already used`);
+    }
+    secrets.push(await kemDecapsulate(oneTimePrekey.algorithm, init.oneTimePrekeyCiphertext, oneTimePrekey.privateKey));
+  }
+
+  return derivePqxdhSecret(secrets, userId, identityKey.publicKey, init);
+}
+
+// ✅ Forget a one-time prekey once a session derived from it is stored
+export async function deleteOneTimePrekey(id: number): Promise<void> {
+  await withPrekeyLock(async () => {
+    const local = await loadLocalPrekeys();
+    if (!local.oneTimePrekeys[id]) return;
+    delete local.oneTimePrekeys[id];
+    await saveLocalPrekeys(local);
+  });
+}
@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { generateSessionKey } from "@/lib/crypto";
+import {
+  initInitiatorRatchet,
+  initResponderRatchet,
+  MAX_SKIP,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  RatchetMessage,
+  RatchetOptions,
+  RatchetState,
+} from "@/lib/ratchet";
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+/* 🔹 **Two-Party Harness** */
+
+interface Party {
+  name: string;
+  state: RatchetState;
+  /** Messages sent to this party and not yet delivered. */
+  inbox: Array<RatchetMessage & { plaintext: string }>;
+  received: string[];
+}
+
+async function createParties(options?: RatchetOptions): Promise<[Party, Party]> {
+  const sharedSecret = await generateSessionKey();
+  return [
+    { name: "alice", state: await initInitiatorRatchet(sharedSecret, options), inbox: [], received: [] },
+    { name: "bob", state: initResponderRatchet(sharedSecret, options), inbox: [], received: [] },
+  ];
+}
+
+function associatedData(from: Party, to: Party): Uint8Array {
+  return utf8ToBytes(`${from.name}->${to.name}`);
+}
+
+async function send(from: Party, to: Party, plaintext: string): Promise<RatchetMessage> {
+  const { state, message } = await ratchetEncrypt(from.state, plaintext, associatedData(from, to));
+  from.state = state;
+  to.inbox.push({ ...message, plaintext });
+  return message;
+}
+
+// Deliver the inbox message at `index` (default: the oldest)
+async function deliver(from: Party, to: Party, index = 0): Promise<string> {
+  const [message] = to.inbox.splice(index, 1);
+  const { state, plaintext } = await ratchetDecrypt(to.state, message, associatedData(from, to));
+  expect(plaintext).toBe(message.plaintext);
+  to.state = state;
+  to.received.push(plaintext);
+  return plaintext;
+}
+
+// Deterministic PRNG (SHA-256 counter) so a failing schedule can be replayed
+function seededRandom(seed: string): (bound: number) => number {
+  let counter = 0;
+  return (bound) => {
+    const digest = sha256(utf8ToBytes(`${seed}:${counter++}`));
+    return parseInt(bytesToHex(digest.subarray(0, 4)), 16) % bound;
+  };
+}
+
+/* 🔹 **Conversations** */
+
+describe.each([
+  { kemRatchet: true, aead: "AES-256-GCM" },
+  { kemRatchet: false, aead: "ChaCha20-Poly1305" },
+])("double ratchet (kemRatchet: $kemRatchet, $aead)", (options) => {
+  it("exchanges messages in order in both directions", async () => {
+    const [alice, bob] = await createParties(options);
+    for (let round = 0; round < 3; round++) {
+      await send(alice, bob, `a${round}`);
+      await deliver(alice, bob);
+      await send(bob, alice, `b${round}`);
+      await deliver(bob, alice);
+    }
+    expect(bob.received).toEqual(["a0", "a1", "a2"]);
+    expect(alice.received).toEqual(["b0", "b1", "b2"]);
+  });
+
+  it("decrypts messages reordered within a chain", async () => {
+    const [alice, bob] = await createParties(options);
+    for (const text of ["a0", "a1", "a2", "a3"]) await send(alice, bob, text);
+
+    await deliver(alice, bob, 2);
+    await deliver(alice, bob, 0);
+    await deliver(alice, bob, 1);
+    await deliver(alice, bob, 0);
+    expect(bob.received).toEqual(["a2", "a0", "a3", "a1"]);
+  });
+
+  it("decrypts late messages from an earlier chain", async () => {
+    const [alice, bob] = await createParties(options);
+    await send(alice, bob, "a0");
+    await send(alice, bob, "a1");
+    await deliver(alice, bob);
+    await send(bob, alice, "b0");
+    await deliver(bob, alice);
+    await send(alice, bob, "a2");
+
+    // a2 opens Alice's next chain; a1 is still in flight from the previous one
+    await deliver(alice, bob, 1);
+    await deliver(alice, bob, 0);
+    expect(bob.received).toEqual(["a0", "a2", "a1"]);
+  });
+
+  it("survives a random schedule of sends and out-of-order deliveries", async () => {
+    const [alice, bob] = await createParties(options);
+    const random = seededRandom(`ratchet:${options.kemRatchet}`);
+    const sent = { alice: [] as string[], bob: [] as string[] };
+
+    for (let step = 0; step < 60; step++) {
+      const [from, to] = random(2) === 0 ? [alice, bob] : [bob, alice];
+      // Bob cannot send until Alice's first message reaches him
+      if (random(3) > 0 && (from === alice || bob.received.length > 0)) {
+        const text = `${from.name}-${step}`;
+        await send(from, to, text);
+        sent[from.name as "alice" | "bob"].push(text);
+      } else if (to.inbox.length > 0) {
+        await deliver(from, to, random(to.inbox.length));
+      }
+    }
+    while (bob.inbox.length > 0) await deliver(alice, bob, random(bob.inbox.length));
+    while (alice.inbox.length > 0) await deliver(bob, alice, random(alice.inbox.length));
+
+    expect([...bob.received].sort()).toEqual([...sent.alice].sort());
+    expect([...alice.received].sort()).toEqual([...sent.bob].sort());
+  });
+});
+
+/* 🔹 **Rejected Messages** */
+
+describe("double ratchet rejects", () => {
+  it("replayed messages", async () => {
+    const [alice, bob] = await createParties();
+    const message = await send(alice, bob, "a0");
+    await deliver(alice, bob);
+    await expect(ratchetDecrypt(bob.state, message, associatedData(alice, bob))).rejects.toThrow("already used");
+  });
+
+  it("tampered messages without advancing the session", async () => {
+    const [alice, bob] = await createParties();
+    const message = await send(alice, bob, "a0");
+    const before = structuredClone(bob.state);
+
+    const tampered = { ...message, header: { ...message.header, messageNumber: 1 } };
+    await expect(ratchetDecrypt(bob.state, tampered, associatedData(alice, bob))).rejects.toThrow();
+    await expect(ratchetDecrypt(bob.state, message, associatedData(bob, alice))).rejects.toThrow();
+    expect(bob.state).toEqual(before);
+    await deliver(alice, bob);
+  });
+
+  it("gaps larger than MAX_SKIP", async () => {
+    const [alice, bob] = await createParties();
+    alice.state.sendingChain.messageNumber = MAX_SKIP + 1;
+    const message = await send(alice, bob, "a0");
+    await expect(ratchetDecrypt(bob.state, message, associatedData(alice, bob))).rejects.toThrow("Refusing to skip");
+  });
+
+  it("replies before the responder has received anything", async () => {
+    const [, bob] = await createParties();
+    await expect(ratchetEncrypt(bob.state, "b0")).rejects.toThrow("Cannot start a sending chain");
+  });
+});
@@ -0,0 +1,345 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { sha384 } from "@noble/hashes/sha512";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  decryptMessage,
+  encryptMessageWith,
+  fingerprintPublicKey,
+  generateKeypair,
+  kemDecapsulate,
+  kemEncapsulate,
+  KeyPair,
+} from "@/lib/crypto";
+import { DEFAULT_ALGORITHMS } from "@/lib/algorithms";
+
+/**
+ * ✅ Post-Quantum Double Ratchet
+ * - Symmetric-key ratchet: every message gets a fresh key from an HMAC-SHA-256 chain.
+ * - Asymmetric ratchet: whenever the speaker changes, the new sender encapsulates to the
+ *   peer's latest ML-KEM ratchet key and mixes the secret into the root key (HKDF-SHA-384),
+ *   restoring secrecy after a state compromise. Steps strictly alternate between the
+ *   parties, so both sides apply root-key updates in the same order.
+ * State is plain JSON (hex strings) so it can be persisted per contact.
+ */
+
+export const RATCHET_KEM_ALGORITHM = "ML-KEM-768";
+/** Largest gap in one chain we derive keys across before refusing a message. */
+export const MAX_SKIP = 1000;
+/** Upper bound on stored skipped-message keys; the oldest are evicted first. */
+const MAX_SKIPPED_KEYS = 2000;
+/** Own ratchet keys kept for peers that have not yet seen our newest one. */
+const RETAINED_KEM_KEYS = 3;
+
+const ROOT_INFO = utf8ToBytes("TetraCryptPQC/ratchet/root");
+const INIT_INFO = utf8ToBytes("TetraCryptPQC/ratchet/init");
+
+export interface RatchetOptions {
+  /** Perform ML-KEM ratchet steps on every change of speaker (Settings → Perfect Forward Secrecy). */
+  kemRatchet: boolean;
+  /** AEAD suite used for message bodies. */
+  aead: string;
+}
+
+export interface RatchetHeader {
+  /** Sender's ratchet public key for this chain; identifies the chain. */
+  kemPublicKey: string;
+  /** ML-KEM ciphertext that started this chain (absent on the initiator's first chain). */
+  kemCiphertext?: string;
+  /** Fingerprint of the recipient ratchet key `kemCiphertext` was encapsulated to. */
+  kemTarget?: string;
+  previousChainLength: number;
+  messageNumber: number;
+}
+
+interface SendingChain {
+  publicKey: string;
+  kemCiphertext?: string;
+  kemTarget?: string;
+  chainKey: string;
+  messageNumber: number;
+}
+
+interface ReceivingChain {
+  remotePublicKey: string;
+  chainKey: string;
+  messageNumber: number;
+}
+
+export interface RatchetState {
+  version: 1;
+  kemAlgorithm: string;
+  options: RatchetOptions;
+  rootKey: string;
+  /** Initiator's first chain key, until the responder has used it. */
+  initialChainKey: string | null;
+  /** Newest first. */
+  ownKemKeys: KeyPair[];
+  remoteKemPublicKey: string | null;
+  /** The peer advertised a new ratchet key; our next message starts a new chain. */
+  needsKemStep: boolean;
+  sendingChain: SendingChain | null;
+  receivingChain: ReceivingChain | null;
+  previousSendingChainLength: number;
+  /** `<chain fingerprint>:<message number>` → message key. */
+  skippedMessageKeys: Record<string, string>;
+}
+
+export interface RatchetMessage {
+  header: RatchetHeader;
+  ciphertext: string;
+}
+
+export const DEFAULT_RATCHET_OPTIONS: RatchetOptions = {
+  kemRatchet: true,
+  aead: DEFAULT_ALGORITHMS.aead,
+};
+
+/* 🔹 **Key Derivation** */
+
+function kdfRoot(rootKey: string, sharedSecret: string): [string, string] {
+  const output = hkdf(sha384, hexToBytes(sharedSecret), hexToBytes(rootKey), ROOT_INFO, 64);
+  return [bytesToHex(output.slice(0, 32)), bytesToHex(output.slice(32))];
+}
+
+/** Symmetric chain step: `[next chain key, message key]`. Group sender keys use the same step. */
+export function kdfChain(chainKey: string): [string, string] {
+  const key = hexToBytes(chainKey);
+  const messageKey = hmac(sha256, key, new Uint8Array([0x01]));
+  const nextChainKey = hmac(sha256, key, new Uint8Array([0x02]));
+  return [bytesToHex(nextChainKey), bytesToHex(messageKey)];
+}
+
+function kdfInit(sharedSecret: string): [string, string] {
+  const output = hkdf(sha384, hexToBytes(sharedSecret), undefined, INIT_INFO, 64);
+  return [bytesToHex(output.slice(0, 32)), bytesToHex(output.slice(32))];
+}
+
+/** Canonical header encoding, authenticated as AEAD associated data. */
+export function encodeRatchetHeader(header: RatchetHeader): Uint8Array {
+  return utf8ToBytes(
+    JSON.stringify([
+      header.kemPublicKey,
+      header.kemCiphertext ?? "",
+      header.kemTarget ?? "",
+      header.previousChainLength,
+      header.messageNumber,
+    ])
+  );
+}
+
+function associatedDataFor(header: RatchetHeader, associatedData?: Uint8Array): Uint8Array {
+  return concatBytes(associatedData ?? new Uint8Array(), encodeRatchetHeader(header));
+}
+
+function skippedKeyId(remotePublicKey: string, messageNumber: number): string {
+  return `${fingerprintPublicKey(remotePublicKey)}:${messageNumber}`;
+}
+
+/* 🔹 **Session Initialisation** */
+
+/**
+ * ✅ Start a ratchet as the party that sends first
+ * @param sharedSecret - Hex secret agreed out of band (hybrid KEM or PQXDH)
+ */
+export async function initInitiatorRatchet(
+  sharedSecret: string,
+  options: RatchetOptions = DEFAULT_RATCHET_OPTIONS
+): Promise<RatchetState> {
+  const [rootKey, chainKey] = kdfInit(sharedSecret);
+  const ownKey = await generateKeypair(RATCHET_KEM_ALGORITHM);
+  return {
+    version: 1,
+    kemAlgorithm: RATCHET_KEM_ALGORITHM,
+    options,
+    rootKey,
+    initialChainKey: null,
+    ownKemKeys: [ownKey],
+    remoteKemPublicKey: null,
+    needsKemStep: false,
+    sendingChain: { publicKey: ownKey.publicKey, chainKey, messageNumber: 0 },
+    receivingChain: null,
+    previousSendingChainLength: 0,
+    skippedMessageKeys: {},
+  };
+}
+
+/** ✅ Start a ratchet as the party that receives first (cannot send until a message arrives). */
+export function initResponderRatchet(
+  sharedSecret: string,
+  options: RatchetOptions = DEFAULT_RATCHET_OPTIONS
+): RatchetState {
+  const [rootKey, chainKey] = kdfInit(sharedSecret);
+  return {
+    version: 1,
+    kemAlgorithm: RATCHET_KEM_ALGORITHM,
+    options,
+    rootKey,
+    initialChainKey: chainKey,
+    ownKemKeys: [],
+    remoteKemPublicKey: null,
+    needsKemStep: false,
+    sendingChain: null,
+    receivingChain: null,
+    previousSendingChainLength: 0,
+    skippedMessageKeys: {},
+  };
+}
+
+/* 🔹 **Asymmetric (ML-KEM) Ratchet Steps** */
+
+async function sendingStep(state: RatchetState): Promise<void> {
+  if (!state.remoteKemPublicKey) {
+    throw new Error("Cannot start a sending chain before receiving the peer's ratchet key");
+  }
+  const { ciphertext, sharedSecret } = await kemEncapsulate(state.kemAlgorithm, state.remoteKemPublicKey);
+  const [rootKey, chainKey] = kdfRoot(state.rootKey, sharedSecret);
+  const ownKey = await generateKeypair(state.kemAlgorithm);
+
+  state.rootKey = rootKey;
+  state.previousSendingChainLength = state.sendingChain?.messageNumber ?? 0;
+  state.sendingChain = {
+    publicKey: ownKey.publicKey,
+    kemCiphertext: ciphertext,
+    kemTarget: fingerprintPublicKey(state.remoteKemPublicKey),
+    chainKey,
+    messageNumber: 0,
+  };
+  state.ownKemKeys = [ownKey, ...state.ownKemKeys].slice(0, RETAINED_KEM_KEYS);
+  state.needsKemStep = false;
+}
+
+async function receivingStep(state: RatchetState, header: RatchetHeader): Promise<void> {
+  let chainKey: string;
+  if (!header.kemCiphertext) {
+    // The initiator's first chain is derived from the shared secret, not a KEM step
+    if (!state.initialChainKey || state.receivingChain) {
+      throw new Error("Unexpected chain without a KEM ciphertext");
+    }
+    chainKey = state.initialChainKey;
+    state.initialChainKey = null;
+  } else {
+    const ownKey = state.ownKemKeys.find((key) => fingerprintPublicKey(key.publicKey) === header.kemTarget);
+    if (!ownKey) throw new Error("Message encapsulated to an unknown or expired ratchet key");
+    const sharedSecret = await kemDecapsulate(state.kemAlgorithm, header.kemCiphertext, ownKey.privateKey);
+    [state.rootKey, chainKey] = kdfRoot(state.rootKey, sharedSecret);
+  }
+
+  state.receivingChain = { remotePublicKey: header.kemPublicKey, chainKey, messageNumber: 0 };
+  state.remoteKemPublicKey = header.kemPublicKey;
+  // Answer with a fresh ML-KEM step, unless the user disabled PFS and we already have a chain
+  state.needsKemStep = state.options.kemRatchet || !state.sendingChain;
+}
+
+/* 🔹 **Skipped-Message Keys** */
+
+function skipMessageKeys(state: RatchetState, until: number): void {
+  const chain = state.receivingChain;
+  if (!chain) return;
+  if (until - chain.messageNumber > MAX_SKIP) {
+    throw new Error(`Refusing to skip more than ${MAX_SKIP} messages`);
+  }
+  while (chain.messageNumber < until) {
+    const [nextChainKey, messageKey] = kdfChain(chain.chainKey);
+    state.skippedMessageKeys[skippedKeyId(chain.remotePublicKey, chain.messageNumber)] = messageKey;
+    chain.chainKey = nextChainKey;
+    chain.messageNumber += 1;
+  }
+
+  const ids = Object.keys(state.skippedMessageKeys);
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SKIPPED_KEYS))) {
+    delete state.skippedMessageKeys[id];
+  }
+}
+
+/* 🔹 **Encrypt / Decrypt** */
+
+/**
+ * ✅ Encrypt the next message in a session
+ * @param associatedData - Extra context to authenticate alongside the ratchet header
+ * @returns The updated state (the input is not mutated), the message to send and its
+ *   message key (for callers that keep their own wrapped copy of history)
+ */
+export async function ratchetEncrypt(
+  current: RatchetState,
+  plaintext: string,
+  associatedData?: Uint8Array
+): Promise<{ state: RatchetState; message: RatchetMessage; messageKey: string }> {
+  const state: RatchetState = structuredClone(current);
+  if (!state.sendingChain || state.needsKemStep) {
+    await sendingStep(state);
+  }
+
+  const chain = state.sendingChain;
+  const [nextChainKey, messageKey] = kdfChain(chain.chainKey);
+  const header: RatchetHeader = {
+    kemPublicKey: chain.publicKey,
+    kemCiphertext: chain.kemCiphertext,
+    kemTarget: chain.kemTarget,
+    previousChainLength: state.previousSendingChainLength,
+    messageNumber: chain.messageNumber,
+  };
+  chain.chainKey = nextChainKey;
+  chain.messageNumber += 1;
+
+  const ciphertext = await encryptMessageWith(
+    state.options.aead,
+    plaintext,
+    messageKey,
+    associatedDataFor(header, associatedData)
+  );
+  return { state, message: { header, ciphertext }, messageKey };
+}
+
+/**
+ * ✅ Decrypt a message, handling out-of-order delivery within and across chains
+ * State is only advanced when decryption succeeds, so forged or replayed messages leave
+ * the session untouched.
+ */
+export async function ratchetDecrypt(
+  current: RatchetState,
+  message: RatchetMessage,
+  associatedData?: Uint8Array
+): Promise<{ state: RatchetState; plaintext: string; messageKey: string }> {
+  const state: RatchetState = structuredClone(current);
+  const { header, ciphertext } = message;
+  const ad = associatedDataFor(header, associatedData);
+
+  const skippedId = skippedKeyId(header.kemPublicKey, header.messageNumber);
+  const skippedKey = state.skippedMessageKeys[skippedId];
+  if (skippedKey) {
+    const plaintext = await decryptMessage(ciphertext, skippedKey, ad);
+    delete state.skippedMessageKeys[skippedId];
+    return { state, plaintext, messageKey: skippedKey };
+  }
+
+  if (state.receivingChain?.remotePublicKey !== header.kemPublicKey) {
+    skipMessageKeys(state, header.previousChainLength);
+    await receivingStep(state, header);
+  }
+
+  const chain = state.receivingChain;
+  if (header.messageNumber < chain.messageNumber) {
+    throw new Error("Message key already used (duplicate or replayed message)");
+  }
+  skipMessageKeys(state, header.messageNumber);
+
+  const [nextChainKey, messageKey] = kdfChain(chain.chainKey);
+  const plaintext = await decryptMessage(ciphertext, messageKey, ad);
+  chain.chainKey = nextChainKey;
+  chain.messageNumber += 1;
+  return { state, plaintext, messageKey };
+}
+
+/**
+ * ✅ Re-open a message whose key was kept by the caller, without touching any session state
+ * @param messageKey - Key returned by `ratchetEncrypt` / `ratchetDecrypt` for this message
+ */
+export async function decryptWithMessageKey(
+  message: RatchetMessage,
+  messageKey: string,
+  associatedData?: Uint8Array
+): Promise<string> {
+  return decryptMessage(message.ciphertext, messageKey, associatedDataFor(message.header, associatedData));
+}
@@ -0,0 +1,99 @@
+import { Envelope, envelopeAssociatedData, sealedContent } from "@/lib/envelope";
+import { hasSession, openFromContact, sealEnvelope } from "@/lib/sessions";
+import { relayClient } from "@/lib/relay-client";
+import { addMessage, getContacts, getMessagesForContact, getUserProfile, Message } from "@/lib/storage";
+import { DEFAULT_USER_SETTINGS } from "@/lib/storage-types";
+import { getUnlockedKeyPairs } from "@/lib/vault";
+
+/**
+ * ✅ Delivery & Read Receipts
+ * Receipts travel as ordinary ratchet-encrypted, signed envelopes with `kind: "receipt"`, so
+ * the relay cannot forge or read them. A receipt can only move the status of messages we
+ * sent to the contact who signed it, and statuses only ever move forward. Receipts are only
+ * sent for messages that decrypted, over the session those messages established; a receipt
+ * never starts a session of its own.
+ */
+
+export type ReceiptStatus = "delivered" | "read";
+
+export interface Receipt {
+  status: ReceiptStatus;
+  messageIds: string[];
+}
+
+// A receipt for a message still in the outbox means an earlier attempt got through
+const STATUS_ORDER: Record<Message["status"], number> = { pending: 0, failed: 0, sent: 1, delivered: 2, read: 3 };
+
+// ✅ Read receipts are on unless switched off for this contact
+export function sendsReadReceipts(contactId: string): boolean {
+  return getContacts().find((c) => c.id === contactId)?.sendReadReceipts !== false;
+}
+
+/**
+ * ✅ Seal, sign and relay a receipt for messages received from a contact
+ * @returns The receipt envelope, or null when nothing was sent (read receipts disabled, no session)
+ */
+export async function sendReceipt(contactId: string, status: ReceiptStatus, messageIds: string[]): Promise<Envelope | null> {
+  const user = getUserProfile();
+  const contact = getContacts().find((c) => c.id === contactId);
+  if (!user || !contact || messageIds.length === 0) return null;
+  if (status === "read" && !sendsReadReceipts(contactId)) return null;
+  if (!hasSession(contactId)) {
+    console.warn(`⚠️ No session with ${contactId}; not sending a ${status} receipt`);
+    return null;
+  }
+
+  const settings = { ...DEFAULT_USER_SETTINGS, ...user.settings };
+  const receipt: Receipt = { status, messageIds };
+  const { envelope } = await sealEnvelope(contact, user.id, JSON.stringify(receipt), getUnlockedKeyPairs().signature, {
+    kemRatchet: settings.perfectForwardSecrecy,
+    kind: "receipt",
+  });
+  relayClient.send(envelope);
+  return envelope;
+}
+
+/**
+ * ✅ Decrypt a verified receipt envelope through the contact's session
+ * @param envelope - Must already be signature-checked against the sender's key
+ */
+export async function openReceipt(envelope: Envelope): Promise<Receipt> {
+  if (envelope.kind !== "receipt") throw new Error("Envelope is not a receipt");
+  const { plaintext } = await openFromContact(
+    envelope.senderId,
+    {
+      senderId: envelope.senderId,
+      receiverId: envelope.recipientId,
+      encryptedContent: sealedContent(envelope),
+      header: envelope.header,
+      sessionInit: envelope.sessionInit,
+    },
+    getUnlockedKeyPairs().encryption,
+    envelopeAssociatedData(envelope)
+  );
+
+  const receipt = JSON.parse(plaintext) as Receipt;
+  if (
+    (receipt.status !== "delivered" && receipt.status !== "read") ||
+    !Array.isArray(receipt.messageIds) ||
+    !receipt.messageIds.every((id) => typeof id === "string")
+  ) {
+    throw new Error("Malformed receipt");
+  }
+  return receipt;
+}
+
+/**
+ * ✅ Apply a receipt from `contactId` to the messages we sent them
+ * @returns The messages whose status changed
+ */
+export function applyReceipt(contactId: string, receipt: Receipt): Message[] {
+  const ids = new Set(receipt.messageIds);
+  const updated = getMessagesForContact(contactId)
+    .filter((m) => ids.has(m.id) && m.receiverId === contactId)
+    .filter((m) => STATUS_ORDER[receipt.status] > STATUS_ORDER[m.status])
+    .map((m) => ({ ...m, status: receipt.status }));
+
+  updated.forEach((message) => addMessage(message));
+  return updated;
+}
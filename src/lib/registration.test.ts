@@ -0,0 +1,125 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { bytesToHex } from "@noble/hashes/utils";
+import { ec, hash, num, shortString } from "starknet";
+import { generateKeypair, KeyPair } from "@/lib/crypto";
+import {
+  createRegistrationBinding,
+  pqKeyCommitment,
+  RegistrationBinding,
+  registrationCalldata,
+  RegistrationContext,
+  verifyRegistrationBinding,
+} from "@/lib/registration";
+
+const context: RegistrationContext = {
+  contractAddress: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+  chainId: shortString.encodeShortString("SN_SEPOLIA"),
+};
+const userAddress = "0x1234";
+
+let pqKey: KeyPair;
+let starkPrivateKey: string;
+
+/* 🔹 **Contract Model** */
+
+// `register_user` and `get_user` from `starknet/src/lib.cairo`, written
+// out independently of `@/lib/registration` so the two must agree on the statement
+class RegistryModel {
+  private users = new Map<string, [string, string]>();
+
+  constructor(private readonly deployment: RegistrationContext) {}
+
+  registerUser(caller: string, calldata: string[]): void {
+    const [user, starkKey, commitment, r, s] = calldata;
+    if (BigInt(caller) !== BigInt(user)) throw new Error("Caller is not the account");
+
+    const statement = hash.computePoseidonHashOnElements([
+      shortString.encodeShortString("TetraCrypt/register/v1"),
+      this.deployment.chainId,
+      this.deployment.contractAddress,
+      user,
+      starkKey,
+      commitment,
+    ]);
+    // `check_ecdsa_signature` takes the key as an x-coordinate and accepts either point
+    const signature = new ec.starkCurve.Signature(BigInt(r), BigInt(s));
+    const x = num.toHex(starkKey).slice(2).padStart(64, "0");
+    if (!["02", "03"].some((prefix) => ec.starkCurve.verify(signature, statement, prefix + x))) {
+      throw new Error("Invalid registration signature");
+    }
+    this.users.set(num.toHex(user), [starkKey, commitment]);
+  }
+
+  getUser(user: string): [string, string] {
+    return this.users.get(num.toHex(user)) ?? ["0x0", "0x0"];
+  }
+}
+
+async function binding(): Promise<RegistrationBinding> {
+  return createRegistrationBinding(userAddress, starkPrivateKey, pqKey, context);
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  pqKey = await generateKeypair("ML-DSA-44");
+  starkPrivateKey = `0x${bytesToHex(ec.starkCurve.utils.randomPrivateKey())}`;
+});
+
+/* 🔹 **Registration Flow** */
+
+describe("StarkNet registration", () => {
+  it("registers a dual-signed binding that peers can check against the chain", async () => {
+    const registry = new RegistryModel(context);
+    const registration = await binding();
+    expect(await verifyRegistrationBinding(registration, context)).toBe(true);
+
+    registry.registerUser(userAddress, registrationCalldata(registration));
+
+    // A peer receives the binding off-chain and checks it against what the contract stored
+    const [starkKey, commitment] = registry.getUser(userAddress);
+    expect(BigInt(starkKey)).toBe(BigInt(ec.starkCurve.getStarkKey(starkPrivateKey)));
+    expect(BigInt(commitment)).toBe(BigInt(pqKeyCommitment(pqKey.algorithm, pqKey.publicKey)));
+    expect(await verifyRegistrationBinding(registration, context)).toBe(true);
+  });
+
+  it("is refused by the contract when sent from another account", async () => {
+    const registry = new RegistryModel(context);
+    const calldata = registrationCalldata(await binding());
+    expect(() => registry.registerUser("0x5678", calldata)).toThrow("Caller is not the account");
+  });
+
+  it("cannot be replayed against another deployment or chain", async () => {
+    const registration = await binding();
+    const otherDeployment = { ...context, contractAddress: "0x1" };
+    const otherChain = { ...context, chainId: shortString.encodeShortString("SN_MAIN") };
+
+    for (const other of [otherDeployment, otherChain]) {
+      expect(await verifyRegistrationBinding(registration, other)).toBe(false);
+      expect(() => new RegistryModel(other).registerUser(userAddress, registrationCalldata(registration))).toThrow(
+        "Invalid registration signature"
+      );
+    }
+  });
+
+  it("is refused on-chain when the Stark signature does not cover the PQ key", async () => {
+    const registry = new RegistryModel(context);
+    const other = await generateKeypair("ML-DSA-44");
+    const swapped = { ...(await binding()), pqKeyCommitment: pqKeyCommitment(other.algorithm, other.publicKey) };
+    expect(() => registry.registerUser(userAddress, registrationCalldata(swapped))).toThrow(
+      "Invalid registration signature"
+    );
+  });
+
+  it("fails off-chain verification when the PQ half was not signed by the key it names", async () => {
+    const registration = await binding();
+    const otherKey = await generateKeypair("ML-DSA-44");
+    const other = await createRegistrationBinding(userAddress, starkPrivateKey, otherKey, context);
+
+    // Claims this user's PQ key but carries a signature from a different one
+    expect(await verifyRegistrationBinding({ ...registration, pqSignature: other.pqSignature }, context)).toBe(false);
+    // Claims a different PQ key than the one that signed
+    const claimed = { ...registration, pqPublicKey: other.pqPublicKey, pqKeyCommitment: other.pqKeyCommitment };
+    expect(await verifyRegistrationBinding(claimed, context)).toBe(false);
+  });
+});
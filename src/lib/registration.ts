@@ -0,0 +1,156 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { ec, hash, num, shortString } from "starknet";
+import { KeyPair, signMessage, verifySignature } from "@/lib/crypto";
+
+/**
+ * ✅ StarkNet Registration
+ * A user registers by publishing a binding statement that ties their StarkNet account and
+ * Stark key to their post-quantum identity key, signed by both keys. Neither signature alone
+ * lets someone register a key they do not hold:
+ * - The contract recomputes the statement hash and checks the Stark signature on-chain, and
+ *   only accepts the registration from the account itself.
+ * - Post-quantum signatures are too large to verify on-chain, so the contract stores a
+ *   commitment to the PQ key instead. Peers verify the full binding off-chain
+ *   (`verifyRegistrationBinding`) and check its commitment against the one on-chain.
+ * The statement includes the contract address and chain ID, so it cannot be replayed
+ * against another deployment or network.
+ */
+
+// Field elements, must match the constants in `starknet/src/lib.cairo`
+export const REGISTRATION_DOMAIN = shortString.encodeShortString("TetraCrypt/register/v1");
+export const PQ_KEY_COMMITMENT_DOMAIN = shortString.encodeShortString("TetraCrypt/pq-key/v1");
+const PQ_SIGNATURE_CONTEXT = "TetraCryptPQC/registration/v1:";
+
+export interface RegistrationContext {
+  /** Address of the TetraCrypt messaging contract the binding is for. */
+  contractAddress: string;
+  /** StarkNet chain ID (e.g. `SN_MAIN` as a felt, from `provider.getChainId()`). */
+  chainId: string;
+}
+
+export interface RegistrationBinding {
+  userAddress: string;
+  starkKey: string;
+  pqAlgorithm: string;
+  pqPublicKey: string;
+  /** Poseidon commitment to the PQ key, the value stored on-chain. */
+  pqKeyCommitment: string;
+  /** Poseidon hash of the binding statement, signed by both keys. */
+  statementHash: string;
+  /** ECDSA signature `[r, s]` over `statementHash` with the Stark key. */
+  starkSignature: [string, string];
+  /** Algorithm-tagged PQ signature over `statementHash`. */
+  pqSignature: string;
+}
+
+/* 🔹 **Binding Statement** */
+
+/**
+ * ✅ Commit to a post-quantum public key in a single field element
+ * The SHA-256 of the algorithm and key is split into two 128-bit halves, since a felt holds
+ * fewer than 256 bits.
+ */
+export function pqKeyCommitment(algorithm: string, publicKey: string): string {
+  const digest = sha256(concatBytes(utf8ToBytes(algorithm), new Uint8Array([0]), hexToBytes(publicKey)));
+  const high = num.toHex(`0x${bytesToHex(digest.subarray(0, 16))}`);
+  const low = num.toHex(`0x${bytesToHex(digest.subarray(16))}`);
+  return hash.computePoseidonHashOnElements([PQ_KEY_COMMITMENT_DOMAIN, high, low]);
+}
+
+// ✅ The statement both keys sign; the contract computes the same hash
+export function registrationStatementHash(
+  userAddress: string,
+  starkKey: string,
+  commitment: string,
+  context: RegistrationContext
+): string {
+  return hash.computePoseidonHashOnElements([
+    REGISTRATION_DOMAIN,
+    context.chainId,
+    context.contractAddress,
+    userAddress,
+    starkKey,
+    commitment,
+  ]);
+}
+
+/* 🔹 **Signing & Verification** */
+
+/**
+ * ✅ Create a dual-signed registration binding
+ * @param userAddress - The StarkNet account that will send the registration
+ * @param starkPrivateKey - Private key behind the account's Stark key
+ * @param pqKey - The user's post-quantum signature key pair (from the vault)
+ * @param context - Contract and chain the registration is for
+ */
+export async function createRegistrationBinding(
+  userAddress: string,
+  starkPrivateKey: string,
+  pqKey: KeyPair,
+  context: RegistrationContext
+): Promise<RegistrationBinding> {
+  console.log("🔹 Creating dual-signed registration binding...");
+
+  const starkKey = ec.starkCurve.getStarkKey(starkPrivateKey);
+  const commitment = pqKeyCommitment(pqKey.algorithm, pqKey.publicKey);
+  const statementHash = registrationStatementHash(userAddress, starkKey, commitment, context);
+
+  // ✅ Sign the same statement with both keys
+  const { r, s } = ec.starkCurve.sign(statementHash, starkPrivateKey);
+  const pqSignature = await signMessage(PQ_SIGNATURE_CONTEXT + statementHash, pqKey.privateKey, pqKey.algorithm);
+
+  return {
+    userAddress: num.toHex(userAddress),
+    starkKey: num.toHex(starkKey),
+    pqAlgorithm: pqKey.algorithm,
+    pqPublicKey: pqKey.publicKey,
+    pqKeyCommitment: commitment,
+    statementHash,
+    starkSignature: [num.toHex(r), num.toHex(s)],
+    pqSignature,
+  };
+}
+
+// A Stark key is an x-coordinate; like Cairo's `check_ecdsa_signature`, accept either point
+function verifyStarkSignature(signature: [string, string], messageHash: string, starkKey: string): boolean {
+  const x = num.toHex(starkKey).slice(2).padStart(64, "0");
+  const parsed = new ec.starkCurve.Signature(BigInt(signature[0]), BigInt(signature[1]));
+  return ["02", "03"].some((prefix) => {
+    try {
+      return ec.starkCurve.verify(parsed, messageHash, prefix + x);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * ✅ Verify both signatures on a registration binding
+ * Recomputes the commitment and statement, so a binding only verifies for the given
+ * contract and chain. Compare `pqKeyCommitment` with the value stored on-chain to complete
+ * the check.
+ * @returns False for malformed bindings as well as invalid ones
+ */
+export async function verifyRegistrationBinding(binding: RegistrationBinding, context: RegistrationContext): Promise<boolean> {
+  try {
+    const commitment = pqKeyCommitment(binding.pqAlgorithm, binding.pqPublicKey);
+    const statementHash = registrationStatementHash(binding.userAddress, binding.starkKey, commitment, context);
+    if (BigInt(commitment) !== BigInt(binding.pqKeyCommitment) || BigInt(statementHash) !== BigInt(binding.statementHash)) {
+      return false;
+    }
+
+    // The commitment covers the algorithm, so the signature must be made with it
+    if (!binding.pqSignature.startsWith(`${binding.pqAlgorithm}:`)) return false;
+    if (!verifyStarkSignature(binding.starkSignature, statementHash, binding.starkKey)) return false;
+    return await verifySignature(PQ_SIGNATURE_CONTEXT + statementHash, binding.pqSignature, binding.pqPublicKey);
+  } catch (error) {
+    console.warn("❌ Registration binding verification failed:", error);
+    return false;
+  }
+}
+
+// ✅ Calldata for the contract's `register_user`
+export function registrationCalldata(binding: RegistrationBinding): string[] {
+  return [binding.userAddress, binding.starkKey, binding.pqKeyCommitment, ...binding.starkSignature];
+}
@@ -0,0 +1,240 @@
+import { KeyPair, signMessage } from "@/lib/crypto";
+import { deserializeEnvelope, Envelope, serializeEnvelope } from "@/lib/envelope";
+import type { PrekeyBundle, PrekeyDirectory, PrekeyListing, PublishedPrekeys } from "@/lib/prekeys";
+import { ClientFrame, DEFAULT_RELAY_PORT, relayChallengeMessage, ServerFrame } from "@/lib/relay-protocol";
+
+/**
+ * ✅ Relay Client
+ * Keeps one authenticated connection to the relay, reconnecting after drops. Sends are not
+ * buffered here; retrying chat messages is the outbox's job (`@/lib/outbox`). Incoming
+ * envelopes are handled one at a time, in the order they arrive, and acknowledged only after
+ * every listener has handled them, so the relay re-delivers anything we failed to store.
+ */
+
+export const RELAY_URL: string = import.meta.env.VITE_RELAY_URL ?? `ws://localhost:${DEFAULT_RELAY_PORT}`;
+const RECONNECT_DELAY_MS = 3000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export type RelayEvent =
+  | { type: "connected" }
+  | { type: "accepted"; id: string; queued: boolean }
+  | { type: "delivered"; id: string }
+  | { type: "error"; message: string; id?: string };
+
+type EnvelopeListener = (envelope: Envelope) => void | Promise<void>;
+type EventListener = (event: RelayEvent) => void;
+
+/** Frames answered by a reply carrying the same `requestId`. */
+export type RelayRequest = Extract<ClientFrame, { requestId: string }>;
+type RelayReply = Extract<ServerFrame, { type: "prekeysPublished" | "prekeyListing" | "prekeyBundle" }>;
+
+interface PendingRequest {
+  resolve: (reply: RelayReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class RelayClient {
+  private socket: WebSocket | null = null;
+  private identity: { userId: string; signingKey: KeyPair } | null = null;
+  private authenticated = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private envelopeListeners = new Set<EnvelopeListener>();
+  private eventListeners = new Set<EventListener>();
+  private requests = new Map<string, PendingRequest>();
+  // Frames are handled in order: an envelope can depend on the one before it (a group update
+  // starts the epoch its next message uses)
+  private frameQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly url: string = RELAY_URL) {}
+
+  // ✅ Connect (or switch identity) and authenticate with the user's signature key
+  connect(userId: string, signingKey: KeyPair): void {
+    if (this.identity?.userId === userId && this.socket) return;
+    this.identity = { userId, signingKey };
+    this.open();
+  }
+
+  // ✅ Close the connection and stop reconnecting
+  disconnect(): void {
+    this.identity = null;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.authenticated = false;
+    this.failRequests("Relay disconnected");
+  }
+
+  isConnected(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * ✅ Hand a signed envelope to the relay
+   * @param recipients - Group envelopes only: the members to fan it out to
+   * @returns False if there is no authenticated connection; the relay confirms with an `accepted` event
+   */
+  send(envelope: Envelope, recipients?: string[]): boolean {
+    if (!this.authenticated) return false;
+    return this.write({ type: "MessageSent", envelope: serializeEnvelope(envelope), recipients });
+  }
+
+  /**
+   * ✅ Send a request frame and wait for its reply
+   * Rejects without an authenticated connection, when the relay answers with an error, or
+   * after `REQUEST_TIMEOUT_MS`.
+   */
+  request(frame: RelayRequest): Promise<RelayReply> {
+    if (!this.authenticated) return Promise.reject(new Error("Relay is not connected"));
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.requests.delete(frame.requestId);
+        reject(new Error(`Relay did not answer ${frame.type}`));
+      }, REQUEST_TIMEOUT_MS);
+      this.requests.set(frame.requestId, { resolve, reject, timer });
+      if (!this.write(frame)) {
+        clearTimeout(timer);
+        this.requests.delete(frame.requestId);
+        reject(new Error("Relay is not connected"));
+      }
+    });
+  }
+
+  onEnvelope(listener: EnvelopeListener): () => void {
+    this.envelopeListeners.add(listener);
+    return () => {
+      this.envelopeListeners.delete(listener);
+    };
+  }
+
+  onEvent(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /* 🔹 **Connection Handling** */
+
+  private open(): void {
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.authenticated = false;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onmessage = (event) => {
+      const frame = JSON.parse(event.data) as ServerFrame;
+      const handle = () =>
+        this.handleFrame(frame).catch((error) => console.error("❌ Error processing relay frame:", error));
+      // Replies skip the queue, so a listener waiting on a request cannot block its own answer
+      if (this.isReply(frame)) handle();
+      else this.frameQueue = this.frameQueue.then(handle);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.authenticated = false;
+      this.socket = null;
+      this.failRequests("Relay disconnected");
+      if (!this.identity) return;
+      console.log(`🔴 Relay disconnected. Reconnecting in ${RECONNECT_DELAY_MS / 1000}s...`);
+      this.reconnectTimer = setTimeout(() => this.open(), RECONNECT_DELAY_MS);
+    };
+    socket.onerror = () => console.warn("⚠️ Relay unavailable; messages will be sent once it is reachable");
+  }
+
+  private failRequests(reason: string): void {
+    this.requests.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    });
+    this.requests.clear();
+  }
+
+  // ✅ Hand a reply (or an error answering a request) to whoever is waiting for it
+  private settleRequest(requestId: string | undefined, reply: RelayReply | Error): boolean {
+    const pending = requestId === undefined ? undefined : this.requests.get(requestId);
+    if (!pending) return false;
+    this.requests.delete(requestId);
+    clearTimeout(pending.timer);
+    if (reply instanceof Error) pending.reject(reply);
+    else pending.resolve(reply);
+    return true;
+  }
+
+  private isReply(frame: ServerFrame): boolean {
+    return (
+      frame.type === "prekeysPublished" ||
+      frame.type === "prekeyListing" ||
+      frame.type === "prekeyBundle" ||
+      (frame.type === "error" && frame.requestId !== undefined)
+    );
+  }
+
+  private write(frame: ClientFrame): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(frame));
+    return true;
+  }
+
+  private async handleFrame(frame: ServerFrame): Promise<void> {
+    switch (frame.type) {
+      case "challenge": {
+        if (!this.identity) return;
+        const { userId, signingKey } = this.identity;
+        const signature = await signMessage(
+          relayChallengeMessage(frame.nonce, userId),
+          signingKey.privateKey,
+          signingKey.algorithm
+        );
+        this.write({ type: "auth", userId, publicKey: signingKey.publicKey, signature });
+        return;
+      }
+      case "authenticated": {
+        console.log(`🔹 Authenticated with relay (${frame.queued} queued)`);
+        this.authenticated = true;
+        this.eventListeners.forEach((listener) => listener({ type: "connected" }));
+        return;
+      }
+      case "MessageSent": {
+        const envelope = deserializeEnvelope(frame.envelope);
+        await Promise.all([...this.envelopeListeners].map((listener) => listener(envelope)));
+        this.write({ type: "ack", id: envelope.id });
+        return;
+      }
+      case "prekeysPublished":
+      case "prekeyListing":
+      case "prekeyBundle":
+        this.settleRequest(frame.requestId, frame);
+        return;
+      default:
+        if (frame.type === "error" && this.settleRequest(frame.requestId, new Error(frame.message))) return;
+        this.eventListeners.forEach((listener) => listener(frame));
+    }
+  }
+}
+
+/* 🔹 **Prekey Directory** */
+
+// ✅ The relay's prekey directory (`@/lib/prekeys`), reached over the client's authenticated connection
+export class RelayPrekeyDirectory implements PrekeyDirectory {
+  constructor(private readonly client: RelayClient) {}
+
+  async publish(prekeys: PublishedPrekeys): Promise<void> {
+    await this.client.request({ type: "publishPrekeys", requestId: crypto.randomUUID(), prekeys });
+  }
+
+  async fetchBundle(userId: string): Promise<PrekeyBundle | null> {
+    const reply = await this.client.request({ type: "fetchPrekeys", requestId: crypto.randomUUID(), userId });
+    return reply.type === "prekeyBundle" ? reply.bundle : null;
+  }
+
+  async listPrekeys(): Promise<PrekeyListing | null> {
+    const reply = await this.client.request({ type: "listPrekeys", requestId: crypto.randomUUID() });
+    return reply.type === "prekeyListing" ? reply.listing : null;
+  }
+}
+
+// ✅ Default client shared by the chat UI
+export const relayClient = new RelayClient();
+export const relayPrekeyDirectory = new RelayPrekeyDirectory(relayClient);
@@ -0,0 +1,50 @@
+import type { PrekeyBundle, PrekeyListing, PublishedPrekeys } from "@/lib/prekeys";
+
+/**
+ * ✅ Relay Wire Protocol
+ * Frames exchanged between clients and the WebSocket relay (`src/backend/relay.ts`). The relay
+ * only ever handles serialized, signed envelopes; it never sees plaintext or message keys.
+ *
+ * 1. Server → `challenge` with a random nonce
+ * 2. Client → `auth`, signing `relayChallengeMessage(nonce, userId)` with its identity key
+ * 3. Server → `authenticated`, then flushes any envelopes queued while the client was offline
+ * 4. Client → `MessageSent`; server → `accepted` (delivered live or queued). Group envelopes
+ *    list their `recipients` and are fanned out to each of them.
+ * 5. Recipient → `ack` once stored; server drops it from the queue and sends `delivered` to the sender
+ *
+ * The relay also hosts the PQXDH prekey directory (`@/lib/prekeys`). Authenticated clients
+ * `publishPrekeys` (their own, signed by the key they authenticated with), `listPrekeys`
+ * (their own) and `fetchPrekeys` (anyone's bundle); each reply echoes the `requestId`.
+ */
+
+export const RELAY_PROTOCOL = "TetraCryptPQC/relay/v1";
+/** Vite's dev server already binds 8080. */
+export const DEFAULT_RELAY_PORT = 8787;
+/** Envelopes for offline recipients are kept this long. */
+export const DEFAULT_RELAY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/** Largest fan-out for one group envelope. */
+export const MAX_GROUP_RECIPIENTS = 100;
+
+export type ClientFrame =
+  | { type: "auth"; userId: string; publicKey: string; signature: string }
+  | { type: "MessageSent"; envelope: string; recipients?: string[] }
+  | { type: "ack"; id: string }
+  | { type: "publishPrekeys"; requestId: string; prekeys: PublishedPrekeys }
+  | { type: "listPrekeys"; requestId: string }
+  | { type: "fetchPrekeys"; requestId: string; userId: string };
+
+export type ServerFrame =
+  | { type: "challenge"; nonce: string }
+  | { type: "authenticated"; queued: number }
+  | { type: "MessageSent"; envelope: string }
+  | { type: "accepted"; id: string; queued: boolean }
+  | { type: "delivered"; id: string }
+  | { type: "prekeysPublished"; requestId: string }
+  | { type: "prekeyListing"; requestId: string; listing: PrekeyListing | null }
+  | { type: "prekeyBundle"; requestId: string; bundle: PrekeyBundle | null }
+  | { type: "error"; message: string; id?: string; requestId?: string };
+
+// ✅ The exact string a client signs to prove it holds the identity key for `userId`
+export function relayChallengeMessage(nonce: string, userId: string): string {
+  return `${RELAY_PROTOCOL}:auth:${userId}:${nonce}`;
+}
@@ -0,0 +1,136 @@
+import { sha512 } from "@noble/hashes/sha512";
+import { concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { fingerprintPublicKey } from "@/lib/crypto";
+import { getContactPublicKey } from "@/lib/algorithms";
+import type { Contact } from "@/lib/storage-types";
+
+/**
+ * ✅ Contact Verification
+ * Two people compare a safety number (or scan each other's QR code) to confirm that the
+ * identity keys their apps hold are the real ones. The safety number is derived from both
+ * parties' IDs and identity public keys, so it is the same on both devices and changes
+ * whenever either key does. Verified contacts remember the fingerprints they were verified
+ * with, so a later key change is detected rather than silently trusted.
+ */
+
+const SAFETY_NUMBER_VERSION = 1;
+/** Iterated hashing makes finding keys with a colliding safety number expensive. */
+const SAFETY_NUMBER_ITERATIONS = 5200;
+const VERIFY_URI_PREFIX = "tetracrypt://verify?";
+
+/** The identity keys a safety number covers. */
+export interface IdentityKeys {
+  encryption: string;
+  signature: string;
+}
+
+/** SHA-256 fingerprints of a party's identity keys. */
+export type IdentityFingerprints = IdentityKeys;
+
+export interface VerificationPayload {
+  version: number;
+  userId: string;
+  fingerprints: IdentityFingerprints;
+}
+
+export type ContactVerificationStatus = "verified" | "unverified" | "changed";
+
+/* 🔹 **Fingerprints** */
+
+export function identityFingerprints(keys: IdentityKeys): IdentityFingerprints {
+  return { encryption: fingerprintPublicKey(keys.encryption), signature: fingerprintPublicKey(keys.signature) };
+}
+
+// ✅ A contact's current identity keys, or null if either is missing
+export function contactIdentityKeys(contact: Pick<Contact, "publicKeys">): IdentityKeys | null {
+  const encryption = getContactPublicKey(contact, "encryption");
+  const signature = getContactPublicKey(contact, "signature");
+  return encryption && signature ? { encryption: encryption.key, signature: signature.key } : null;
+}
+
+/* 🔹 **Safety Numbers** */
+
+// 30 digits for one party: six 5-digit chunks from the iterated hash
+function partyDigits(userId: string, keys: IdentityKeys): string {
+  const keyBytes = concatBytes(hexToBytes(keys.encryption), hexToBytes(keys.signature));
+  let hash = sha512(concatBytes(new Uint8Array([0, SAFETY_NUMBER_VERSION]), keyBytes, utf8ToBytes(userId)));
+  for (let i = 1; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    hash = sha512(concatBytes(hash, keyBytes));
+  }
+
+  let digits = "";
+  for (let offset = 0; offset < 30; offset += 5) {
+    const chunk = hash.subarray(offset, offset + 5).reduce((value, byte) => value * 256 + byte, 0);
+    digits += String(chunk % 100000).padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * ✅ 60-digit safety number for a pair of users, identical on both sides
+ * @returns Twelve space-separated groups of five digits
+ */
+export function safetyNumber(localId: string, localKeys: IdentityKeys, remoteId: string, remoteKeys: IdentityKeys): string {
+  const halves = [partyDigits(localId, localKeys), partyDigits(remoteId, remoteKeys)].sort();
+  return halves.join("").match(/.{5}/g).join(" ");
+}
+
+/* 🔹 **QR Payload** */
+
+// ✅ `tetracrypt://verify?v=1&id=…&enc=…&sig=…`, shown as a QR code for in-person verification
+export function encodeVerificationPayload(userId: string, keys: IdentityKeys): string {
+  const { encryption, signature } = identityFingerprints(keys);
+  const params = new URLSearchParams({ v: String(SAFETY_NUMBER_VERSION), id: userId, enc: encryption, sig: signature });
+  return VERIFY_URI_PREFIX + params.toString();
+}
+
+export function parseVerificationPayload(payload: string): VerificationPayload {
+  const trimmed = payload.trim();
+  if (!trimmed.startsWith(VERIFY_URI_PREFIX)) throw new Error("Not a TetraCrypt verification code");
+
+  const params = new URLSearchParams(trimmed.slice(VERIFY_URI_PREFIX.length));
+  const version = Number(params.get("v"));
+  if (version !== SAFETY_NUMBER_VERSION) throw new Error(`Unsupported verification code version: ${params.get("v")}`);
+
+  const userId = params.get("id");
+  const encryption = params.get("enc");
+  const signature = params.get("sig");
+  if (!userId || !encryption || !signature) throw new Error("Verification code is incomplete");
+  return { version, userId, fingerprints: { encryption, signature } };
+}
+
+/**
+ * ✅ Check a scanned code against the keys stored for a contact
+ * @returns True only if the user ID and both key fingerprints match
+ */
+export function matchesVerificationPayload(contact: Contact, payload: VerificationPayload): boolean {
+  const keys = contactIdentityKeys(contact);
+  if (!keys || payload.userId !== contact.id) return false;
+  const current = identityFingerprints(keys);
+  return current.encryption === payload.fingerprints.encryption && current.signature === payload.fingerprints.signature;
+}
+
+/* 🔹 **Verified Contacts** */
+
+// ✅ Mark a contact verified against the keys currently stored for them
+export function markContactVerified(contact: Contact): Contact {
+  const keys = contactIdentityKeys(contact);
+  if (!keys) throw new Error("Contact has no identity keys to verify");
+  return { ...contact, verified: true, verifiedFingerprints: identityFingerprints(keys) };
+}
+
+export function clearContactVerification(contact: Contact): Contact {
+  return { ...contact, verified: false, verifiedFingerprints: undefined };
+}
+
+/** `changed`: the contact was verified, but their stored keys no longer match. */
+export function contactVerificationStatus(contact: Contact): ContactVerificationStatus {
+  if (!contact.verified || !contact.verifiedFingerprints) return "unverified";
+  const keys = contactIdentityKeys(contact);
+  if (!keys) return "changed";
+  const current = identityFingerprints(keys);
+  return current.encryption === contact.verifiedFingerprints.encryption &&
+    current.signature === contact.verifiedFingerprints.signature
+    ? "verified"
+    : "changed";
+}
@@ -0,0 +1,318 @@
+import { concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  decapsulate,
+  decryptMessage,
+  encapsulate,
+  encryptMessage,
+  encryptMessageWith,
+  generateSessionKey,
+  HYBRID_KEM_ALGORITHM,
+  KeyPair,
+} from "@/lib/crypto";
+import { DEFAULT_ALGORITHMS, TaggedPublicKey } from "@/lib/algorithms";
+import { kdfChain, MAX_SKIP } from "@/lib/ratchet";
+import type { OpenedMessage } from "@/lib/sessions";
+import type { Message } from "@/lib/storage-types";
+import { getLocalKey } from "@/lib/vault";
+
+/**
+ * ✅ Group Sender Keys
+ * Each member encrypts their group messages under their own sender key: an HMAC-SHA-256
+ * chain (the double ratchet's symmetric step) that yields a fresh key per message and cannot
+ * be run backwards. A sender key belongs to one group epoch, and every membership change
+ * starts a new epoch, so removed members cannot read later messages and new members cannot
+ * read earlier ones. The current chain key is handed to each other member wrapped with
+ * ML-KEM-1024 (plus X25519 in hybrid mode) to their long-term encryption key, and attached
+ * to the sender's messages until one of them has reached the relay. Stored chains are
+ * encrypted with the vault's local key.
+ */
+
+const SENDER_KEY_STORAGE_PREFIX = "tetracrypt.senderkey.";
+
+/** Identifies the sender key and chain position a group message was sealed with. */
+export interface SenderKeyHeader {
+  groupId: string;
+  epoch: number;
+  iteration: number;
+}
+
+/** A sender's chain key at `SenderKeyHeader.iteration`, wrapped for one member. */
+export interface SenderKeyDistribution {
+  recipientId: string;
+  kemCiphertext: string;
+  wrappedChainKey: string;
+}
+
+/** A member a sender key is wrapped for. */
+export interface SenderKeyRecipient {
+  id: string;
+  encryptionKey?: TaggedPublicKey;
+}
+
+interface SenderKeyState {
+  groupId: string;
+  senderId: string;
+  epoch: number;
+  chainKey: string;
+  iteration: number;
+  /** Keys for iterations skipped by out-of-order delivery. */
+  skippedKeys: Record<number, string>;
+  /** Own keys: messages that carried this key to the other members. */
+  distributedIn: string[];
+  /** Own keys: one of `distributedIn` reached the relay, so the key is no longer attached. */
+  distributed: boolean;
+}
+
+export interface GroupSealOptions {
+  aead?: string;
+  /** Settings → Hybrid Encryption, for wrapping the sender key. */
+  hybrid?: boolean;
+  /** Extra context authenticated with the ciphertext (see `envelopeAssociatedData`). */
+  associatedData?: Uint8Array;
+  /** Whether any of these messages has been accepted by the relay. */
+  isDelivered?: (messageIds: string[]) => boolean;
+}
+
+export interface GroupSealedMessage {
+  encryptedContent: string;
+  header: SenderKeyHeader;
+  senderKeys?: SenderKeyDistribution[];
+  /** Per-message key; only ever persisted wrapped under the vault's local key. */
+  messageKey: string;
+}
+
+/* 🔹 **Persistence** */
+
+function storageKey(groupId: string, senderId: string, epoch: number): string {
+  return `${SENDER_KEY_STORAGE_PREFIX}${groupId}.${senderId}.${epoch}`;
+}
+
+// Binds a stored chain to its storage slot, so it cannot be moved to another sender or epoch
+function stateContext(groupId: string, senderId: string, epoch: number): Uint8Array {
+  return utf8ToBytes(`TetraCryptPQC/sender-key-state/v1:${storageKey(groupId, senderId, epoch)}`);
+}
+
+async function loadState(groupId: string, senderId: string, epoch: number): Promise<SenderKeyState | null> {
+  const raw = localStorage.getItem(storageKey(groupId, senderId, epoch));
+  if (!raw) return null;
+  if (raw.startsWith("{")) {
+    // Stored in plaintext before sender keys were wrapped; wrap it now
+    const state = JSON.parse(raw) as SenderKeyState;
+    await saveState(state);
+    return state;
+  }
+  return JSON.parse(await decryptMessage(raw, getLocalKey(), stateContext(groupId, senderId, epoch))) as SenderKeyState;
+}
+
+async function saveState(state: SenderKeyState): Promise<void> {
+  const { groupId, senderId, epoch } = state;
+  const wrapped = await encryptMessage(JSON.stringify(state), getLocalKey(), stateContext(groupId, senderId, epoch));
+  localStorage.setItem(storageKey(groupId, senderId, epoch), wrapped);
+}
+
+/**
+ * ✅ Forget the sender keys of a group
+ * @param beforeEpoch - Only drop keys from epochs older than this; omit to drop all
+ */
+export function deleteSenderKeys(groupId: string, beforeEpoch?: number): void {
+  const prefix = `${SENDER_KEY_STORAGE_PREFIX}${groupId}.`;
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .filter((key) => beforeEpoch === undefined || Number(key.slice(key.lastIndexOf(".") + 1)) < beforeEpoch)
+    .forEach((key) => localStorage.removeItem(key));
+}
+
+// Chain updates are read-modify-write; serialise them per sender key like ratchet sessions
+const senderKeyLocks = new Map<string, Promise<unknown>>();
+
+function withSenderKeyLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = senderKeyLocks.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  senderKeyLocks.set(key, run);
+  return run;
+}
+
+/* 🔹 **Encoding** */
+
+/** Binds each ciphertext to its sender and chain position. */
+function groupAssociatedData(senderId: string, header: SenderKeyHeader, associatedData?: Uint8Array): Uint8Array {
+  return concatBytes(
+    associatedData ?? new Uint8Array(),
+    utf8ToBytes(JSON.stringify([senderId, header.groupId, header.epoch, header.iteration]))
+  );
+}
+
+function wrapContext(groupId: string, epoch: number, senderId: string, recipientId: string): Uint8Array {
+  return utf8ToBytes(`TetraCryptPQC/sender-key/v1:${groupId}:${epoch}:${senderId}->${recipientId}`);
+}
+
+/* 🔹 **Distribution** */
+
+async function wrapChainKey(
+  state: SenderKeyState,
+  recipient: SenderKeyRecipient,
+  hybrid: boolean
+): Promise<SenderKeyDistribution> {
+  if (recipient.encryptionKey?.algorithm !== HYBRID_KEM_ALGORITHM) {
+    throw new Error(`Group member ${recipient.id} has no ${HYBRID_KEM_ALGORITHM} encryption key`);
+  }
+  const { ciphertext, sharedKey } = await encapsulate(recipient.encryptionKey.key, { hybrid });
+  return {
+    recipientId: recipient.id,
+    kemCiphertext: ciphertext,
+    wrappedChainKey: await encryptMessage(
+      state.chainKey,
+      sharedKey,
+      wrapContext(state.groupId, state.epoch, state.senderId, recipient.id)
+    ),
+  };
+}
+
+// Adopt a sender key wrapped for us; a chain we already hold is never rewound (that would allow replays)
+async function acceptDistribution(
+  header: SenderKeyHeader,
+  senderId: string,
+  distribution: SenderKeyDistribution,
+  ownEncryptionKey: KeyPair
+): Promise<void> {
+  if (await loadState(header.groupId, senderId, header.epoch)) return;
+
+  const sharedKey = await decapsulate(distribution.kemCiphertext, ownEncryptionKey.privateKey);
+  const chainKey = await decryptMessage(
+    distribution.wrappedChainKey,
+    sharedKey,
+    wrapContext(header.groupId, header.epoch, senderId, distribution.recipientId)
+  );
+  await saveState({
+    groupId: header.groupId,
+    senderId,
+    epoch: header.epoch,
+    chainKey,
+    iteration: header.iteration,
+    skippedKeys: {},
+    distributedIn: [],
+    distributed: true,
+  });
+}
+
+/* 🔹 **Send / Receive** */
+
+/**
+ * ✅ Encrypt a group message under the sender's key for the current epoch
+ * A new sender key is created on the first message of an epoch.
+ * @param messageId - ID of the envelope being sealed, to track distribution of the key
+ * @param recipients - Every other member of the group
+ */
+export async function sealForGroup(
+  groupId: string,
+  epoch: number,
+  senderId: string,
+  messageId: string,
+  recipients: SenderKeyRecipient[],
+  plaintext: string,
+  options: GroupSealOptions = {}
+): Promise<GroupSealedMessage> {
+  return withSenderKeyLock(storageKey(groupId, senderId, epoch), async () => {
+    const state: SenderKeyState = (await loadState(groupId, senderId, epoch)) ?? {
+      groupId,
+      senderId,
+      epoch,
+      chainKey: await generateSessionKey(),
+      iteration: 0,
+      skippedKeys: {},
+      distributedIn: [],
+      distributed: false,
+    };
+    if (!state.distributed && options.isDelivered?.(state.distributedIn)) state.distributed = true;
+
+    const header: SenderKeyHeader = { groupId, epoch, iteration: state.iteration };
+    const hybrid = options.hybrid ?? true;
+    const senderKeys = state.distributed
+      ? undefined
+      : await Promise.all(recipients.map((recipient) => wrapChainKey(state, recipient, hybrid)));
+
+    const [nextChainKey, messageKey] = kdfChain(state.chainKey);
+    const encryptedContent = await encryptMessageWith(
+      options.aead ?? DEFAULT_ALGORITHMS.aead,
+      plaintext,
+      messageKey,
+      groupAssociatedData(senderId, header, options.associatedData)
+    );
+    await saveState({
+      ...state,
+      chainKey: nextChainKey,
+      iteration: state.iteration + 1,
+      distributedIn: senderKeys ? [...state.distributedIn, messageId] : state.distributedIn,
+    });
+
+    return { encryptedContent, header, senderKeys, messageKey };
+  });
+}
+
+/**
+ * ✅ Decrypt a group message from another member
+ * Picks up the sender's key from `senderKeys` when one is wrapped for us.
+ * @param ownId - Local user ID, to find our wrapped copy of the sender key
+ * @param ownEncryptionKey - Local long-term hybrid key pair
+ * @param associatedData - Must match what the sender passed to `sealForGroup`
+ */
+export async function openFromGroup(
+  message: Pick<Message, "senderId" | "encryptedContent" | "group" | "senderKeys">,
+  ownId: string,
+  ownEncryptionKey: KeyPair,
+  associatedData?: Uint8Array
+): Promise<OpenedMessage> {
+  const header = message.group;
+  if (!header) throw new Error("Message has no sender key header");
+
+  return withSenderKeyLock(storageKey(header.groupId, message.senderId, header.epoch), async () => {
+    const distribution = message.senderKeys?.find((entry) => entry.recipientId === ownId);
+    if (distribution) await acceptDistribution(header, message.senderId, distribution, ownEncryptionKey);
+
+    const state = await loadState(header.groupId, message.senderId, header.epoch);
+    if (!state) throw new Error("No sender key from this member for the current group epoch");
+    const ad = groupAssociatedData(message.senderId, header, associatedData);
+
+    if (header.iteration < state.iteration) {
+      const skippedKey = state.skippedKeys[header.iteration];
+      if (!skippedKey) throw new Error("Message key already used (duplicate or replayed message)");
+      const plaintext = await decryptMessage(message.encryptedContent, skippedKey, ad);
+      delete state.skippedKeys[header.iteration];
+      await saveState(state);
+      return { plaintext, messageKey: skippedKey };
+    }
+    if (header.iteration - state.iteration > MAX_SKIP) {
+      throw new Error(`Refusing to skip more than ${MAX_SKIP} messages`);
+    }
+
+    // Work on a copy so a forged message leaves the chain untouched
+    const next = structuredClone(state);
+    while (next.iteration < header.iteration) {
+      const [chainKey, skippedKey] = kdfChain(next.chainKey);
+      next.skippedKeys[next.iteration] = skippedKey;
+      next.chainKey = chainKey;
+      next.iteration += 1;
+    }
+    const [chainKey, messageKey] = kdfChain(next.chainKey);
+    const plaintext = await decryptMessage(message.encryptedContent, messageKey, ad);
+    await saveState({ ...next, chainKey, iteration: next.iteration + 1 });
+    return { plaintext, messageKey };
+  });
+}
+
+/**
+ * ✅ Decrypt a group message again from its stored message key (sent messages, reloaded history)
+ * @param associatedData - The same value passed when the message was sealed
+ */
+export async function openGroupWithMessageKey(
+  message: Pick<Message, "senderId" | "encryptedContent" | "group">,
+  messageKey: string,
+  associatedData?: Uint8Array
+): Promise<string> {
+  if (!message.group) throw new Error("Message has no sender key header");
+  return decryptMessage(
+    message.encryptedContent,
+    messageKey,
+    groupAssociatedData(message.senderId, message.group, associatedData)
+  );
+}
@@ -0,0 +1,90 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { utf8ToBytes } from "@noble/hashes/utils";
+import { decryptMessage, generateHybridKeypair, generateKeypair, KeyPair } from "@/lib/crypto";
+import { hasSession, openFromContact, resetSession, sealForContact } from "@/lib/sessions";
+import type { Contact } from "@/lib/storage-types";
+import { createVault, getLocalKey } from "@/lib/vault";
+
+const SESSION_STORAGE_PREFIX = "tetracrypt.session.";
+
+let alice: { contact: Contact; encryption: KeyPair };
+let bob: { contact: Contact; encryption: KeyPair };
+
+async function createUser(id: string) {
+  const encryption = await generateHybridKeypair();
+  const contact: Contact = {
+    id,
+    name: id,
+    publicKeys: { encryption: { algorithm: encryption.algorithm, key: encryption.publicKey } },
+    unreadCount: 0,
+  };
+  return { contact, encryption };
+}
+
+// Both users share this process's storage; their sessions are keyed by the other's ID
+async function sealAndOpen(from: typeof alice, to: typeof alice, plaintext: string) {
+  const sealed = await sealForContact(to.contact, from.contact.id, plaintext);
+  return openFromContact(
+    from.contact.id,
+    {
+      senderId: from.contact.id,
+      receiverId: to.contact.id,
+      encryptedContent: sealed.encryptedContent,
+      header: sealed.header,
+      sessionInit: sealed.sessionInit,
+    },
+    to.encryption
+  );
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  alice = await createUser("alice");
+  bob = await createUser("bob");
+  await createVault("correct horse battery", {
+    encryption: alice.encryption,
+    signature: await generateKeypair("ML-DSA-44"),
+  });
+});
+
+beforeEach(() => {
+  resetSession("alice");
+  resetSession("bob");
+});
+
+describe("sessions", () => {
+  it("bootstraps from the contact's hybrid key and ratchets both ways", async () => {
+    expect((await sealAndOpen(alice, bob, "hello bob")).plaintext).toBe("hello bob");
+    expect((await sealAndOpen(bob, alice, "hello alice")).plaintext).toBe("hello alice");
+    expect((await sealAndOpen(alice, bob, "how are you?")).plaintext).toBe("how are you?");
+    expect(hasSession("alice") && hasSession("bob")).toBe(true);
+  });
+
+  it("stores sessions encrypted with the vault's local key", async () => {
+    await sealAndOpen(alice, bob, "hello bob");
+    const stored = localStorage.getItem(SESSION_STORAGE_PREFIX + "bob");
+    expect(stored.startsWith("AES-256-GCM:")).toBe(true);
+    expect(stored).not.toContain("rootKey");
+  });
+
+  it("rejects a stored session moved to another contact", async () => {
+    await sealAndOpen(alice, bob, "hello bob");
+    localStorage.setItem(SESSION_STORAGE_PREFIX + "carol", localStorage.getItem(SESSION_STORAGE_PREFIX + "bob"));
+    const carol = { ...bob.contact, id: "carol" };
+    await expect(sealForContact(carol, "alice", "hello carol")).rejects.toThrow();
+    resetSession("carol");
+  });
+
+  it("wraps sessions stored in plaintext by earlier versions", async () => {
+    await sealAndOpen(alice, bob, "hello bob");
+    await sealAndOpen(bob, alice, "hello alice");
+
+    // Simulate the old format by unwrapping Alice's session into plain JSON
+    const wrapped = localStorage.getItem(SESSION_STORAGE_PREFIX + "bob");
+    const plaintext = await decryptMessage(wrapped, getLocalKey(), utf8ToBytes("TetraCryptPQC/session/v1:bob"));
+    localStorage.setItem(SESSION_STORAGE_PREFIX + "bob", plaintext);
+
+    expect((await sealAndOpen(alice, bob, "still here")).plaintext).toBe("still here");
+    expect(localStorage.getItem(SESSION_STORAGE_PREFIX + "bob").startsWith("AES-256-GCM:")).toBe(true);
+  });
+});
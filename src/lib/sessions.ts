@@ -0,0 +1,341 @@
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { sha256 } from "@noble/hashes/sha256";
+import {
+  decapsulate,
+  decryptMessage,
+  encapsulate,
+  encryptMessage,
+  fingerprintPublicKey,
+  HYBRID_KEM_ALGORITHM,
+  KeyPair,
+} from "@/lib/crypto";
+import { DEFAULT_ALGORITHMS, getContactPublicKey } from "@/lib/algorithms";
+import {
+  decryptWithMessageKey,
+  initInitiatorRatchet,
+  initResponderRatchet,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  RATCHET_KEM_ALGORITHM,
+  RatchetHeader,
+  RatchetState,
+} from "@/lib/ratchet";
+import {
+  Envelope,
+  ENVELOPE_VERSION,
+  EnvelopeKind,
+  envelopeAssociatedData,
+  EnvelopeMetadata,
+  signEnvelope,
+  splitSealedContent,
+} from "@/lib/envelope";
+import {
+  acceptPrekeyInit,
+  deleteOneTimePrekey,
+  initiateFromBundle,
+  PQXDH_PROTOCOL,
+  PrekeyDirectory,
+  PrekeyInit,
+} from "@/lib/prekeys";
+import type { Contact, Message } from "@/lib/storage-types";
+import { getLocalKey } from "@/lib/vault";
+
+/**
+ * ✅ Per-Contact Ratchet Sessions
+ * A session is bootstrapped from the contact's prekey bundle (PQXDH, `@/lib/prekeys`) or,
+ * when no bundle is available, by encapsulating to the contact's long-term hybrid key. Every
+ * message then goes through the double ratchet (`@/lib/ratchet`). Until the contact
+ * replies, outgoing messages repeat the bootstrap ciphertext in `sessionInit` so the
+ * contact can set up the matching session from any of them. Sessions hold live ratchet
+ * keys, so they are stored encrypted with the vault's local key.
+ */
+
+const SESSION_STORAGE_PREFIX = "tetracrypt.session.";
+
+/** Bootstrap data attached to messages until the session is confirmed. */
+export interface SessionInit {
+  algorithm: string;
+  /** Ciphertext to the long-term hybrid key; also identifies the session. */
+  kemCiphertext: string;
+  /** Prekey ciphertexts when `algorithm` is PQXDH. */
+  prekeys?: PrekeyInit;
+}
+
+interface StoredSession {
+  contactId: string;
+  /** Bootstrap ciphertext this session was derived from; identifies the session. */
+  initCiphertext: string;
+  initAlgorithm: string;
+  initPrekeys?: PrekeyInit;
+  /** We started the session and have not yet heard back from the contact. */
+  pending: boolean;
+  ratchet: RatchetState;
+  updatedAt: string;
+}
+
+export interface SealOptions {
+  /** Settings → Hybrid Encryption; only used when a new session is bootstrapped. */
+  hybrid?: boolean;
+  /** Settings → Perfect Forward Secrecy: ML-KEM ratchet step on every reply. */
+  kemRatchet?: boolean;
+  aead?: string;
+  /** Directory to fetch the contact's prekey bundle from when starting a session. */
+  directory?: PrekeyDirectory;
+  /** Extra context authenticated with the ciphertext (see `envelopeAssociatedData`). */
+  associatedData?: Uint8Array;
+}
+
+export interface SealedMessage {
+  encryptedContent: string;
+  header: RatchetHeader;
+  sessionInit?: SessionInit;
+  /** Per-message key; only ever persisted wrapped under the vault's local key. */
+  messageKey: string;
+}
+
+export interface EnvelopeOptions extends Omit<SealOptions, "associatedData"> {
+  kind?: EnvelopeKind;
+}
+
+export interface OpenedMessage {
+  plaintext: string;
+  messageKey: string;
+}
+
+/* 🔹 **Persistence** */
+
+/** Binds a stored session to its contact, so wrapped sessions cannot be swapped. */
+function sessionContext(contactId: string): Uint8Array {
+  return utf8ToBytes(`TetraCryptPQC/session/v1:${contactId}`);
+}
+
+async function loadSession(contactId: string): Promise<StoredSession | null> {
+  const raw = localStorage.getItem(SESSION_STORAGE_PREFIX + contactId);
+  if (!raw) return null;
+  if (raw.startsWith("{")) {
+    // Stored in plaintext before sessions were wrapped; wrap it now
+    const session = JSON.parse(raw) as StoredSession;
+    await saveSession(session);
+    return session;
+  }
+  return JSON.parse(await decryptMessage(raw, getLocalKey(), sessionContext(contactId))) as StoredSession;
+}
+
+async function saveSession(session: StoredSession): Promise<void> {
+  session.updatedAt = new Date().toISOString();
+  const wrapped = await encryptMessage(JSON.stringify(session), getLocalKey(), sessionContext(session.contactId));
+  localStorage.setItem(SESSION_STORAGE_PREFIX + session.contactId, wrapped);
+}
+
+/** ✅ Forget the session with a contact; the next message bootstraps a new one. */
+export function resetSession(contactId: string): void {
+  localStorage.removeItem(SESSION_STORAGE_PREFIX + contactId);
+}
+
+export function hasSession(contactId: string): boolean {
+  return localStorage.getItem(SESSION_STORAGE_PREFIX + contactId) !== null;
+}
+
+// Ratchet updates are read-modify-write; serialise them per contact so concurrent
+// sends/receives cannot reuse a message key or lose a chain step.
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(contactId: string, task: () => Promise<T>): Promise<T> {
+  const previous = sessionLocks.get(contactId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  sessionLocks.set(contactId, run);
+  return run;
+}
+
+/** Binds each ciphertext to its direction so messages cannot be reflected back. */
+function messageAssociatedData(senderId: string, receiverId: string, associatedData?: Uint8Array): Uint8Array {
+  return concatBytes(utf8ToBytes(`${senderId}->${receiverId}`), associatedData ?? new Uint8Array());
+}
+
+/** Deterministic tie-break when both parties bootstrapped a session at the same time. */
+function initPrecedes(a: string, b: string): boolean {
+  return bytesToHex(sha256(a)) < bytesToHex(sha256(b));
+}
+
+// Without a bundle (e.g. the relay is unreachable) the session falls back to the long-term key
+async function fetchBundle(directory: PrekeyDirectory, contactId: string) {
+  try {
+    return await directory.fetchBundle(contactId);
+  } catch (error) {
+    console.warn("⚠️ Prekey bundle unavailable, using the contact's long-term key:", error);
+    return null;
+  }
+}
+
+/* 🔹 **Send / Receive** */
+
+/**
+ * ✅ Encrypt a message for a contact, creating the session on first use
+ * @param senderId - Local user ID, authenticated with the ciphertext
+ */
+export async function sealForContact(
+  contact: Contact,
+  senderId: string,
+  plaintext: string,
+  options: SealOptions = {}
+): Promise<SealedMessage> {
+  return withSessionLock(contact.id, async () => {
+    const ratchetOptions = {
+      kemRatchet: options.kemRatchet ?? true,
+      aead: options.aead ?? DEFAULT_ALGORITHMS.aead,
+    };
+
+    let session = await loadSession(contact.id);
+    const bundle = !session && options.directory ? await fetchBundle(options.directory, contact.id) : null;
+    if (bundle) {
+      const { sharedSecret, init } = await initiateFromBundle(
+        bundle,
+        getContactPublicKey(contact, "signature"),
+        getContactPublicKey(contact, "encryption")
+      );
+      session = {
+        contactId: contact.id,
+        initCiphertext: init.identityCiphertext,
+        initAlgorithm: PQXDH_PROTOCOL,
+        initPrekeys: init,
+        pending: true,
+        ratchet: await initInitiatorRatchet(sharedSecret, ratchetOptions),
+        updatedAt: "",
+      };
+    } else if (!session) {
+      const encryptionKey = getContactPublicKey(contact, "encryption");
+      if (encryptionKey?.algorithm !== HYBRID_KEM_ALGORITHM) {
+        throw new Error(`${contact.name} has no ${HYBRID_KEM_ALGORITHM} encryption key`);
+      }
+      const hybrid = options.hybrid ?? true;
+      const { ciphertext, sharedKey } = await encapsulate(encryptionKey.key, { hybrid });
+      session = {
+        contactId: contact.id,
+        initCiphertext: ciphertext,
+        initAlgorithm: hybrid ? HYBRID_KEM_ALGORITHM : "ML-KEM-1024",
+        pending: true,
+        ratchet: await initInitiatorRatchet(sharedKey, ratchetOptions),
+        updatedAt: "",
+      };
+    }
+    session.ratchet.options = ratchetOptions;
+
+    const { state, message, messageKey } = await ratchetEncrypt(
+      session.ratchet,
+      plaintext,
+      messageAssociatedData(senderId, contact.id, options.associatedData)
+    );
+    await saveSession({ ...session, ratchet: state });
+
+    return {
+      encryptedContent: message.ciphertext,
+      header: message.header,
+      sessionInit: session.pending
+        ? { algorithm: session.initAlgorithm, kemCiphertext: session.initCiphertext, prekeys: session.initPrekeys }
+        : undefined,
+      messageKey,
+    };
+  });
+}
+
+/**
+ * ✅ Decrypt a message received from a contact
+ * @param ownEncryptionKey - Local long-term hybrid key pair, needed for `sessionInit`
+ * @param associatedData - Must match what the sender passed to `sealForContact`
+ */
+export async function openFromContact(
+  contactId: string,
+  message: Pick<Message, "senderId" | "receiverId" | "encryptedContent" | "header" | "sessionInit">,
+  ownEncryptionKey: KeyPair,
+  associatedData?: Uint8Array
+): Promise<OpenedMessage> {
+  if (!message.header) throw new Error("Message has no ratchet header");
+
+  return withSessionLock(contactId, async () => {
+    let session = await loadSession(contactId);
+    const init = message.sessionInit;
+
+    const isNewInit = init && init.kemCiphertext !== session?.initCiphertext;
+    // Replace our session if the contact bootstrapped a new one, unless we started one
+    // concurrently that wins the tie-break (the contact will then adopt ours)
+    const adoptsInit = isNewInit && !(session?.pending && initPrecedes(session.initCiphertext, init.kemCiphertext));
+    if (adoptsInit) {
+      const sharedKey = init.prekeys
+        ? await acceptPrekeyInit(message.receiverId, ownEncryptionKey, init.prekeys)
+        : await decapsulate(init.kemCiphertext, ownEncryptionKey.privateKey);
+      session = {
+        contactId,
+        initCiphertext: init.kemCiphertext,
+        initAlgorithm: init.algorithm,
+        initPrekeys: init.prekeys,
+        pending: false,
+        ratchet: initResponderRatchet(sharedKey, session?.ratchet.options),
+        updatedAt: "",
+      };
+    }
+    if (!session) throw new Error("No session with this contact");
+
+    const { state, plaintext, messageKey } = await ratchetDecrypt(
+      session.ratchet,
+      { header: message.header, ciphertext: message.encryptedContent },
+      messageAssociatedData(message.senderId, message.receiverId, associatedData)
+    );
+    await saveSession({ ...session, pending: false, ratchet: state });
+    // Only now that the session is stored can the one-time prekey it used go
+    if (adoptsInit && init.prekeys?.oneTimePrekeyId !== undefined) await deleteOneTimePrekey(init.prekeys.oneTimePrekeyId);
+    return { plaintext, messageKey };
+  });
+}
+
+/**
+ * ✅ Decrypt a message again from its stored message key (sent messages, reloaded history)
+ * @param associatedData - The same value passed when the message was sealed
+ */
+export async function openWithMessageKey(
+  message: Pick<Message, "senderId" | "receiverId" | "encryptedContent" | "header">,
+  messageKey: string,
+  associatedData?: Uint8Array
+): Promise<string> {
+  if (!message.header) throw new Error("Message has no ratchet header");
+  return decryptWithMessageKey(
+    { header: message.header, ciphertext: message.encryptedContent },
+    messageKey,
+    messageAssociatedData(message.senderId, message.receiverId, associatedData)
+  );
+}
+
+/**
+ * ✅ Seal a payload for a contact and sign the resulting envelope
+ * @param signingKey - The sender's unlocked signature key pair
+ * @returns The signed envelope and the per-message key (for the sender's own history)
+ */
+export async function sealEnvelope(
+  contact: Contact,
+  senderId: string,
+  plaintext: string,
+  signingKey: KeyPair,
+  { kind, ...options }: EnvelopeOptions = {}
+): Promise<{ envelope: Envelope; messageKey: string }> {
+  const aead = options.aead ?? DEFAULT_ALGORITHMS.aead;
+  const metadata: EnvelopeMetadata = {
+    version: ENVELOPE_VERSION,
+    id: crypto.randomUUID(),
+    senderId,
+    recipientId: contact.id,
+    senderKeyFingerprint: fingerprintPublicKey(signingKey.publicKey),
+    timestamp: Date.now(),
+    algorithms: { kem: RATCHET_KEM_ALGORITHM, signature: signingKey.algorithm, aead },
+    kind,
+  };
+
+  const { encryptedContent, header, sessionInit, messageKey } = await sealForContact(contact, senderId, plaintext, {
+    ...options,
+    aead,
+    associatedData: envelopeAssociatedData(metadata),
+  });
+  const envelope = await signEnvelope(
+    { ...metadata, header, sessionInit, ...splitSealedContent(encryptedContent) },
+    signingKey
+  );
+  return { envelope, messageKey };
+}
@@ -0,0 +1,236 @@
+import {
+  Account,
+  AccountInterface,
+  DeployAccountContractPayload,
+  ResourceBounds,
+  WalletAccount,
+  constants,
+  ec,
+  hash,
+  num,
+  uint256,
+} from "starknet";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { decryptMessage, encryptMessage } from "@/lib/crypto";
+import { TrackedTransaction, getStarknetClient } from "@/lib/starknet-client";
+import { getLocalKey } from "@/lib/vault";
+
+/**
+ * ✅ StarkNet Accounts
+ * A StarkNet account is a contract, so a key pair alone is not an account. Users either
+ * - create one: the address is computed counterfactually from an account class and the Stark
+ *   key, the user funds it, and a DEPLOY_ACCOUNT transaction brings it into existence; or
+ * - connect an existing wallet (Argent X, Braavos) through the account interface it injects.
+ * Either way the app holds its own Stark key: the account key for created accounts, or a
+ * separate messaging key for wallets (which never hand out theirs). That key signs the
+ * registration binding (`@/lib/registration`) and stored messages; the account itself only
+ * sends transactions. The private key is kept on the profile encrypted with the vault's
+ * local key.
+ */
+
+export type AccountClass = "openzeppelin" | "argent";
+
+interface AccountClassProfile {
+  classHash: string;
+  constructorCalldata(starkKey: string): string[];
+}
+
+export const ACCOUNT_CLASSES: Record<AccountClass, AccountClassProfile> = {
+  // OpenZeppelin Account v0.8.1, also predeployed on starknet-devnet: `constructor(public_key)`
+  openzeppelin: {
+    classHash: "0x061dac032f228abef9c6626f995015233097ae253a7f72d68552db02f2971b8f",
+    constructorCalldata: (starkKey) => [starkKey],
+  },
+  // Argent X account v0.3.0: `constructor(owner, guardian)`, without a guardian
+  argent: {
+    classHash: "0x01a736d6ed154502257f02b1ccdf4d9d1089f80811cd6acad48e6b6a9d1f2003",
+    constructorCalldata: (starkKey) => [starkKey, "0x0"],
+  },
+};
+
+export const DEFAULT_ACCOUNT_CLASS: AccountClass = "openzeppelin";
+
+// Fee token for V3 transactions (STRK, at the same address on every network)
+const FEE_TOKEN_ADDRESS = "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const ACCOUNT_KEY_CONTEXT = utf8ToBytes("TetraCryptPQC/starknet-account/v1");
+
+/** What the profile keeps about the user's StarkNet account (`UserProfile.starknetAccount`). */
+export interface StoredStarknetAccount {
+  /** `created`: deployed from this app; `wallet`: an existing wallet account. */
+  type: "created" | "wallet";
+  /** `created` only: the account contract class. */
+  accountClass?: AccountClass;
+  /** `wallet` only: ID of the injected wallet (e.g. `argentX`). */
+  walletId?: string;
+  /** Stark key the app signs with; registered on the messaging contract. */
+  starkKey: string;
+  /** The matching private key, encrypted with the vault's local key. */
+  wrappedPrivateKey: string;
+  /** False until the DEPLOY_ACCOUNT transaction of a created account is accepted. */
+  deployed: boolean;
+}
+
+/* 🔹 **Counterfactual Accounts** */
+
+export interface LocalAccount {
+  address: string;
+  accountClass: AccountClass;
+  starkKey: string;
+  privateKey: string;
+}
+
+/**
+ * ✅ The address an account contract will have once deployed
+ * Uses the Stark key as the salt and no deployer, as DEPLOY_ACCOUNT does.
+ */
+export function computeAccountAddress(starkKey: string, accountClass: AccountClass = DEFAULT_ACCOUNT_CLASS): string {
+  const { classHash, constructorCalldata } = ACCOUNT_CLASSES[accountClass];
+  return num.toHex(hash.calculateContractAddressFromHash(starkKey, classHash, constructorCalldata(starkKey), 0));
+}
+
+// ✅ A fresh Stark key pair, e.g. the messaging key for a connected wallet
+export function generateStarkKeyPair(): { starkKey: string; privateKey: string } {
+  const privateKey = `0x${bytesToHex(ec.starkCurve.utils.randomPrivateKey())}`;
+  return { starkKey: ec.starkCurve.getStarkKey(privateKey), privateKey };
+}
+
+// ✅ Generate a Stark key pair and the address of its (not yet deployed) account
+export function createLocalAccount(accountClass: AccountClass = DEFAULT_ACCOUNT_CLASS): LocalAccount {
+  const { starkKey, privateKey } = generateStarkKeyPair();
+  return { address: computeAccountAddress(starkKey, accountClass), accountClass, starkKey, privateKey };
+}
+
+function deployPayload(local: LocalAccount): DeployAccountContractPayload {
+  const { classHash, constructorCalldata } = ACCOUNT_CLASSES[local.accountClass];
+  return {
+    classHash,
+    constructorCalldata: constructorCalldata(local.starkKey),
+    addressSalt: local.starkKey,
+    contractAddress: local.address,
+  };
+}
+
+// ✅ A starknet.js account for a created account (usable once deployed), sending V3 transactions
+export function toStarknetAccount(local: LocalAccount): Account {
+  return new Account(
+    getStarknetClient().provider,
+    local.address,
+    local.privateKey,
+    "1",
+    constants.TRANSACTION_VERSION.V3
+  );
+}
+
+export async function isAccountDeployed(address: string): Promise<boolean> {
+  try {
+    await getStarknetClient().provider.getClassHashAt(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ✅ Fee-token balance in fri (10⁻¹⁸ STRK), e.g. to check a counterfactual address has been funded
+export async function getFeeTokenBalance(address: string): Promise<bigint> {
+  const result = await getStarknetClient().provider.callContract({
+    contractAddress: FEE_TOKEN_ADDRESS,
+    entrypoint: "balanceOf",
+    calldata: [address],
+  });
+  return uint256.uint256ToBN({ low: result[0], high: result[1] });
+}
+
+export interface DeploymentFee {
+  /** Resource limits for the DEPLOY_ACCOUNT transaction, with starknet.js's margin on the estimate. */
+  resourceBounds: ResourceBounds;
+  /** The most the transaction can cost (fri); the address must hold at least this much. */
+  maxFee: bigint;
+}
+
+// ✅ The most a V3 transaction can be charged: every resource at its maximum amount and price
+function maxFeeOf(resourceBounds: ResourceBounds): bigint {
+  return Object.values(resourceBounds).reduce(
+    (total, bound) => total + BigInt(bound.max_amount) * BigInt(bound.max_price_per_unit),
+    0n
+  );
+}
+
+// ✅ Estimate what deploying the account costs
+export async function estimateDeploymentFee(local: LocalAccount): Promise<DeploymentFee> {
+  const { resourceBounds } = await toStarknetAccount(local).estimateAccountDeployFee(deployPayload(local));
+  return { resourceBounds, maxFee: maxFeeOf(resourceBounds) };
+}
+
+/**
+ * ✅ Deploy a funded counterfactual account
+ * @param onUpdate - Called as the DEPLOY_ACCOUNT transaction progresses
+ * @returns The deployed account; throws if the address cannot pay the estimated fee
+ */
+export async function deployLocalAccount(
+  local: LocalAccount,
+  onUpdate?: (transaction: TrackedTransaction) => void
+): Promise<Account> {
+  console.log(`🔹 Deploying StarkNet account ${local.address}...`);
+  const account = toStarknetAccount(local);
+  if (await isAccountDeployed(local.address)) return account;
+
+  // ✅ Estimate first, so an unfunded address fails with a clear error instead of a rejected transaction
+  const { resourceBounds, maxFee } = await estimateDeploymentFee(local);
+  const balance = await getFeeTokenBalance(local.address);
+  if (balance < maxFee) {
+    throw new Error(`Account needs ${formatFee(maxFee)} STRK for deployment but holds ${formatFee(balance)} STRK`);
+  }
+
+  const { transaction_hash } = await account.deployAccount(deployPayload(local), { resourceBounds });
+  await getStarknetClient().trackTransaction(transaction_hash, onUpdate);
+
+  console.log(`✅ StarkNet account deployed: ${local.address}`);
+  return account;
+}
+
+// ✅ Fri as a STRK amount for display
+export function formatFee(fri: bigint): string {
+  const whole = fri / 10n ** 18n;
+  const fraction = (fri % 10n ** 18n).toString().padStart(18, "0").slice(0, 6);
+  return `${whole}.${fraction}`;
+}
+
+/* 🔹 **Injected Wallets** */
+
+/** The `window.starknet_*` object wallets such as Argent X and Braavos inject (the wallet API's `request`). */
+export type InjectedWallet = ConstructorParameters<typeof WalletAccount>[1];
+
+// ✅ Wallets installed in this browser
+export function getInjectedWallets(): InjectedWallet[] {
+  if (typeof window === "undefined") return [];
+  const wallets = new Map<string, InjectedWallet>();
+  for (const [key, value] of Object.entries(window as unknown as Record<string, unknown>)) {
+    if (!key.startsWith("starknet") || !value || typeof value !== "object") continue;
+    const wallet = value as InjectedWallet;
+    if (typeof wallet.request === "function" && typeof wallet.id === "string") wallets.set(wallet.id, wallet);
+  }
+  return [...wallets.values()];
+}
+
+/**
+ * ✅ Ask a wallet for access to its account
+ * @returns The wallet's account, which sends transactions (and pays fees) after user approval
+ */
+export async function connectWallet(wallet: InjectedWallet): Promise<AccountInterface> {
+  console.log(`🔹 Connecting to ${wallet.name}...`);
+  const account = await WalletAccount.connect(getStarknetClient().provider, wallet);
+  if (!account.address) throw new Error(`${wallet.name} did not grant account access`);
+  console.log(`✅ Connected to ${wallet.name}: ${account.address}`);
+  return account;
+}
+
+/* 🔹 **Key Storage** */
+
+// ✅ Encrypt the app's Stark private key for the profile; needs the vault unlocked
+export async function wrapAccountKey(privateKey: string): Promise<string> {
+  return encryptMessage(privateKey, getLocalKey(), ACCOUNT_KEY_CONTEXT);
+}
+
+export async function unwrapAccountKey(stored: StoredStarknetAccount): Promise<string> {
+  return decryptMessage(stored.wrappedPrivateKey, getLocalKey(), ACCOUNT_KEY_CONTEXT);
+}
@@ -0,0 +1,158 @@
+import { existsSync, readFileSync } from "node:fs";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { utf8ToBytes } from "@noble/hashes/utils";
+import { Account, ec, num } from "starknet";
+import { MemoryBlobStore } from "@/lib/blob-store";
+import { generateKeypair, KeyPair } from "@/lib/crypto";
+import { createRegistrationBinding, pqKeyCommitment } from "@/lib/registration";
+import {
+  createLocalAccount,
+  deployLocalAccount,
+  getFeeTokenBalance,
+  isAccountDeployed,
+  LocalAccount,
+  toStarknetAccount,
+} from "@/lib/starknet-account";
+import { getStarknetClient, setStarknetClient, StarknetClient } from "@/lib/starknet-client";
+
+// Run `starknet-devnet --seed 0` and `scarb build` in `starknet/`; otherwise these tests are skipped
+const DEVNET_URL = process.env.STARKNET_DEVNET_URL ?? "http://127.0.0.1:5050";
+const CONTRACT_CLASS = "starknet/target/dev/tetracrypt_messaging_TetraCryptMessaging.contract_class.json";
+const COMPILED_CLASS = "starknet/target/dev/tetracrypt_messaging_TetraCryptMessaging.compiled_contract_class.json";
+
+async function devnetReachable(): Promise<boolean> {
+  try {
+    return (await fetch(`${DEVNET_URL}/is_alive`, { signal: AbortSignal.timeout(1000) })).ok;
+  } catch {
+    return false;
+  }
+}
+
+const devnetAvailable = existsSync(CONTRACT_CLASS) && existsSync(COMPILED_CLASS) && (await devnetReachable());
+
+/* 🔹 **Devnet Harness** */
+
+interface PredeployedAccount {
+  address: string;
+  private_key: string;
+}
+
+async function devnet<T>(method: string, params: Record<string, unknown> = {}): Promise<T> {
+  const response = await fetch(`${DEVNET_URL}/rpc`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const { result, error } = await response.json();
+  if (error) throw new Error(`${method}: ${error.message}`);
+  return result;
+}
+
+// A predeployed OpenZeppelin account, driven through the app's own account helpers
+function localAccount({ address, private_key }: PredeployedAccount): LocalAccount {
+  return { address, accountClass: "openzeppelin", starkKey: ec.starkCurve.getStarkKey(private_key), privateKey: private_key };
+}
+
+let alice: LocalAccount;
+let bob: LocalAccount;
+let pqKey: KeyPair;
+
+async function register(user: LocalAccount): Promise<void> {
+  const client = getStarknetClient();
+  const binding = await createRegistrationBinding(user.address, user.privateKey, pqKey, client.context);
+  const hash = await client.messaging(toStarknetAccount(user)).registerUser(binding);
+  await client.trackTransaction(hash);
+}
+
+beforeAll(async () => {
+  if (!devnetAvailable) return;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  pqKey = await generateKeypair("ML-DSA-44");
+
+  const [deployer, ...users] = await devnet<PredeployedAccount[]>("devnet_getPredeployedAccounts");
+  [alice, bob] = users.map(localAccount);
+
+  // ✅ Declare and deploy the messaging contract, then point the app's client at it
+  setStarknetClient(new StarknetClient({ network: "devnet", nodeUrl: `${DEVNET_URL}/rpc` }));
+  const account = new Account(getStarknetClient().provider, deployer.address, deployer.private_key);
+  const { deploy } = await account.declareAndDeploy({
+    contract: JSON.parse(readFileSync(CONTRACT_CLASS, "utf8")),
+    casm: JSON.parse(readFileSync(COMPILED_CLASS, "utf8")),
+  });
+  setStarknetClient(
+    new StarknetClient({ network: "devnet", nodeUrl: `${DEVNET_URL}/rpc`, contractAddress: deploy.contract_address })
+  );
+}, 120000);
+
+/* 🔹 **Messaging Contract** */
+
+describe.skipIf(!devnetAvailable)("StarkNet client on devnet", () => {
+  it("registers a user and reads their keys back", async () => {
+    const messaging = getStarknetClient().messaging();
+    expect(await messaging.getUser(alice.address)).toBeNull();
+
+    const states: string[] = [];
+    const binding = await createRegistrationBinding(alice.address, alice.privateKey, pqKey, getStarknetClient().context);
+    const hash = await getStarknetClient().messaging(toStarknetAccount(alice)).registerUser(binding);
+    const tracked = await getStarknetClient().trackTransaction(hash, ({ state }) => states.push(state));
+
+    expect(tracked.state).toMatch(/^ACCEPTED_ON_L[12]$/);
+    expect(states[states.length - 1]).toBe(tracked.state);
+    expect(await messaging.getUser(alice.address)).toEqual({
+      starkKey: num.toHex(alice.starkKey),
+      pqKeyCommitment: num.toHex(pqKeyCommitment(pqKey.algorithm, pqKey.publicKey)),
+    });
+  });
+
+  it("refuses to register a binding for another account", async () => {
+    const binding = await createRegistrationBinding(alice.address, alice.privateKey, pqKey, getStarknetClient().context);
+    await expect(getStarknetClient().messaging(toStarknetAccount(bob)).registerUser(binding)).rejects.toThrow();
+  });
+
+  it("appends messages to a conversation log and deletes them", async () => {
+    await register(bob);
+    const client = getStarknetClient();
+    const sender = client.messaging(toStarknetAccount(bob));
+    const store = new MemoryBlobStore();
+    const cids = [await store.put(utf8ToBytes("first")), await store.put(utf8ToBytes("second"))];
+
+    const nonce = await sender.getNonce(bob.address);
+    for (const cid of cids) {
+      await client.trackTransaction(await sender.storeMessage(bob.address, alice.address, cid, bob.privateKey));
+    }
+    expect(await sender.getNonce(bob.address)).toBe(nonce + 2n);
+
+    const log = await client.messaging().getConversation(bob.address, alice.address);
+    expect(log.map(({ index, cid }) => ({ index, cid }))).toEqual([
+      { index: 0, cid: cids[0] },
+      { index: 1, cid: cids[1] },
+    ]);
+    expect(log[0].expiresAt).toBeGreaterThan(log[0].timestamp);
+
+    await client.trackTransaction(await sender.deleteMessage(bob.address, alice.address, 0));
+    expect((await client.messaging().getConversation(bob.address, alice.address)).map(({ cid }) => cid)).toEqual([
+      null,
+      cids[1],
+    ]);
+  });
+});
+
+/* 🔹 **Account Deployment** */
+
+describe.skipIf(!devnetAvailable)("StarkNet accounts on devnet", () => {
+  it("refuses to deploy an account that cannot pay the fee", async () => {
+    const local = createLocalAccount();
+    await expect(deployLocalAccount(local)).rejects.toThrow("for deployment but holds 0.000000 STRK");
+    expect(await isAccountDeployed(local.address)).toBe(false);
+  });
+
+  it("deploys a funded counterfactual account with a V3 transaction", async () => {
+    const local = createLocalAccount();
+    await devnet("devnet_mint", { address: local.address, amount: 10 ** 18, unit: "FRI" });
+    expect(await getFeeTokenBalance(local.address)).toBe(10n ** 18n);
+
+    await deployLocalAccount(local);
+    expect(await isAccountDeployed(local.address)).toBe(true);
+    expect(await getFeeTokenBalance(local.address)).toBeLessThan(10n ** 18n);
+  });
+});
@@ -0,0 +1,228 @@
+import { AccountInterface, Contract, RpcProvider, constants, num } from "starknet";
+import type { RegistrationBinding, RegistrationContext } from "@/lib/registration";
+import { registrationCalldata } from "@/lib/registration";
+import {
+  ConversationLogEntry,
+  MAX_MESSAGE_PAGE_SIZE,
+  StoredMessageStruct,
+  TETRACRYPT_MESSAGING_ABI,
+  parseStoredMessage,
+  storeMessageArgs,
+} from "@/lib/tetracrypt-abi";
+
+/**
+ * ✅ StarkNet Client
+ * The one place the app talks to StarkNet: a provider for the configured network
+ * (`VITE_STARKNET_NETWORK`), a typed wrapper around the TetraCrypt messaging contract, and
+ * transaction status tracking. Mainnet, Sepolia and a local `starknet-devnet` are built in;
+ * `VITE_STARKNET_RPC_URL` points any of them at another node.
+ */
+
+export type StarkNetNetwork = "mainnet" | "sepolia" | "devnet";
+
+const STARKNET_NETWORKS: StarkNetNetwork[] = ["mainnet", "sepolia", "devnet"];
+
+export interface NetworkProfile {
+  nodeUrl: string;
+  chainId: constants.StarknetChainId;
+}
+
+export const NETWORK_PROFILES: Record<StarkNetNetwork, NetworkProfile> = {
+  mainnet: { nodeUrl: "https://starknet-mainnet.public.blastapi.io/rpc/v0_8", chainId: constants.StarknetChainId.SN_MAIN },
+  sepolia: {
+    nodeUrl: "https://starknet-sepolia.public.blastapi.io/rpc/v0_8",
+    chainId: constants.StarknetChainId.SN_SEPOLIA,
+  },
+  // `starknet-devnet` listens here by default and reports the Sepolia chain ID
+  devnet: { nodeUrl: "http://127.0.0.1:5050/rpc", chainId: constants.StarknetChainId.SN_SEPOLIA },
+};
+
+export interface StarknetConfig {
+  network: StarkNetNetwork;
+  /** Overrides the profile's node (e.g. a private RPC endpoint or a devnet on another port). */
+  nodeUrl?: string;
+  /** Address of the deployed TetraCrypt messaging contract on this network. */
+  contractAddress?: string;
+}
+
+export interface RegisteredUser {
+  starkKey: string;
+  pqKeyCommitment: string;
+}
+
+/* 🔹 **Transaction Tracking** */
+
+export type TransactionState = "RECEIVED" | "ACCEPTED_ON_L2" | "ACCEPTED_ON_L1" | "REJECTED" | "REVERTED";
+
+export interface TrackedTransaction {
+  hash: string;
+  state: TransactionState;
+}
+
+const TRANSACTION_POLL_INTERVAL_MS = 2000;
+const FINAL_STATES: TransactionState[] = ["ACCEPTED_ON_L2", "ACCEPTED_ON_L1", "REJECTED", "REVERTED"];
+
+/* 🔹 **Messaging Contract** */
+
+// ✅ Typed calls to `tetracrypt_messaging.cairo`; writes need a contract connected to an account
+export class TetraCryptMessagingContract {
+  constructor(
+    private readonly contract: Contract,
+    private readonly context: RegistrationContext
+  ) {}
+
+  // ✅ Submit a dual-signed registration binding (`@/lib/registration`), returns the transaction hash
+  async registerUser(binding: RegistrationBinding): Promise<string> {
+    const { transaction_hash } = await this.contract.invoke("register_user", registrationCalldata(binding));
+    return transaction_hash;
+  }
+
+  // ✅ A user's registered keys, or null if the address never registered
+  async getUser(userAddress: string): Promise<RegisteredUser | null> {
+    const result = (await this.contract.call("get_user", [userAddress])) as Record<number, bigint>;
+    if (result[0] === 0n) return null;
+    return { starkKey: num.toHex(result[0]), pqKeyCommitment: num.toHex(result[1]) };
+  }
+
+  async getNonce(userAddress: string): Promise<bigint> {
+    return BigInt((await this.contract.call("get_nonce", [userAddress])) as bigint);
+  }
+
+  /**
+   * ✅ Append a message CID to the sender's conversation with the receiver
+   * Signs the next nonce with the sender's registered Stark key.
+   * @returns The transaction hash
+   */
+  async storeMessage(sender: string, receiver: string, cid: string, starkPrivateKey: string): Promise<string> {
+    const nonce = await this.getNonce(sender);
+    const args = storeMessageArgs(sender, receiver, cid, nonce, starkPrivateKey, this.context);
+    const { transaction_hash } = await this.contract.invoke("store_message", args);
+    return transaction_hash;
+  }
+
+  // ✅ One page of a conversation log, oldest first (at most `MAX_MESSAGE_PAGE_SIZE` entries)
+  async getMessages(
+    sender: string,
+    receiver: string,
+    fromIndex = 0,
+    limit = MAX_MESSAGE_PAGE_SIZE
+  ): Promise<ConversationLogEntry[]> {
+    const page = (await this.contract.call("get_messages", [sender, receiver, fromIndex, limit])) as StoredMessageStruct[];
+    return page.map((message, offset) => parseStoredMessage(message, fromIndex + offset));
+  }
+
+  // ✅ The conversation log from `startIndex` on, read page by page
+  async getConversation(sender: string, receiver: string, startIndex = 0): Promise<ConversationLogEntry[]> {
+    const entries: ConversationLogEntry[] = [];
+    for (let fromIndex = startIndex; ; fromIndex += MAX_MESSAGE_PAGE_SIZE) {
+      const page = await this.getMessages(sender, receiver, fromIndex);
+      entries.push(...page);
+      if (page.length < MAX_MESSAGE_PAGE_SIZE) return entries;
+    }
+  }
+
+  // ✅ Clear a message's CID; participants can do this at any time, others once it has expired
+  async deleteMessage(sender: string, receiver: string, index: number): Promise<string> {
+    const { transaction_hash } = await this.contract.invoke("delete_message", [sender, receiver, index]);
+    return transaction_hash;
+  }
+}
+
+/* 🔹 **Client** */
+
+export class StarknetClient {
+  readonly network: StarkNetNetwork;
+  readonly provider: RpcProvider;
+  readonly chainId: constants.StarknetChainId;
+  private readonly contractAddress?: string;
+
+  constructor(config: StarknetConfig) {
+    const profile = NETWORK_PROFILES[config.network];
+    this.network = config.network;
+    this.chainId = profile.chainId;
+    this.provider = new RpcProvider({ nodeUrl: config.nodeUrl ?? profile.nodeUrl, chainId: profile.chainId });
+    this.contractAddress = config.contractAddress;
+  }
+
+  // ✅ False when no contract address is configured; `context` and `messaging` need one
+  get hasMessagingContract(): boolean {
+    return Boolean(this.contractAddress);
+  }
+
+  // ✅ Contract and chain that signed statements (registrations, messages) are bound to
+  get context(): RegistrationContext {
+    if (!this.contractAddress) {
+      throw new Error(`No TetraCrypt contract configured for ${this.network} (VITE_TETRACRYPT_CONTRACT_ADDRESS)`);
+    }
+    return { contractAddress: this.contractAddress, chainId: this.chainId };
+  }
+
+  /**
+   * ✅ The messaging contract on this network
+   * @param account - Needed for writes (register, store, delete); reads only need the provider
+   */
+  messaging(account?: AccountInterface): TetraCryptMessagingContract {
+    const { contractAddress } = this.context;
+    const contract = new Contract([...TETRACRYPT_MESSAGING_ABI], contractAddress, account ?? this.provider);
+    return new TetraCryptMessagingContract(contract, this.context);
+  }
+
+  /**
+   * ✅ Follow a transaction until it is accepted, rejected or reverted
+   * @param onUpdate - Called with each new state, e.g. to update the UI
+   * @returns The final state; throws if the transaction was rejected or reverted
+   */
+  async trackTransaction(hash: string, onUpdate?: (transaction: TrackedTransaction) => void): Promise<TrackedTransaction> {
+    let previous: TransactionState | null = null;
+    for (;;) {
+      const status = await this.provider.getTransactionStatus(hash);
+      const state: TransactionState = status.execution_status === "REVERTED" ? "REVERTED" : status.finality_status;
+      if (state !== previous) {
+        console.log(`🔹 Transaction ${hash}: ${state}`);
+        onUpdate?.({ hash, state });
+        previous = state;
+      }
+
+      if (FINAL_STATES.includes(state)) {
+        if (state === "REJECTED" || state === "REVERTED") {
+          // RPC 0.8 nodes say why; starknet.js still types the status as RPC 0.7's
+          const reason = "failure_reason" in status && status.failure_reason ? ` (${String(status.failure_reason)})` : "";
+          throw new Error(`Transaction ${state.toLowerCase()}: ${hash}${reason}`);
+        }
+        return { hash, state };
+      }
+      await new Promise((resolve) => setTimeout(resolve, TRANSACTION_POLL_INTERVAL_MS));
+    }
+  }
+}
+
+/* 🔹 **Configuration** */
+
+function configuredNetwork(value: string | undefined): StarkNetNetwork {
+  if (value === undefined || value === "") return "mainnet";
+  const network = STARKNET_NETWORKS.find((known) => known === value);
+  if (!network) throw new Error(`Unknown StarkNet network: ${value}`);
+  return network;
+}
+
+export const STARKNET_CONFIG: StarknetConfig = {
+  network: configuredNetwork(import.meta.env.VITE_STARKNET_NETWORK),
+  nodeUrl: import.meta.env.VITE_STARKNET_RPC_URL || undefined,
+  contractAddress: import.meta.env.VITE_TETRACRYPT_CONTRACT_ADDRESS || undefined,
+};
+
+let starknetClient: StarknetClient | null = null;
+
+// ✅ The configured client, created on first use
+export function getStarknetClient(): StarknetClient {
+  starknetClient ??= new StarknetClient(STARKNET_CONFIG);
+  return starknetClient;
+}
+
+/**
+ * ✅ Replace the configured client
+ * @param client - e.g. `new StarknetClient({ network: "devnet", contractAddress })` against a local devnet
+ */
+export function setStarknetClient(client: StarknetClient): void {
+  starknetClient = client;
+}
@@ -1,35 +1,106 @@
 
 // Define core types for the messaging application
+import type { PublicKeyInfo } from "@/lib/crypto";
+import type { MessageAlgorithms, TaggedPublicKey } from "@/lib/algorithms";
+import type { RatchetHeader } from "@/lib/ratchet";
+import type { SessionInit } from "@/lib/sessions";
+import type { EnvelopeKind } from "@/lib/envelope";
+import type { SenderKeyDistribution, SenderKeyHeader } from "@/lib/sender-keys";
+import type { RegistrationBinding } from "@/lib/registration";
+import type { StoredStarknetAccount } from "@/lib/starknet-account";
 
 export interface UserProfile {
   id: string;
   name: string;
   starknetAddress?: string;
+  /** How the app controls `starknetAddress` (created account or connected wallet). */
+  starknetAccount?: StoredStarknetAccount;
+  /** Dual-signed binding of the StarkNet key to the signature key, registered on-chain. */
+  starknetRegistration?: RegistrationBinding;
   sessionKey?: string;
+  /** Public keys only; the private halves are held in the vault (`@/lib/vault`). */
   keyPairs?: {
-    encryption: {
-      publicKey: string;
-      privateKey: string;
-    };
-    signature: {
-      publicKey: string;
-      privateKey: string;
-    };
+    encryption: ProfileKey;
+    signature: ProfileKey;
   };
   didDocument?: any;
   qkdInfo?: any;
   hsmInfo?: any;
   starkKey?: string;
   provider?: any;
+  settings?: UserSettings;
 }
 
+export interface ProfileKey extends PublicKeyInfo {
+  /** @deprecated Plaintext key from profiles created before the vault; moved into it on unlock. */
+  privateKey?: string;
+}
+
+export interface UserSettings {
+  /** Combine ML-KEM-1024 with X25519 when encapsulating session keys. */
+  hybridEncryption: boolean;
+  /** Run an ML-KEM ratchet step whenever the conversation changes direction. */
+  perfectForwardSecrecy: boolean;
+  /** Lock the vault after this many minutes without activity. */
+  autoLockMinutes: number;
+  /** Also log the CID of each message on StarkNet; every entry is a paid transaction. */
+  starknetMessageLog: boolean;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  hybridEncryption: true,
+  perfectForwardSecrecy: true,
+  autoLockMinutes: 5,
+  starknetMessageLog: false,
+};
+
 export interface Contact {
   id: string;
   name: string;
   publicKeys?: {
+    encryption?: TaggedPublicKey;
+    signature?: TaggedPublicKey;
+    /** @deprecated Untagged key from before algorithm IDs; read via `getContactPublicKey`. */
     kyber?: string;
+    /** @deprecated Untagged key from before algorithm IDs; read via `getContactPublicKey`. */
     falcon?: string;
   };
+  /** From the contact's signed card (see `@/lib/contact-card`). */
+  did?: string;
+  starknetAddress?: string;
+  /** Next entry of the contact's StarkNet log to fetch; only valid for that `address`. */
+  starknetLogCursor?: { address: string; nextIndex: number };
+  unreadCount: number;
+  /** Identity keys confirmed in person (see `@/lib/safety-numbers`). */
+  verified?: boolean;
+  /** Key fingerprints at the time of verification; a mismatch means the contact's keys changed. */
+  verifiedFingerprints?: { encryption: string; signature: string };
+  /** Send read receipts to this contact; treated as true when unset. */
+  sendReadReceipts?: boolean;
+  lastMessage?: string;
+  lastMessageTime?: string;
+}
+
+/** A group member's identity, as announced by the group admin. */
+export interface GroupMember {
+  id: string;
+  name: string;
+  /** A contact's own stored keys take precedence over these (see `groupMemberPublicKey`). */
+  publicKeys: {
+    encryption: TaggedPublicKey;
+    signature: TaggedPublicKey;
+  };
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  /** The creator; the only member who can change the member list. */
+  adminId: string;
+  /** Incremented on every membership change; each epoch uses fresh sender keys (see `@/lib/sender-keys`). */
+  epoch: number;
+  /** Every member, including the local user while they belong to the group. */
+  members: GroupMember[];
   unreadCount: number;
   lastMessage?: string;
   lastMessageTime?: string;
@@ -42,6 +113,28 @@ export interface Message {
   encryptedContent: string;
   timestamp: string;
   signature?: string;
-  status: 'sent' | 'delivered' | 'read';
-  sessionKey?: string;
+  /** `pending` / `failed`: still in the outbox (see `@/lib/outbox`). */
+  status: 'pending' | 'failed' | 'sent' | 'delivered' | 'read';
+  /** Absent for chat messages; `group-update` messages announce a new member list. */
+  kind?: EnvelopeKind;
+  /** Double-ratchet header; the message key is only stored wrapped (see `wrappedMessageKey`). */
+  header?: RatchetHeader;
+  /** Sender-key header of a group message, which has no ratchet header; `receiverId` is the group ID. */
+  group?: SenderKeyHeader;
+  /** The sender's group key wrapped for each member, on the first messages of an epoch. */
+  senderKeys?: SenderKeyDistribution[];
+  /** Sent group messages: the members the relay fans the message out to. */
+  recipients?: string[];
+  /** Per-message key wrapped under the vault's local key, so history stays readable after the ratchet moves on. */
+  wrappedMessageKey?: string;
+  /** Present until the recipient has replied within the session (see `@/lib/sessions`). */
+  sessionInit?: SessionInit;
+  /** Suites used for this message; missing on legacy messages (see `resolveMessageAlgorithms`). */
+  algorithms?: MessageAlgorithms;
+  /** @deprecated `aes` / `chacha` mode written before `algorithms.aead` existed. */
+  encryptionMode?: string;
+  /** Wire format version of the envelope this message was stored from (see `@/lib/envelope`). */
+  envelopeVersion?: number;
+  /** SHA-256 fingerprint of the sender's signature public key. */
+  senderKeyFingerprint?: string;
 }
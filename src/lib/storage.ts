@@ -1,106 +1,441 @@
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react-swc";
-import wasm from "vite-plugin-wasm";  // Official WebAssembly support
-import topLevelAwait from "vite-plugin-top-level-await"; // Enables async WebAssembly
-import path from "path";
-import { createHelia } from "helia"; // IPFS Helia integration
-import { blockstore } from "@helia/blockstore-memory"; // Future-proofed blockstore integration
-
-export default defineConfig(({ mode }) => {
-  const plugins = [
-    react(), // Optimized React rendering with SWC
-    wasm(), // Ensures WebAssembly ESM compatibility
-    topLevelAwait(), // Enables async/await WebAssembly support
-  ];
-
-  // Conditionally include viteInspect if installed
-  try {
-    const viteInspect = require("vite-plugin-inspect");
-    if (viteInspect) plugins.push(viteInspect.default());
-  } catch (e) {
-    console.warn("vite-plugin-inspect not installed, skipping...");
-  }
-
-  return {
-    server: {
-      host: "0.0.0.0", // Allows external access (securely)
-      port: 8080,
-      strictPort: true, // Ensures no fallback ports
-      https: true, // Enforces TLS encryption during local development
-      headers: {
-        "Strict-Transport-Security": "max-age=63072000; includeSubDomains; preload",
-        "X-Content-Type-Options": "nosniff",
-        "X-Frame-Options": "DENY",
-        "X-XSS-Protection": "1; mode=block",
-      },
-    },
-    plugins,
-    resolve: {
-      alias: {
-        "@": path.resolve(__dirname, "./src"),
-      },
-    },
-    optimizeDeps: {
-      exclude: ["@syntect/wasm", "helia"], // Ensure Helia is optimized separately
-      esbuildOptions: {
-        target: "esnext", // Ensures support for latest JavaScript features
-        supported: {
-          bigint: true, // Enables BigInt support for cryptographic ops
-          wasm: true, // Enables direct WebAssembly imports
-        },
-      },
-    },
-    build: {
-      target: "esnext",
-      outDir: "dist",
-      sourcemap: true,
-      minify: "terser", // Highly secure minification
-      rollupOptions: {
-        external: ["@radix-ui/react-tooltip", "helia"], // Ensure Helia is treated as an external module
-        output: {
-          manualChunks: {
-            vendor: ["ethers", "starknet", "helia"], // Splits Web3 and IPFS dependencies
-          },
-        },
-      },
-      chunkSizeWarningLimit: 1500, // Avoid warnings for large cryptographic modules
-    },
-    worker: {
-      format: "es", // Ensures compatibility with modern ES module workers
-      plugins: () => [wasm(), topLevelAwait()],
-    },
-    define: {
-      global: "globalThis", // Ensures compatibility across all JS environments
-      "process.env": {}, // Prevents environment variable leakage
-    },
+import type { Contact, Group, Message, UserProfile } from "@/lib/storage-types";
+
+export type { Contact, Group, Message, UserProfile } from "@/lib/storage-types";
+
+/**
+ * ✅ Local Persistence (IndexedDB)
+ * Profile, contacts, groups and messages live in IndexedDB. The profile, contact and group
+ * lists are small and read on every render, so they are cached in memory by `initStorage()`
+ * and read synchronously; writes update the cache immediately and persist in the background.
+ * Messages are indexed by conversation (contact or group ID) and timestamp and loaded a page
+ * at a time.
+ */
+
+export const DB_NAME = "tetracrypt";
+export const DB_VERSION = 3;
+export const MESSAGE_PAGE_SIZE = 50;
+
+type StoreName = "profile" | "contacts" | "groups" | "messages";
+
+/** Messages are stored with the ID of the other party or the group, for the conversation index. */
+export interface StoredMessage extends Message {
+  contactId: string;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  /** More, older messages are available before the first one in `messages`. */
+  hasMore: boolean;
+}
+
+/* 🔹 **Storage Adapters** */
+
+export interface StorageAdapter {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put<T>(store: StoreName, value: T): Promise<void>;
+  putMany<T>(store: StoreName, values: T[]): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+  /**
+   * Up to `limit` messages with a contact, strictly older than `before` (ISO timestamp)
+   * when given, in ascending timestamp order.
+   */
+  getMessagesPage(contactId: string, limit: number, before?: string): Promise<StoredMessage[]>;
+  getMessagesByStatus(status: Message["status"]): Promise<StoredMessage[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Schema migrations, applied in order from the database's current version. Each runs inside
+ * the upgrade transaction, so a failed migration leaves the previous version intact.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore("profile", { keyPath: "id" });
+    db.createObjectStore("contacts", { keyPath: "id" });
+    const messages = db.createObjectStore("messages", { keyPath: "id" });
+    messages.createIndex("contact_timestamp", ["contactId", "timestamp"]);
+    messages.createIndex("timestamp", "timestamp");
+  },
+  // Outbox lookups (pending / failed sends) without scanning every conversation
+  2: (_db, tx) => {
+    tx.objectStore("messages").createIndex("status", "status");
+  },
+  3: (db) => {
+    db.createObjectStore("groups", { keyPath: "id" });
+  },
+};
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(name: string = DB_NAME, version: number = DB_VERSION): Promise<IndexedDBAdapter> {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = (event) => {
+      const tx = req.transaction;
+      for (let v = event.oldVersion + 1; v <= version; v++) {
+        console.log(`🔹 Migrating local database to schema v${v}...`);
+        MIGRATIONS[v]?.(req.result, tx);
+      }
+    };
+    const db = await request(req);
+    // Another tab upgraded the schema; close so its upgrade is not blocked
+    db.onversionchange = () => db.close();
+    return new IndexedDBAdapter(db);
+  }
+
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    return request(this.db.transaction(store).objectStore(store).get(key));
+  }
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    return request(this.db.transaction(store).objectStore(store).getAll());
+  }
+
+  async put<T>(store: StoreName, value: T): Promise<void> {
+    return this.putMany(store, [value]);
+  }
+
+  async putMany<T>(store: StoreName, values: T[]): Promise<void> {
+    const tx = this.db.transaction(store, "readwrite");
+    const objectStore = tx.objectStore(store);
+    values.forEach((value) => objectStore.put(value));
+    return transactionDone(tx);
+  }
+
+  async delete(store: StoreName, key: string): Promise<void> {
+    const tx = this.db.transaction(store, "readwrite");
+    tx.objectStore(store).delete(key);
+    return transactionDone(tx);
+  }
+
+  async getMessagesPage(contactId: string, limit: number, before?: string): Promise<StoredMessage[]> {
+    const index = this.db.transaction("messages").objectStore("messages").index("contact_timestamp");
+    const range = IDBKeyRange.bound([contactId, ""], [contactId, before ?? "\uffff"], false, before !== undefined);
+    const page: StoredMessage[] = [];
+
+    // Walk the conversation newest-first, then return the page in display order
+    const cursorRequest = index.openCursor(range, "prev");
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || page.length >= limit) return resolve();
+        page.push(cursor.value);
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+    return page.reverse();
+  }
+
+  async getMessagesByStatus(status: Message["status"]): Promise<StoredMessage[]> {
+    return request(this.db.transaction("messages").objectStore("messages").index("status").getAll(status));
+  }
+
+  async clear(): Promise<void> {
+    const stores: StoreName[] = ["profile", "contacts", "groups", "messages"];
+    const tx = this.db.transaction(stores, "readwrite");
+    stores.forEach((store) => tx.objectStore(store).clear());
+    return transactionDone(tx);
+  }
+}
+
+/** ✅ Non-persistent adapter for tests and browsers without IndexedDB (e.g. private mode). */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private stores: Record<StoreName, Map<string, unknown>> = {
+    profile: new Map(),
+    contacts: new Map(),
+    groups: new Map(),
+    messages: new Map(),
   };
-});
 
-// ✅ Future-Proofed IPFS Helia Utility Functions for Secure Storage
-import { unixfs } from "@helia/unixfs";
+  async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    return structuredClone(this.stores[store].get(key)) as T | undefined;
+  }
 
-let heliaInstance = null;
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    return [...this.stores[store].values()].map((value) => structuredClone(value) as T);
+  }
 
-export async function getHeliaInstance() {
-  if (!heliaInstance) {
-    heliaInstance = await createHelia({ blockstore: blockstore() });
+  async put<T>(store: StoreName, value: T): Promise<void> {
+    const { id } = value as { id: string };
+    this.stores[store].set(id, structuredClone(value));
+  }
+
+  async putMany<T>(store: StoreName, values: T[]): Promise<void> {
+    for (const value of values) await this.put(store, value);
+  }
+
+  async delete(store: StoreName, key: string): Promise<void> {
+    this.stores[store].delete(key);
+  }
+
+  async getMessagesPage(contactId: string, limit: number, before?: string): Promise<StoredMessage[]> {
+    const conversation = (await this.getAll<StoredMessage>("messages"))
+      .filter((message) => message.contactId === contactId && (before === undefined || message.timestamp < before))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return conversation.slice(-limit);
+  }
+
+  async getMessagesByStatus(status: Message["status"]): Promise<StoredMessage[]> {
+    return (await this.getAll<StoredMessage>("messages")).filter((message) => message.status === status);
+  }
+
+  async clear(): Promise<void> {
+    Object.values(this.stores).forEach((store) => store.clear());
   }
-  return heliaInstance;
 }
 
-export async function addFileToIPFS(data) {
-  const helia = await getHeliaInstance();
-  const fs = unixfs(helia);
-  const cid = await fs.addBytes(new TextEncoder().encode(data));
-  return cid.toString(); // Returns the CID
+/* 🔹 **In-Memory Cache** */
+
+let adapter: StorageAdapter | null = null;
+let profileCache: UserProfile | null = null;
+let contactsCache: Contact[] = [];
+let groupsCache: Group[] = [];
+/** Loaded messages per conversation, in timestamp order. */
+const messageCache = new Map<string, Message[]>();
+// Shared empty result, so unchanged reads return the same reference (see `subscribeStorage`)
+const NO_MESSAGES: Message[] = [];
+const listeners = new Set<() => void>();
+
+function notifyChange(): void {
+  listeners.forEach((listener) => listener());
 }
 
-export async function getFileFromIPFS(cid) {
-  const helia = await getHeliaInstance();
-  const fs = unixfs(helia);
-  const data = [];
-  for await (const chunk of fs.cat(cid)) {
-    data.push(chunk);
+/**
+ * ✅ Be notified after any cached profile, contact, group or message changes
+ * Getters return the same array until its contents change, so they can back
+ * `useSyncExternalStore` snapshots directly.
+ */
+export function subscribeStorage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function requireAdapter(): StorageAdapter {
+  if (!adapter) throw new Error("Storage not initialised; call initStorage() first");
+  return adapter;
+}
+
+// Writes are applied to the cache synchronously and persisted in the background
+function persist(task: (adapter: StorageAdapter) => Promise<void>): Promise<void> {
+  return task(requireAdapter()).catch((error) => {
+    console.error("❌ Failed to persist to local storage:", error);
+    throw error;
+  });
+}
+
+/**
+ * ✅ Open the database and warm the profile, contact and group caches
+ * @param storageAdapter - Override the backend (e.g. `new MemoryStorageAdapter()` in tests)
+ */
+export async function initStorage(storageAdapter?: StorageAdapter): Promise<void> {
+  if (storageAdapter) {
+    adapter = storageAdapter;
+  } else {
+    try {
+      adapter = await IndexedDBAdapter.open();
+    } catch (error) {
+      console.warn("⚠️ IndexedDB unavailable, data will not persist:", error);
+      adapter = new MemoryStorageAdapter();
+    }
   }
-  return new TextDecoder().decode(Buffer.concat(data));
+
+  const [profile] = await adapter.getAll<UserProfile>("profile");
+  profileCache = profile ?? null;
+  contactsCache = await adapter.getAll<Contact>("contacts");
+  groupsCache = await adapter.getAll<Group>("groups");
+  messageCache.clear();
+  notifyChange();
+}
+
+/* 🔹 **User Profile** */
+
+export function getUserProfile(): UserProfile | null {
+  return profileCache;
+}
+
+export function saveUserProfile(profile: UserProfile): Promise<void> {
+  const previousId = profileCache?.id;
+  profileCache = profile;
+  notifyChange();
+  return persist(async (db) => {
+    if (previousId && previousId !== profile.id) await db.delete("profile", previousId);
+    await db.put("profile", profile);
+  });
+}
+
+/* 🔹 **Contacts** */
+
+export function getContacts(): Contact[] {
+  return contactsCache;
+}
+
+// ✅ Insert or update a contact
+export function saveContact(contact: Contact): Promise<void> {
+  const exists = contactsCache.some((c) => c.id === contact.id);
+  contactsCache = exists ? contactsCache.map((c) => (c.id === contact.id ? contact : c)) : [...contactsCache, contact];
+  notifyChange();
+  return persist((db) => db.put("contacts", contact));
+}
+
+/* 🔹 **Groups** */
+
+export function getGroups(): Group[] {
+  return groupsCache;
+}
+
+// ✅ Insert or update a group
+export function saveGroup(group: Group): Promise<void> {
+  const exists = groupsCache.some((g) => g.id === group.id);
+  groupsCache = exists ? groupsCache.map((g) => (g.id === group.id ? group : g)) : [...groupsCache, group];
+  notifyChange();
+  return persist((db) => db.put("groups", group));
+}
+
+/* 🔹 **Messages** */
+
+function conversationContactId(message: Message): string {
+  if (message.group) return message.group.groupId;
+  return message.senderId === profileCache?.id ? message.receiverId : message.senderId;
+}
+
+function insertSorted(messages: Message[], message: Message): Message[] {
+  const others = messages.filter((m) => m.id !== message.id);
+  const index = others.findIndex((m) => m.timestamp > message.timestamp);
+  return index === -1 ? [...others, message] : [...others.slice(0, index), message, ...others.slice(index)];
+}
+
+function toStoredMessage(message: Message): StoredMessage {
+  return { ...message, contactId: conversationContactId(message) };
+}
+
+function fromStoredMessage({ contactId: _contactId, ...message }: StoredMessage): Message {
+  return message;
+}
+
+/** Messages loaded so far for a contact or group (see `loadMessagesPage`), oldest first. */
+export function getMessagesForContact(contactId: string): Message[] {
+  return messageCache.get(contactId) ?? NO_MESSAGES;
+}
+
+/**
+ * ✅ A stored message by ID, whether or not its conversation has been loaded
+ * Checks the cache first, then the database.
+ */
+export async function getMessage(id: string): Promise<Message | undefined> {
+  for (const messages of messageCache.values()) {
+    const cached = messages.find((message) => message.id === id);
+    if (cached) return cached;
+  }
+  const stored = await requireAdapter().get<StoredMessage>("messages", id);
+  return stored && fromStoredMessage(stored);
+}
+
+export async function hasMessage(id: string): Promise<boolean> {
+  return (await getMessage(id)) !== undefined;
+}
+
+/**
+ * ✅ Load a page of a conversation into the cache
+ * Without `before`, loads the newest page; pass the oldest loaded timestamp to page back.
+ */
+export async function loadMessagesPage(
+  contactId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<MessagePage> {
+  const limit = options.limit ?? MESSAGE_PAGE_SIZE;
+  // Fetch one extra to learn whether an older page exists
+  const stored = await requireAdapter().getMessagesPage(contactId, limit + 1, options.before);
+  const hasMore = stored.length > limit;
+  const messages = stored.slice(hasMore ? 1 : 0).map(fromStoredMessage);
+
+  let cached = messageCache.get(contactId) ?? [];
+  messages.forEach((message) => {
+    cached = insertSorted(cached, message);
+  });
+  messageCache.set(contactId, cached);
+  notifyChange();
+  return { messages, hasMore };
+}
+
+/**
+ * ✅ Load every message with the given status into the cache, across all conversations
+ * Used to resume the outbox after a reload.
+ */
+export async function loadMessagesByStatus(status: Message["status"]): Promise<Message[]> {
+  const stored = await requireAdapter().getMessagesByStatus(status);
+  stored.forEach(({ contactId, ...message }) => {
+    messageCache.set(contactId, insertSorted(messageCache.get(contactId) ?? [], message));
+  });
+  if (stored.length) notifyChange();
+  return stored.map(fromStoredMessage);
+}
+
+export function addMessage(message: Message): Promise<void> {
+  const contactId = conversationContactId(message);
+  const cached = messageCache.get(contactId) ?? [];
+  const isNew = !cached.some((m) => m.id === message.id);
+  messageCache.set(contactId, insertSorted(cached, message));
+  notifyChange();
+
+  const unread = isNew && message.senderId !== profileCache?.id && message.status !== "read" ? 1 : 0;
+  const contact = contactsCache.find((c) => c.id === contactId);
+  if (contact) {
+    saveContact({ ...contact, lastMessageTime: message.timestamp, unreadCount: contact.unreadCount + unread });
+  }
+  const group = groupsCache.find((g) => g.id === contactId);
+  if (group) {
+    saveGroup({ ...group, lastMessageTime: message.timestamp, unreadCount: group.unreadCount + unread });
+  }
+  return persist((db) => db.put("messages", toStoredMessage(message)));
+}
+
+// ✅ Mark everything received in a conversation as read and reset its unread count
+export function markMessagesAsRead(contactId: string): Promise<void> {
+  const cached = messageCache.get(contactId) ?? [];
+  const updated = cached
+    .filter((message) => message.senderId !== profileCache?.id && message.status !== "read")
+    .map((message) => ({ ...message, status: "read" as const }));
+  const contact = contactsCache.find((c) => c.id === contactId);
+  if (contact && contact.unreadCount !== 0) saveContact({ ...contact, unreadCount: 0 });
+  const group = groupsCache.find((g) => g.id === contactId);
+  if (group && group.unreadCount !== 0) saveGroup({ ...group, unreadCount: 0 });
+  if (updated.length === 0) return Promise.resolve();
+
+  messageCache.set(contactId, cached.map((message) => updated.find((u) => u.id === message.id) ?? message));
+  notifyChange();
+  return persist((db) => db.putMany("messages", updated.map(toStoredMessage)));
+}
+
+/* 🔹 **Reset** */
+
+// ✅ Delete all local data, including sessions, prekeys and the key vault
+export async function clearAllData(): Promise<void> {
+  profileCache = null;
+  contactsCache = [];
+  groupsCache = [];
+  messageCache.clear();
+  notifyChange();
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith("tetracrypt."))
+    .forEach((key) => localStorage.removeItem(key));
+  await persist((db) => db.clear());
 }
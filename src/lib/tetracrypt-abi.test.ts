@@ -0,0 +1,32 @@
+import { existsSync, readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import { utf8ToBytes } from "@noble/hashes/utils";
+import { cidFromFelts, cidToFelts, TETRACRYPT_MESSAGING_ABI } from "@/lib/tetracrypt-abi";
+
+// Written by `scarb build` in `starknet/`
+const CONTRACT_CLASS = "starknet/target/dev/tetracrypt_messaging_TetraCryptMessaging.contract_class.json";
+
+describe("TetraCrypt messaging ABI", () => {
+  it.skipIf(!existsSync(CONTRACT_CLASS))("matches the ABI of the compiled Sierra class", () => {
+    const { abi } = JSON.parse(readFileSync(CONTRACT_CLASS, "utf8"));
+    // Older toolchains embed the ABI as a JSON string
+    const compiled = typeof abi === "string" ? JSON.parse(abi) : abi;
+    expect(compiled).toHaveLength(TETRACRYPT_MESSAGING_ABI.length);
+    expect(compiled).toEqual(expect.arrayContaining(TETRACRYPT_MESSAGING_ABI.map((entry) => expect.objectContaining(entry))));
+  });
+
+  it("round-trips CIDs through their on-chain felts", async () => {
+    const cid = CID.createV1(raw.code, await sha256.digest(utf8ToBytes("envelope"))).toString();
+    const { codec, digest } = cidToFelts(cid);
+    expect(cidFromFelts(BigInt(codec), digest)).toBe(cid);
+  });
+
+  it("stores CIDv0 as its CIDv1 equivalent", () => {
+    const v0 = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+    const { codec, digest } = cidToFelts(v0);
+    expect(cidFromFelts(BigInt(codec), digest)).toBe(CID.parse(v0).toV1().toString());
+  });
+});
@@ -0,0 +1,269 @@
+import { CID } from "multiformats/cid";
+import { create as createDigest } from "multiformats/hashes/digest";
+import { sha256 } from "multiformats/hashes/sha2";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { ec, hash, num, shortString } from "starknet";
+import type { RegistrationContext } from "@/lib/registration";
+
+/**
+ * ✅ TetraCrypt Messaging Contract Bindings
+ * ABI of `starknet/src/lib.cairo` (the `abi` of its Sierra class) and
+ * helpers for the values it stores. Update the ABI whenever the contract's interface changes;
+ * `tetracrypt-abi.test.ts` compares it with the class `scarb build` writes to `starknet/target`.
+ */
+
+const ADDRESS = "core::starknet::contract_address::ContractAddress";
+const STORED_MESSAGE = "tetracrypt_messaging::StoredMessage";
+
+export const TETRACRYPT_MESSAGING_ABI = [
+  {
+    type: "impl",
+    name: "TetraCryptMessagingImpl",
+    interface_name: "tetracrypt_messaging::ITetraCryptMessaging",
+  },
+  {
+    type: "struct",
+    name: "core::integer::u256",
+    members: [
+      { name: "low", type: "core::integer::u128" },
+      { name: "high", type: "core::integer::u128" },
+    ],
+  },
+  {
+    type: "enum",
+    name: "core::bool",
+    variants: [
+      { name: "False", type: "()" },
+      { name: "True", type: "()" },
+    ],
+  },
+  {
+    type: "struct",
+    name: STORED_MESSAGE,
+    members: [
+      { name: "cid_codec", type: "core::felt252" },
+      { name: "cid_digest", type: "core::integer::u256" },
+      { name: "timestamp", type: "core::integer::u64" },
+      { name: "expires_at", type: "core::integer::u64" },
+      { name: "deleted", type: "core::bool" },
+    ],
+  },
+  {
+    type: "interface",
+    name: "tetracrypt_messaging::ITetraCryptMessaging",
+    items: [
+      {
+        type: "function",
+        name: "register_user",
+        inputs: [
+          { name: "user_address", type: ADDRESS },
+          { name: "starknet_key", type: "core::felt252" },
+          { name: "pq_key_commitment", type: "core::felt252" },
+          { name: "signature_r", type: "core::felt252" },
+          { name: "signature_s", type: "core::felt252" },
+        ],
+        outputs: [],
+        state_mutability: "external",
+      },
+      {
+        type: "function",
+        name: "get_user",
+        inputs: [{ name: "user_address", type: ADDRESS }],
+        outputs: [{ type: "(core::felt252, core::felt252)" }],
+        state_mutability: "view",
+      },
+      {
+        type: "function",
+        name: "store_message",
+        inputs: [
+          { name: "sender", type: ADDRESS },
+          { name: "receiver", type: ADDRESS },
+          { name: "cid_codec", type: "core::felt252" },
+          { name: "cid_digest", type: "core::integer::u256" },
+          { name: "nonce", type: "core::felt252" },
+          { name: "signature_r", type: "core::felt252" },
+          { name: "signature_s", type: "core::felt252" },
+        ],
+        outputs: [{ type: "core::integer::u64" }],
+        state_mutability: "external",
+      },
+      {
+        type: "function",
+        name: "get_messages",
+        inputs: [
+          { name: "sender", type: ADDRESS },
+          { name: "receiver", type: ADDRESS },
+          { name: "from_index", type: "core::integer::u64" },
+          { name: "limit", type: "core::integer::u32" },
+        ],
+        outputs: [{ type: `core::array::Array::<${STORED_MESSAGE}>` }],
+        state_mutability: "view",
+      },
+      {
+        type: "function",
+        name: "get_message_count",
+        inputs: [
+          { name: "sender", type: ADDRESS },
+          { name: "receiver", type: ADDRESS },
+        ],
+        outputs: [{ type: "core::integer::u64" }],
+        state_mutability: "view",
+      },
+      {
+        type: "function",
+        name: "get_nonce",
+        inputs: [{ name: "user_address", type: ADDRESS }],
+        outputs: [{ type: "core::felt252" }],
+        state_mutability: "view",
+      },
+      {
+        type: "function",
+        name: "delete_message",
+        inputs: [
+          { name: "sender", type: ADDRESS },
+          { name: "receiver", type: ADDRESS },
+          { name: "index", type: "core::integer::u64" },
+        ],
+        outputs: [],
+        state_mutability: "external",
+      },
+    ],
+  },
+  {
+    type: "event",
+    name: "tetracrypt_messaging::TetraCryptMessaging::UserRegistered",
+    kind: "struct",
+    members: [
+      { name: "user_address", type: ADDRESS, kind: "key" },
+      { name: "starknet_key", type: "core::felt252", kind: "data" },
+      { name: "pq_key_commitment", type: "core::felt252", kind: "data" },
+    ],
+  },
+  {
+    type: "event",
+    name: "tetracrypt_messaging::TetraCryptMessaging::MessageStored",
+    kind: "struct",
+    members: [
+      { name: "sender", type: ADDRESS, kind: "key" },
+      { name: "receiver", type: ADDRESS, kind: "key" },
+      { name: "index", type: "core::integer::u64", kind: "data" },
+      { name: "cid_codec", type: "core::felt252", kind: "data" },
+      { name: "cid_digest", type: "core::integer::u256", kind: "data" },
+      { name: "timestamp", type: "core::integer::u64", kind: "data" },
+    ],
+  },
+  {
+    type: "event",
+    name: "tetracrypt_messaging::TetraCryptMessaging::MessageDeleted",
+    kind: "struct",
+    members: [
+      { name: "sender", type: ADDRESS, kind: "key" },
+      { name: "receiver", type: ADDRESS, kind: "key" },
+      { name: "index", type: "core::integer::u64", kind: "data" },
+    ],
+  },
+  {
+    type: "event",
+    name: "tetracrypt_messaging::TetraCryptMessaging::Event",
+    kind: "enum",
+    variants: [
+      { name: "UserRegistered", type: "tetracrypt_messaging::TetraCryptMessaging::UserRegistered", kind: "nested" },
+      { name: "MessageStored", type: "tetracrypt_messaging::TetraCryptMessaging::MessageStored", kind: "nested" },
+      { name: "MessageDeleted", type: "tetracrypt_messaging::TetraCryptMessaging::MessageDeleted", kind: "nested" },
+    ],
+  },
+] as const;
+
+// Must match `MESSAGE_DOMAIN` in the contract
+export const MESSAGE_DOMAIN = shortString.encodeShortString("TetraCrypt/message/v1");
+/** `get_messages` returns at most this many entries per call. */
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+/** `StoredMessage` as returned by the contract. */
+export interface StoredMessageStruct {
+  cid_codec: bigint;
+  cid_digest: bigint;
+  timestamp: bigint;
+  expires_at: bigint;
+  deleted: boolean;
+}
+
+export interface ConversationLogEntry {
+  index: number;
+  /** Null once the message has been deleted. */
+  cid: string | null;
+  /** Block timestamps, in seconds. */
+  timestamp: number;
+  expiresAt: number;
+}
+
+/* 🔹 **CIDs as Felts** */
+
+/**
+ * ✅ Split a CID into the multicodec and SHA-256 digest stored on-chain
+ * Every blob store backend (`@/lib/blob-store`) produces SHA-256 CIDs; CIDv0 is stored as
+ * its CIDv1 equivalent.
+ */
+export function cidToFelts(cid: string): { codec: string; digest: bigint } {
+  const parsed = CID.parse(cid).toV1();
+  if (parsed.multihash.code !== sha256.code) throw new Error(`Unsupported CID hash: ${cid}`);
+  return { codec: num.toHex(parsed.code), digest: BigInt(`0x${bytesToHex(parsed.multihash.digest)}`) };
+}
+
+// ✅ Rebuild the CIDv1 string from its on-chain parts
+export function cidFromFelts(codec: bigint, digest: bigint): string {
+  const multihash = createDigest(sha256.code, hexToBytes(digest.toString(16).padStart(64, "0")));
+  return CID.createV1(Number(codec), multihash).toString();
+}
+
+export function parseStoredMessage(message: StoredMessageStruct, index: number): ConversationLogEntry {
+  return {
+    index,
+    cid: message.deleted ? null : cidFromFelts(message.cid_codec, message.cid_digest),
+    timestamp: Number(message.timestamp),
+    expiresAt: Number(message.expires_at),
+  };
+}
+
+/* 🔹 **Signed Message Slots** */
+
+// ✅ The statement a sender signs to append a CID to a conversation; the contract computes the same hash
+export function messageStatementHash(
+  sender: string,
+  receiver: string,
+  nonce: bigint,
+  cid: string,
+  context: RegistrationContext
+): string {
+  const { codec, digest } = cidToFelts(cid);
+  const low = digest & ((1n << 128n) - 1n);
+  const high = digest >> 128n;
+  return hash.computePoseidonHashOnElements([
+    MESSAGE_DOMAIN,
+    context.chainId,
+    context.contractAddress,
+    sender,
+    receiver,
+    nonce,
+    codec,
+    low,
+    high,
+  ]);
+}
+
+/**
+ * ✅ Arguments for `store_message`, signed with the sender's registered Stark key
+ * @param nonce - The sender's next nonce (`get_nonce`); each nonce is accepted once
+ */
+export function storeMessageArgs(
+  sender: string,
+  receiver: string,
+  cid: string,
+  nonce: bigint,
+  starkPrivateKey: string,
+  context: RegistrationContext
+): [string, string, string, bigint, string, string, string] {
+  const { codec, digest } = cidToFelts(cid);
+  const { r, s } = ec.starkCurve.sign(messageStatementHash(sender, receiver, nonce, cid, context), starkPrivateKey);
+  return [sender, receiver, codec, digest, num.toHex(nonce), num.toHex(r), num.toHex(s)];
+}
@@ -0,0 +1,217 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { decryptMessage, encryptMessage, fingerprintPublicKey, KeyPair, PublicKeyInfo } from "@/lib/crypto";
+
+/**
+ * ✅ Passphrase-Protected Key Vault
+ * Private keys are wrapped with AES-256-GCM under a key derived from the user's passphrase
+ * with scrypt, and only ever held in memory while the vault is unlocked. The user profile
+ * stores public keys alone.
+ */
+
+export type VaultKeyPurpose = "encryption" | "signature";
+export type VaultKeyPairs = Record<VaultKeyPurpose, KeyPair>;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+/** Lock after this much time without user activity. */
+export const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+// scrypt cost (RFC 7914): 2^17 × 8 × 128 bytes = 128 MiB per derivation
+const SCRYPT_PARAMS = { N: 2 ** 17, r: 8, p: 1 };
+const VAULT_STORAGE_KEY = "tetracrypt.vault";
+const VAULT_PURPOSES: VaultKeyPurpose[] = ["encryption", "signature"];
+
+interface WrappedKey {
+  algorithm: string;
+  publicKey: string;
+  /** `AES-256-GCM:<iv>:<ciphertext>` of the private key. */
+  wrappedPrivateKey: string;
+}
+
+interface VaultRecord {
+  version: 1;
+  kdf: { algorithm: "scrypt"; N: number; r: number; p: number; salt: string };
+  keys: Record<VaultKeyPurpose, WrappedKey>;
+  /** Random key protecting local message history; absent on vaults created before it existed. */
+  wrappedLocalKey?: string;
+}
+
+interface OpenedVault {
+  keyPairs: VaultKeyPairs;
+  localKey: string;
+}
+
+const LOCAL_KEY_CONTEXT = utf8ToBytes("TetraCryptPQC/vault/v1:local");
+
+let unlockedKeys: VaultKeyPairs | null = null;
+let localKey: string | null = null;
+const listeners = new Set<(unlocked: boolean) => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener(unlockedKeys !== null));
+}
+
+function loadRecord(): VaultRecord | null {
+  const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as VaultRecord) : null;
+}
+
+/* 🔹 **Key Wrapping** */
+
+async function deriveWrappingKey(passphrase: string, kdf: VaultRecord["kdf"]): Promise<string> {
+  console.log("🔹 Deriving vault key with scrypt...");
+  const { N, r, p } = kdf;
+  return bytesToHex(await scryptAsync(passphrase.normalize("NFKC"), hexToBytes(kdf.salt), { N, r, p, dkLen: 32 }));
+}
+
+/** Binds each wrapped key to its slot and public key, so wrapped keys cannot be swapped. */
+function wrappingContext(purpose: VaultKeyPurpose, key: Pick<KeyPair, "algorithm" | "publicKey">): Uint8Array {
+  return utf8ToBytes(`TetraCryptPQC/vault/v1:${purpose}:${key.algorithm}:${fingerprintPublicKey(key.publicKey)}`);
+}
+
+function generateLocalKey(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function sealVault(passphrase: string, { keyPairs, localKey }: OpenedVault): Promise<VaultRecord> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const { N, r, p } = SCRYPT_PARAMS;
+  const kdf = { algorithm: "scrypt" as const, N, r, p, salt: bytesToHex(crypto.getRandomValues(new Uint8Array(16))) };
+  const wrappingKey = await deriveWrappingKey(passphrase, kdf);
+
+  const keys = {} as Record<VaultKeyPurpose, WrappedKey>;
+  for (const purpose of VAULT_PURPOSES) {
+    const { algorithm, publicKey, privateKey } = keyPairs[purpose];
+    const wrappedPrivateKey = await encryptMessage(privateKey, wrappingKey, wrappingContext(purpose, keyPairs[purpose]));
+    keys[purpose] = { algorithm, publicKey, wrappedPrivateKey };
+  }
+  const wrappedLocalKey = await encryptMessage(localKey, wrappingKey, LOCAL_KEY_CONTEXT);
+  return { version: 1, kdf, keys, wrappedLocalKey };
+}
+
+async function openVault(passphrase: string, record: VaultRecord): Promise<OpenedVault & { upgraded: boolean }> {
+  const wrappingKey = await deriveWrappingKey(passphrase, record.kdf);
+  const keyPairs = {} as VaultKeyPairs;
+  let localKey: string;
+  try {
+    for (const purpose of VAULT_PURPOSES) {
+      const { algorithm, publicKey, wrappedPrivateKey } = record.keys[purpose];
+      const privateKey = await decryptMessage(wrappedPrivateKey, wrappingKey, wrappingContext(purpose, record.keys[purpose]));
+      keyPairs[purpose] = { algorithm, publicKey, privateKey };
+    }
+    localKey = record.wrappedLocalKey
+      ? await decryptMessage(record.wrappedLocalKey, wrappingKey, LOCAL_KEY_CONTEXT)
+      : generateLocalKey();
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+  return { keyPairs, localKey, upgraded: !record.wrappedLocalKey };
+}
+
+/* 🔹 **Vault Lifecycle** */
+
+export function hasVault(): boolean {
+  return loadRecord() !== null;
+}
+
+export function isVaultUnlocked(): boolean {
+  return unlockedKeys !== null;
+}
+
+/**
+ * ✅ Create the vault for newly generated (or migrated) keys and leave it unlocked
+ * @returns The public halves of the keys, for storing on the user profile
+ */
+export async function createVault(passphrase: string, keyPairs: VaultKeyPairs): Promise<Record<VaultKeyPurpose, PublicKeyInfo>> {
+  const opened = { keyPairs, localKey: generateLocalKey() };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await sealVault(passphrase, opened)));
+  unlockedKeys = keyPairs;
+  localKey = opened.localKey;
+  notify();
+  return {
+    encryption: { algorithm: keyPairs.encryption.algorithm, publicKey: keyPairs.encryption.publicKey },
+    signature: { algorithm: keyPairs.signature.algorithm, publicKey: keyPairs.signature.publicKey },
+  };
+}
+
+// ✅ Unlock with the passphrase; throws "Incorrect passphrase" on failure
+export async function unlockVault(passphrase: string): Promise<void> {
+  const record = loadRecord();
+  if (!record) throw new Error("No vault has been created");
+  const opened = await openVault(passphrase, record);
+  if (opened.upgraded) {
+    // Older vaults predate the local key; add one now that the passphrase is at hand
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await sealVault(passphrase, opened)));
+  }
+  unlockedKeys = opened.keyPairs;
+  localKey = opened.localKey;
+  notify();
+}
+
+// ✅ Drop the decrypted keys from memory
+export function lockVault(): void {
+  if (!unlockedKeys) return;
+  unlockedKeys = null;
+  localKey = null;
+  notify();
+}
+
+// ✅ Re-wrap every key under a new passphrase (with a fresh salt)
+export async function changeVaultPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  const record = loadRecord();
+  if (!record) throw new Error("No vault has been created");
+  const opened = await openVault(currentPassphrase, record);
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await sealVault(newPassphrase, opened)));
+  unlockedKeys = opened.keyPairs;
+  localKey = opened.localKey;
+  notify();
+}
+
+export function deleteVault(): void {
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  lockVault();
+}
+
+/** ✅ Decrypted key pairs; throws while the vault is locked. */
+export function getUnlockedKeyPairs(): VaultKeyPairs {
+  if (!unlockedKeys) throw new Error("Vault is locked");
+  return unlockedKeys;
+}
+
+/**
+ * ✅ Symmetric key for encrypting data kept on this device (e.g. per-message keys);
+ * throws while the vault is locked.
+ */
+export function getLocalKey(): string {
+  if (!localKey) throw new Error("Vault is locked");
+  return localKey;
+}
+
+export function subscribeVault(listener: (unlocked: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * ✅ Lock the vault after a period without keyboard, pointer or touch activity
+ * @returns Cleanup that removes the listeners and timer
+ */
+export function startAutoLock(timeoutMs: number = DEFAULT_AUTO_LOCK_MS): () => void {
+  let timer: ReturnType<typeof setTimeout>;
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(lockVault, timeoutMs);
+  };
+  const events = ["keydown", "pointerdown", "pointermove", "touchstart", "wheel"] as const;
+  events.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+  reset();
+
+  return () => {
+    clearTimeout(timer);
+    events.forEach((event) => window.removeEventListener(event, reset));
+  };
+}
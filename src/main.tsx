@@ -1,6 +1,10 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { initStorage } from "./lib/storage";
+
+// ✅ Open the local database before the first render so profile reads are synchronous
+await initStorage();
 
 const rootElement = document.getElementById("root");
 if (rootElement) {
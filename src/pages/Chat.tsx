@@ -1,41 +1,45 @@
 import React, { useEffect, useState } from "react";
-import { Contact, UserProfile, getContacts, getUserProfile } from "@/lib/storage";
+import { UserProfile, getUserProfile } from "@/lib/storage";
 import UserSetup from "@/components/user/UserSetup";
+import UnlockScreen from "@/components/security/UnlockScreen";
 import ContactList from "@/components/chat/ContactList";
 import Conversation from "@/components/chat/Conversation";
-import MessageList from "@/components/chat/MessageList";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Settings } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { Account, Contract } from "starknet";
-import { getFileFromIPFS } from "@/lib/helia";
-
-// ✅ StarkNet Messaging Contract Address
-const STARKNET_MESSAGING_CONTRACT = "0xYourStarkNetMessagingContractAddress";
+import { useVault } from "@/hooks/use-vault";
+import { DEFAULT_USER_SETTINGS } from "@/lib/storage-types";
+import { messagingService } from "@/lib/messaging-service";
+import { useContacts } from "@/hooks/use-contacts";
+import { useGroups } from "@/hooks/use-groups";
 
 const Chat = () => {
   const [user, setUser] = useState<UserProfile | null>(null);
-  const [contacts, setContacts] = useState<Contact[]>([]);
   const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const unlocked = useVault(user?.settings?.autoLockMinutes ?? DEFAULT_USER_SETTINGS.autoLockMinutes);
+  const contacts = useContacts();
+  const groups = useGroups();
 
   useEffect(() => {
     // Load user profile
     const loadedUser = getUserProfile();
     if (loadedUser) {
       setUser(loadedUser);
-      loadContacts();
     }
     setLoading(false);
   }, []);
 
-  const loadContacts = () => {
-    const loadedContacts = getContacts();
-    setContacts(loadedContacts);
-  };
+  // ✅ Stay connected to the relay only while the keys are unlocked
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId || !unlocked) return;
+    messagingService.start(userId);
+    return () => messagingService.stop();
+  }, [userId, unlocked]);
 
   const handleUserSetupComplete = (profile: UserProfile) => {
     setUser(profile);
@@ -53,49 +57,14 @@ const Chat = () => {
     navigate("/settings");
   };
 
-  // ✅ Fetch Messages from StarkNet & IPFS
-  const fetchMessagesFromStarkNet = async () => {
-    if (!user || !selectedContactId) return;
-
-    try {
-      const account = new Account(user.provider, user.starknetAddress);
-      const messagingContract = new Contract(
-        [
-          {
-            name: "get_message",
-            type: "function",
-            inputs: [
-              { name: "sender", type: "felt" },
-              { name: "receiver", type: "felt" },
-            ],
-            outputs: [{ name: "cid", type: "felt" }],
-          },
-        ],
-        STARKNET_MESSAGING_CONTRACT,
-        account
-      );
-
-      const response = await messagingContract.call("get_message", [
-        user.starknetAddress,
-        selectedContactId,
-      ]);
-
-      const cid = response.cid;
-      if (cid) {
-        console.log("🔹 Retrieved CID from StarkNet:", cid);
-        const encryptedMessage = await getFileFromIPFS(cid);
-        console.log("🔹 Decrypted Message:", encryptedMessage);
-      }
-    } catch (error) {
-      console.error("❌ StarkNet Message Fetch Failed:", error);
-    }
-  };
-
+  // ✅ Pick up messages the selected contact logged on StarkNet
+  const selectedStarknetAddress = contacts.find((c) => c.id === selectedContactId)?.starknetAddress;
   useEffect(() => {
-    if (selectedContactId) {
-      fetchMessagesFromStarkNet();
-    }
-  }, [selectedContactId]);
+    if (!unlocked || !selectedContactId || !selectedStarknetAddress) return;
+    messagingService
+      .fetchFromStarknet(selectedContactId)
+      .catch((error) => console.error("❌ StarkNet Message Fetch Failed:", error));
+  }, [unlocked, selectedContactId, selectedStarknetAddress]);
 
   if (loading) {
     return (
@@ -109,13 +78,19 @@ const Chat = () => {
     return <UserSetup onSetupComplete={handleUserSetupComplete} />;
   }
 
-  const selectedContact = contacts.find((c) => c.id === selectedContactId);
+  // ✅ Private keys stay wrapped until the user unlocks the vault
+  if (!unlocked) {
+    return <UnlockScreen user={user} onUnlocked={setUser} />;
+  }
+
+  const selectedConversation =
+    contacts.find((c) => c.id === selectedContactId) ?? groups.find((g) => g.id === selectedContactId);
 
   if (isMobile) {
     return (
       <div className="h-screen w-full flex flex-col">
-        {selectedContactId && selectedContact ? (
-          <Conversation contact={selectedContact} onBack={handleBack} />
+        {selectedContactId && selectedConversation ? (
+          <Conversation conversation={selectedConversation} onBack={handleBack} />
         ) : (
           <>
             <div className="border-b p-4 flex items-center justify-between">
@@ -127,9 +102,9 @@ const Chat = () => {
             <div className="flex-1 overflow-hidden">
               <ContactList
                 contacts={contacts}
+                groups={groups}
                 selectedContactId={selectedContactId}
                 onSelectContact={handleContactSelect}
-                onRefreshContacts={loadContacts}
               />
             </div>
           </>
@@ -151,18 +126,15 @@ const Chat = () => {
         <div className="w-80 border-r overflow-hidden flex flex-col">
           <ContactList
             contacts={contacts}
+            groups={groups}
             selectedContactId={selectedContactId}
             onSelectContact={handleContactSelect}
-            onRefreshContacts={loadContacts}
           />
         </div>
 
         <div className="flex-1 overflow-hidden">
-          {selectedContact ? (
-            <>
-              <Conversation contact={selectedContact} />
-              <MessageList />
-            </>
+          {selectedConversation ? (
+            <Conversation conversation={selectedConversation} />
           ) : (
             <div className="h-full flex items-center justify-center text-center p-4">
               <div className="max-w-md">
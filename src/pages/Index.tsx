@@ -57,7 +57,7 @@ const Index: React.FC = () => {
     {
       icon: <Database className="h-6 w-6 text-accent" />,
       title: "Decentralized Identity",
-      description: "Web3-compatible DIDs (Decentralized Identifiers) secured with zk-STARKs and post-quantum cryptography.",
+      description: "Web3-compatible DIDs (Decentralized Identifiers) bound to post-quantum keys.",
       delay: featureDelays[3]
     },
     {
@@ -79,7 +79,6 @@ const Index: React.FC = () => {
     "NIST FIPS 205/206 compliant encryption",
     "Resistant to both classical and quantum attacks",
     "Zero-Trust decentralized identity verification",
-    "Post-Quantum zk-STARK proofs",
     "Hardware Security Module (HSM) integration",
     "Perfect Forward Secrecy (PFS)",
     "Quantum Key Distribution (QKD)"
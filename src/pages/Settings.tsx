@@ -7,14 +7,34 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
-import { ArrowLeft, User, Key, Shield, Settings as SettingsIcon, LogOut, Copy } from "lucide-react";
+import { ArrowLeft, User, Key, Shield, Settings as SettingsIcon, LogOut, Copy, Link, Download } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import UnlockScreen from "@/components/security/UnlockScreen";
+import { useVault } from "@/hooks/use-vault";
 import { UserProfile, clearAllData, getUserProfile, saveUserProfile } from "@/lib/storage";
+import { DEFAULT_USER_SETTINGS, UserSettings } from "@/lib/storage-types";
+import { fingerprintPublicKey } from "@/lib/crypto";
+import { collectGarbage, stopHelia } from "@/lib/helia";
+import { changeVaultPassphrase, deleteVault, getUnlockedKeyPairs, lockVault, MIN_PASSPHRASE_LENGTH } from "@/lib/vault";
+import {
+  CONTACT_CARD_FILE_EXTENSION,
+  createContactCard,
+  encodeContactCardFile,
+  encodeContactCardUri,
+} from "@/lib/contact-card";
+
+// ✅ SHA-256 fingerprint in groups of four for visual comparison
+const formatFingerprint = (publicKey: string) =>
+  fingerprintPublicKey(publicKey).toUpperCase().match(/.{4}/g).join(" ");
 
 const Settings = () => {
   const [user, setUser] = useState<UserProfile | null>(null);
+  const [passphrases, setPassphrases] = useState({ current: "", next: "", confirm: "" });
+  const [changingPassphrase, setChangingPassphrase] = useState(false);
+  const [collectingGarbage, setCollectingGarbage] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const unlocked = useVault(user?.settings?.autoLockMinutes ?? DEFAULT_USER_SETTINGS.autoLockMinutes);
 
   useEffect(() => {
     const loadedUser = getUserProfile();
@@ -27,6 +47,11 @@ const Settings = () => {
 
   const handleLogout = () => {
     clearAllData();
+    deleteVault();
+    // ✅ With every message gone nothing is referenced, so this deletes all stored blocks
+    collectGarbage()
+      .then(stopHelia)
+      .catch((error) => console.error("❌ Failed to clear IPFS storage:", error));
     toast({
       title: "Logged out",
       description: "Your session has been ended and all data cleared.",
@@ -42,6 +67,33 @@ const Settings = () => {
     });
   };
 
+  // ✅ Share a self-signed contact card as a link or a `.tetracard` file
+  const handleShareCard = async (format: "link" | "file") => {
+    if (!user) return;
+
+    try {
+      const card = await createContactCard(user, getUnlockedKeyPairs().signature);
+      if (format === "link") {
+        await navigator.clipboard.writeText(encodeContactCardUri(card));
+        toast({ title: "Contact card copied", description: "Send the link to contacts so they can add you." });
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([encodeContactCardFile(card)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${user.name}${CONTACT_CARD_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Could not create contact card",
+        description: error instanceof Error ? error.message : "Unlock your keys and try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const updateUserName = (name: string) => {
     if (!user || name.trim().length < 3) return;
     
@@ -59,8 +111,77 @@ const Settings = () => {
     });
   };
 
+  const updateSettings = (changes: Partial<UserSettings>) => {
+    if (!user) return;
+
+    const updatedUser = {
+      ...user,
+      settings: { ...DEFAULT_USER_SETTINGS, ...user.settings, ...changes },
+    };
+
+    saveUserProfile(updatedUser);
+    setUser(updatedUser);
+  };
+
+  const handleChangePassphrase = async () => {
+    if (passphrases.next !== passphrases.confirm) {
+      toast({ title: "Passphrases do not match", variant: "destructive" });
+      return;
+    }
+
+    setChangingPassphrase(true);
+    try {
+      await changeVaultPassphrase(passphrases.current, passphrases.next);
+      setPassphrases({ current: "", next: "", confirm: "" });
+      toast({
+        title: "Passphrase changed",
+        description: "Your private keys have been re-encrypted with the new passphrase.",
+      });
+    } catch (error) {
+      toast({
+        title: "Passphrase not changed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setChangingPassphrase(false);
+    }
+  };
+
+  const handleLockNow = () => {
+    lockVault();
+    navigate("/chat");
+  };
+
+  // ✅ Delete stored IPFS blocks that no message references any more
+  const handleCollectGarbage = async () => {
+    setCollectingGarbage(true);
+    try {
+      const { unpinned } = await collectGarbage();
+      toast({
+        title: "Storage cleaned up",
+        description: `${unpinned.length} unused file${unpinned.length === 1 ? "" : "s"} removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Clean-up failed",
+        description: error instanceof Error ? error.message : "Could not clean up IPFS storage.",
+        variant: "destructive",
+      });
+    } finally {
+      setCollectingGarbage(false);
+    }
+  };
+
   if (!user) return null;
 
+  // ✅ Same gate as the chat: keys, passphrase and contact card need the vault unlocked
+  if (!unlocked) {
+    return <UnlockScreen user={user} onUnlocked={setUser} />;
+  }
+
+  const settings = { ...DEFAULT_USER_SETTINGS, ...user.settings };
+
   return (
     <div className="min-h-screen p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
@@ -127,6 +248,21 @@ const Settings = () => {
                     Share this ID with contacts who want to add you
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Contact Card</label>
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1" onClick={() => handleShareCard("link")}>
+                      <Link className="h-4 w-4 mr-2" /> Copy Card Link
+                    </Button>
+                    <Button variant="outline" className="flex-1" onClick={() => handleShareCard("file")}>
+                      <Download className="h-4 w-4 mr-2" /> Download Card
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Your name, ID and public keys, signed with your identity key. Contacts can import it in one step.
+                  </p>
+                </div>
               </div>
             </GlassContainer>
           </TabsContent>
@@ -136,14 +272,14 @@ const Settings = () => {
               <h2 className="text-xl font-semibold mb-4">Cryptographic Keys</h2>
               <p className="text-sm text-muted-foreground mb-4">
                 These are your NIST FIPS 205-compliant post-quantum cryptographic keys used for secure communication.
-                Never share your private keys with anyone.
+                Only public keys and their fingerprints are shown here.
               </p>
               
               <div className="space-y-6">
                 <div className="space-y-4">
                   <div className="flex items-center gap-2">
                     <Key className="h-5 w-5 text-accent" />
-                    <h3 className="text-lg font-medium">ML-KEM-1024 Keys (NIST FIPS 205)</h3>
+                    <h3 className="text-lg font-medium">{user.keyPairs.encryption.algorithm} Keys (NIST FIPS 203)</h3>
                   </div>
                   <Separator />
                   
@@ -152,7 +288,7 @@ const Settings = () => {
                       <label className="text-sm font-medium">Public Key</label>
                       <div className="relative">
                         <Input
-                          value={user.keyPairs.kyber.publicKey}
+                          value={user.keyPairs.encryption.publicKey}
                           readOnly
                           className="font-mono text-xs pr-10"
                         />
@@ -160,7 +296,7 @@ const Settings = () => {
                           variant="ghost"
                           size="icon"
                           className="absolute right-1 top-1/2 transform -translate-y-1/2"
-                          onClick={() => handleCopyKey(user.keyPairs.kyber.publicKey, "ML-KEM public")}
+                          onClick={() => handleCopyKey(user.keyPairs.encryption.publicKey, "Encryption public")}
                         >
                           <Copy className="h-4 w-4" />
                         </Button>
@@ -171,25 +307,14 @@ const Settings = () => {
                     </div>
                     
                     <div className="space-y-2">
-                      <label className="text-sm font-medium">Private Key</label>
-                      <div className="relative">
-                        <Input
-                          type="password"
-                          value="●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●"
-                          readOnly
-                          className="font-mono text-xs pr-10"
-                        />
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="absolute right-1 top-1/2 transform -translate-y-1/2"
-                          onClick={() => handleCopyKey(user.keyPairs.kyber.privateKey, "ML-KEM private")}
-                        >
-                          <Copy className="h-4 w-4" />
-                        </Button>
-                      </div>
-                      <p className="text-xs text-destructive">
-                        Never share your private key with anyone
+                      <label className="text-sm font-medium">Fingerprint (SHA-256)</label>
+                      <Input
+                        value={formatFingerprint(user.keyPairs.encryption.publicKey)}
+                        readOnly
+                        className="font-mono text-xs"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        The private key is encrypted in your passphrase vault and never leaves this device
                       </p>
                     </div>
                   </div>
@@ -198,7 +323,7 @@ const Settings = () => {
                 <div className="space-y-4">
                   <div className="flex items-center gap-2">
                     <Shield className="h-5 w-5 text-accent" />
-                    <h3 className="text-lg font-medium">SLH-DSA Keys (NIST FIPS 205)</h3>
+                    <h3 className="text-lg font-medium">{user.keyPairs.signature.algorithm} Signature Keys</h3>
                   </div>
                   <Separator />
                   
@@ -207,7 +332,7 @@ const Settings = () => {
                       <label className="text-sm font-medium">Public Key</label>
                       <div className="relative">
                         <Input
-                          value={user.keyPairs.falcon.publicKey}
+                          value={user.keyPairs.signature.publicKey}
                           readOnly
                           className="font-mono text-xs pr-10"
                         />
@@ -215,7 +340,7 @@ const Settings = () => {
                           variant="ghost"
                           size="icon"
                           className="absolute right-1 top-1/2 transform -translate-y-1/2"
-                          onClick={() => handleCopyKey(user.keyPairs.falcon.publicKey, "SLH-DSA public")}
+                          onClick={() => handleCopyKey(user.keyPairs.signature.publicKey, "Signature public")}
                         >
                           <Copy className="h-4 w-4" />
                         </Button>
@@ -226,25 +351,14 @@ const Settings = () => {
                     </div>
                     
                     <div className="space-y-2">
-                      <label className="text-sm font-medium">Private Key</label>
-                      <div className="relative">
-                        <Input
-                          type="password"
-                          value="●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●●"
-                          readOnly
-                          className="font-mono text-xs pr-10"
-                        />
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="absolute right-1 top-1/2 transform -translate-y-1/2"
-                          onClick={() => handleCopyKey(user.keyPairs.falcon.privateKey, "SLH-DSA private")}
-                        >
-                          <Copy className="h-4 w-4" />
-                        </Button>
-                      </div>
-                      <p className="text-xs text-destructive">
-                        Never share your private key with anyone
+                      <label className="text-sm font-medium">Fingerprint (SHA-256)</label>
+                      <Input
+                        value={formatFingerprint(user.keyPairs.signature.publicKey)}
+                        readOnly
+                        className="font-mono text-xs"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        The private key is encrypted in your passphrase vault and never leaves this device
                       </p>
                     </div>
                   </div>
@@ -262,10 +376,13 @@ const Settings = () => {
                   <div className="space-y-0.5">
                     <label className="text-sm font-medium">Perfect Forward Secrecy</label>
                     <p className="text-xs text-muted-foreground">
-                      Regularly rotate encryption keys for enhanced security
+                      New ML-KEM ratchet key whenever the conversation changes direction
                     </p>
                   </div>
-                  <Switch defaultChecked={true} />
+                  <Switch
+                    checked={settings.perfectForwardSecrecy}
+                    onCheckedChange={(checked) => updateSettings({ perfectForwardSecrecy: checked })}
+                  />
                 </div>
                 
                 <Separator />
@@ -289,9 +406,98 @@ const Settings = () => {
                       Use both post-quantum and classical encryption for stronger security
                     </p>
                   </div>
-                  <Switch defaultChecked={true} />
+                  <Switch
+                    checked={settings.hybridEncryption}
+                    onCheckedChange={(checked) => updateSettings({ hybridEncryption: checked })}
+                  />
                 </div>
                 
+                <Separator />
+
+                <div className="space-y-3">
+                  <div className="space-y-0.5">
+                    <label className="text-sm font-medium">Key Vault</label>
+                    <p className="text-xs text-muted-foreground">
+                      Private keys are encrypted with your passphrase (scrypt + AES-256-GCM)
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <label className="text-sm" htmlFor="auto-lock">Auto-lock after (minutes)</label>
+                    <Input
+                      id="auto-lock"
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={settings.autoLockMinutes}
+                      onChange={(e) => {
+                        const minutes = Number(e.target.value);
+                        if (minutes >= 1) updateSettings({ autoLockMinutes: minutes });
+                      }}
+                    />
+                  </div>
+                  <Input
+                    type="password"
+                    placeholder="Current passphrase"
+                    value={passphrases.current}
+                    onChange={(e) => setPassphrases({ ...passphrases, current: e.target.value })}
+                    autoComplete="current-password"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="New passphrase"
+                    value={passphrases.next}
+                    onChange={(e) => setPassphrases({ ...passphrases, next: e.target.value })}
+                    autoComplete="new-password"
+                  />
+                  <Input
+                    type="password"
+                    placeholder="Confirm new passphrase"
+                    value={passphrases.confirm}
+                    onChange={(e) => setPassphrases({ ...passphrases, confirm: e.target.value })}
+                    autoComplete="new-password"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleChangePassphrase}
+                      disabled={changingPassphrase || !passphrases.current || passphrases.next.length < MIN_PASSPHRASE_LENGTH}
+                    >
+                      {changingPassphrase ? "Re-encrypting..." : "Change Passphrase"}
+                    </Button>
+                    <Button variant="outline" onClick={handleLockNow}>
+                      Lock Now
+                    </Button>
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <label className="text-sm font-medium">Attachment Storage</label>
+                    <p className="text-xs text-muted-foreground">
+                      Remove encrypted files on this device that no stored message refers to
+                    </p>
+                  </div>
+                  <Button variant="outline" onClick={handleCollectGarbage} disabled={collectingGarbage}>
+                    {collectingGarbage ? "Cleaning up..." : "Clean Up"}
+                  </Button>
+                </div>
+
+                <Separator />
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <label className="text-sm font-medium">StarkNet Message Log</label>
+                    <p className="text-xs text-muted-foreground">
+                      Also record each message on StarkNet for contacts with an address (one paid transaction per message)
+                    </p>
+                  </div>
+                  <Switch
+                    checked={settings.starknetMessageLog}
+                    onCheckedChange={(checked) => updateSettings({ starknetMessageLog: checked })}
+                  />
+                </div>
+
                 <Separator />
                 
                 <div className="flex items-center justify-between">
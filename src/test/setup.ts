@@ -0,0 +1,34 @@
+import { WebSocket } from "ws";
+
+// ✅ Browser APIs the app relies on, for tests running in Node
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+globalThis.localStorage ??= new MemoryStorage();
+globalThis.WebSocket ??= WebSocket as unknown as typeof globalThis.WebSocket;
@@ -0,0 +1,258 @@
+// ✅ TetraCrypt Messaging Contract (Cairo 1)
+// Users register a StarkNet key bound to their post-quantum identity key, and each
+// conversation `(sender, receiver)` keeps an append-only log of message CIDs. Message
+// contents live on IPFS; only the CID, timestamps and a deletion flag are stored here.
+
+use starknet::ContractAddress;
+
+// ✅ One entry in a conversation log
+// CIDs are stored as their multicodec and SHA-256 digest, the parts that vary between
+// CIDv1s (see `@/lib/tetracrypt-abi`), which keeps entries fixed-size.
+#[derive(Copy, Drop, Serde, starknet::Store)]
+pub struct StoredMessage {
+    pub cid_codec: felt252,
+    pub cid_digest: u256,
+    pub timestamp: u64,
+    pub expires_at: u64,
+    pub deleted: bool,
+}
+
+#[starknet::interface]
+pub trait ITetraCryptMessaging<TContractState> {
+    // ✅ Step 1: Register a User with a Dual-Signed Key Binding
+    fn register_user(
+        ref self: TContractState,
+        user_address: ContractAddress,
+        starknet_key: felt252,
+        pq_key_commitment: felt252,
+        signature_r: felt252,
+        signature_s: felt252,
+    );
+
+    // ✅ Look Up a User's Registered Keys: (starknet_key, pq_key_commitment)
+    fn get_user(self: @TContractState, user_address: ContractAddress) -> (felt252, felt252);
+
+    // ✅ Step 2: Append a Message CID to a Conversation, Returns Its Index
+    fn store_message(
+        ref self: TContractState,
+        sender: ContractAddress,
+        receiver: ContractAddress,
+        cid_codec: felt252,
+        cid_digest: u256,
+        nonce: felt252,
+        signature_r: felt252,
+        signature_s: felt252,
+    ) -> u64;
+
+    // ✅ Step 3: Read a Page of a Conversation, Oldest First
+    fn get_messages(
+        self: @TContractState, sender: ContractAddress, receiver: ContractAddress, from_index: u64, limit: u32,
+    ) -> Array<StoredMessage>;
+
+    fn get_message_count(self: @TContractState, sender: ContractAddress, receiver: ContractAddress) -> u64;
+
+    // ✅ Next nonce `store_message` accepts from a sender
+    fn get_nonce(self: @TContractState, user_address: ContractAddress) -> felt252;
+
+    // ✅ Step 4: Delete a Message (For Privacy Compliance)
+    fn delete_message(ref self: TContractState, sender: ContractAddress, receiver: ContractAddress, index: u64);
+}
+
+#[starknet::contract]
+pub mod TetraCryptMessaging {
+    use core::ecdsa::check_ecdsa_signature;
+    use core::poseidon::poseidon_hash_span;
+    use starknet::storage::{Map, StorageMapReadAccess, StorageMapWriteAccess};
+    use starknet::{ContractAddress, get_block_timestamp, get_caller_address, get_contract_address, get_tx_info};
+    use super::{ITetraCryptMessaging, StoredMessage};
+
+    // ✅ Domain tags for signed statements (must match `@/lib/registration` and `@/lib/tetracrypt-abi`)
+    const REGISTRATION_DOMAIN: felt252 = 'TetraCrypt/register/v1';
+    const MESSAGE_DOMAIN: felt252 = 'TetraCrypt/message/v1';
+
+    // ✅ Messages Expire After 7 Days (anyone may delete them after that)
+    const MESSAGE_TTL: u64 = 7 * 24 * 60 * 60;
+    const MAX_PAGE_SIZE: u32 = 100;
+
+    #[storage]
+    struct Storage {
+        user_stark_keys: Map<ContractAddress, felt252>,
+        user_pq_key_commitments: Map<ContractAddress, felt252>,
+        nonces: Map<ContractAddress, felt252>,
+        message_counts: Map<(ContractAddress, ContractAddress), u64>,
+        messages: Map<(ContractAddress, ContractAddress, u64), StoredMessage>,
+    }
+
+    #[event]
+    #[derive(Drop, starknet::Event)]
+    pub enum Event {
+        UserRegistered: UserRegistered,
+        MessageStored: MessageStored,
+        MessageDeleted: MessageDeleted,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    pub struct UserRegistered {
+        #[key]
+        pub user_address: ContractAddress,
+        pub starknet_key: felt252,
+        pub pq_key_commitment: felt252,
+    }
+
+    // ✅ Real-Time Messaging Updates
+    #[derive(Drop, starknet::Event)]
+    pub struct MessageStored {
+        #[key]
+        pub sender: ContractAddress,
+        #[key]
+        pub receiver: ContractAddress,
+        pub index: u64,
+        pub cid_codec: felt252,
+        pub cid_digest: u256,
+        pub timestamp: u64,
+    }
+
+    #[derive(Drop, starknet::Event)]
+    pub struct MessageDeleted {
+        #[key]
+        pub sender: ContractAddress,
+        #[key]
+        pub receiver: ContractAddress,
+        pub index: u64,
+    }
+
+    // ✅ Statements are bound to this chain and deployment (prevents cross-deployment replay)
+    fn statement_hash(domain: felt252, fields: Span<felt252>) -> felt252 {
+        let mut elements = array![domain, get_tx_info().unbox().chain_id, get_contract_address().into()];
+        elements.append_span(fields);
+        poseidon_hash_span(elements.span())
+    }
+
+    #[abi(embed_v0)]
+    impl TetraCryptMessagingImpl of ITetraCryptMessaging<ContractState> {
+        // The account proves it holds `starknet_key` by signing the binding statement, which
+        // also commits to its post-quantum key. PQ signatures are too large to check here;
+        // peers verify the PQ half off-chain against `pq_key_commitment`.
+        fn register_user(
+            ref self: ContractState,
+            user_address: ContractAddress,
+            starknet_key: felt252,
+            pq_key_commitment: felt252,
+            signature_r: felt252,
+            signature_s: felt252,
+        ) {
+            // ✅ Only the account itself can register its keys
+            assert(get_caller_address() == user_address, 'Caller is not the account');
+
+            // ✅ Verify the StarkNet half of the dual signature
+            let hash = statement_hash(
+                REGISTRATION_DOMAIN, array![user_address.into(), starknet_key, pq_key_commitment].span(),
+            );
+            assert(check_ecdsa_signature(hash, starknet_key, signature_r, signature_s), 'Invalid registration signature');
+
+            self.user_stark_keys.write(user_address, starknet_key);
+            self.user_pq_key_commitments.write(user_address, pq_key_commitment);
+            self.emit(UserRegistered { user_address, starknet_key, pq_key_commitment });
+        }
+
+        fn get_user(self: @ContractState, user_address: ContractAddress) -> (felt252, felt252) {
+            (self.user_stark_keys.read(user_address), self.user_pq_key_commitments.read(user_address))
+        }
+
+        // The sender signs each message with its registered Stark key, so anyone (e.g. a relay)
+        // can submit it. The signed nonce must be the sender's next one, so a submitted message
+        // can never be stored twice.
+        fn store_message(
+            ref self: ContractState,
+            sender: ContractAddress,
+            receiver: ContractAddress,
+            cid_codec: felt252,
+            cid_digest: u256,
+            nonce: felt252,
+            signature_r: felt252,
+            signature_s: felt252,
+        ) -> u64 {
+            let starknet_key = self.user_stark_keys.read(sender);
+            assert(starknet_key != 0, 'Sender is not registered');
+
+            // ✅ Prevent Replay Attacks: each nonce is accepted once, in order
+            assert(nonce == self.nonces.read(sender), 'Invalid nonce');
+
+            // ✅ Verify StarkNet Digital Signature (Ensures Message Authenticity)
+            let hash = statement_hash(
+                MESSAGE_DOMAIN,
+                array![
+                    sender.into(),
+                    receiver.into(),
+                    nonce,
+                    cid_codec,
+                    cid_digest.low.into(),
+                    cid_digest.high.into(),
+                ]
+                    .span(),
+            );
+            assert(check_ecdsa_signature(hash, starknet_key, signature_r, signature_s), 'Invalid message signature');
+            self.nonces.write(sender, nonce + 1);
+
+            // ✅ Append to the conversation log; earlier entries are never overwritten
+            let index = self.message_counts.read((sender, receiver));
+            let timestamp = get_block_timestamp();
+            self
+                .messages
+                .write(
+                    (sender, receiver, index),
+                    StoredMessage {
+                        cid_codec, cid_digest, timestamp, expires_at: timestamp + MESSAGE_TTL, deleted: false,
+                    },
+                );
+            self.message_counts.write((sender, receiver), index + 1);
+
+            self.emit(MessageStored { sender, receiver, index, cid_codec, cid_digest, timestamp });
+            index
+        }
+
+        fn get_messages(
+            self: @ContractState, sender: ContractAddress, receiver: ContractAddress, from_index: u64, limit: u32,
+        ) -> Array<StoredMessage> {
+            let count = self.message_counts.read((sender, receiver));
+            let limit: u64 = if limit > MAX_PAGE_SIZE {
+                MAX_PAGE_SIZE.into()
+            } else {
+                limit.into()
+            };
+
+            let mut page = array![];
+            let mut index = from_index;
+            while index < count && index - from_index < limit {
+                page.append(self.messages.read((sender, receiver, index)));
+                index += 1;
+            };
+            page
+        }
+
+        fn get_message_count(self: @ContractState, sender: ContractAddress, receiver: ContractAddress) -> u64 {
+            self.message_counts.read((sender, receiver))
+        }
+
+        fn get_nonce(self: @ContractState, user_address: ContractAddress) -> felt252 {
+            self.nonces.read(user_address)
+        }
+
+        // Participants can delete at any time, anyone else once the message has expired. The
+        // entry keeps its index so later messages do not move.
+        fn delete_message(ref self: ContractState, sender: ContractAddress, receiver: ContractAddress, index: u64) {
+            assert(index < self.message_counts.read((sender, receiver)), 'Message does not exist');
+            let mut message = self.messages.read((sender, receiver, index));
+
+            let caller = get_caller_address();
+            let is_participant = caller == sender || caller == receiver;
+            assert(is_participant || get_block_timestamp() >= message.expires_at, 'Message has not expired');
+
+            message.cid_codec = 0;
+            message.cid_digest = 0;
+            message.deleted = true;
+            self.messages.write((sender, receiver, index), message);
+            self.emit(MessageDeleted { sender, receiver, index });
+        }
+    }
+}
@@ -11,6 +11,19 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_APP_TITLE: string;
   readonly VITE_ENABLE_DEBUG: string;
+  /** WebSocket relay (defaults to ws://localhost:8787). */
+  readonly VITE_RELAY_URL?: string;
+  /** Blob store backend: `helia` (default), `http` or `memory`. */
+  readonly VITE_BLOB_STORE?: string;
+  /** `http` blob store: Kubo-compatible IPFS API, optional bearer token and read gateway. */
+  readonly VITE_IPFS_API_URL?: string;
+  readonly VITE_IPFS_API_TOKEN?: string;
+  readonly VITE_IPFS_GATEWAY_URL?: string;
+  /** StarkNet network: `mainnet` (default), `sepolia` or `devnet`; optional RPC node override. */
+  readonly VITE_STARKNET_NETWORK?: string;
+  readonly VITE_STARKNET_RPC_URL?: string;
+  /** Deployed TetraCrypt messaging contract on that network. */
+  readonly VITE_TETRACRYPT_CONTRACT_ADDRESS?: string;
 }
 
 interface ImportMeta {
@@ -26,10 +39,4 @@ declare module "ethers" {
 declare module "starknet" {
   import { Provider, Contract, Account, ec, hash, stark } from "starknet";
   export { Provider, Contract, Account, ec, hash, stark };
-}
-
-// ✅ Support for Web3.Storage or Other IPFS Implementations
-declare module "web3.storage" {
-  import { Web3Storage } from "web3.storage";
-  export { Web3Storage };
 }
\ No newline at end of file